@@ -14,6 +14,9 @@ import PublicFormPrEintraege from '@/pages/public/PublicForm_PrEintraege';
 // <public:imports>
 // </public:imports>
 // <custom:imports>
+import StartRoutinePage from '@/pages/intents/StartRoutinePage';
+import AchievementsPage from '@/pages/AchievementsPage';
+import ReviewPage from '@/pages/ReviewPage';
 // </custom:imports>
 
 export default function App() {
@@ -33,6 +36,9 @@ export default function App() {
                 <Route path="pr-eintraege" element={<PrEintraegePage />} />
                 <Route path="admin" element={<AdminPage />} />
                 {/* <custom:routes> */}
+                <Route path="intents/routine-starten" element={<StartRoutinePage />} />
+                <Route path="erfolge" element={<AchievementsPage />} />
+                <Route path="rueckblick" element={<ReviewPage />} />
                 {/* </custom:routes> */}
               </Route>
             </Routes>
@@ -0,0 +1,124 @@
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { BodyweightEntry } from '@/types/local';
+import { Button } from '@/components/ui/button';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { formatWeight, toDisplayWeight } from '@/lib/units';
+import { BODYWEIGHT_AVERAGE_DAYS, bodyweightChange, bodyweightTrend } from '@/lib/bodyweight';
+
+interface BodyweightPanelProps {
+  entries: BodyweightEntry[];
+  onAdd: () => void;
+  onDelete: (entry: BodyweightEntry) => void;
+}
+
+const RECENT_ENTRIES = 5;
+
+/** Weigh-ins with a trailing average, latest values and the most recent entries */
+export function BodyweightPanel({ entries, onAdd, onDelete }: BodyweightPanelProps) {
+  const [unit] = useWeightUnit();
+  const trend = bodyweightTrend(entries);
+  const latest = trend[trend.length - 1];
+  const change = bodyweightChange(trend, 30);
+  const latestBodyFat = trend.slice().reverse().find((p) => p.body_fat_percent != null)?.body_fat_percent;
+  const recent = entries
+    .filter((e) => e.fields.date && e.fields.weight_kg)
+    .sort((a, b) => b.fields.date!.localeCompare(a.fields.date!))
+    .slice(0, RECENT_ENTRIES);
+
+  const chartData = trend.map((p) => ({
+    date: format(parseISO(p.date), 'dd.MM', { locale: de }),
+    weight: toDisplayWeight(p.weight_kg, unit),
+    average: toDisplayWeight(p.average_kg, unit),
+  }));
+
+  if (!latest) {
+    return (
+      <div className="text-center py-8 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+        <p className="text-sm text-[var(--text-muted)] mb-3">Noch kein Körpergewicht eingetragen</p>
+        <Button onClick={onAdd} variant="outline" className="press-feedback">
+          <IconPlus className="w-4 h-4 mr-1" />
+          Körpergewicht eintragen
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+          <div className="text-xs text-[var(--text-dim)] mb-1">Ø {BODYWEIGHT_AVERAGE_DAYS} Tage</div>
+          <div className="font-display text-lg font-bold text-[var(--accent)]">{formatWeight(latest.average_kg, unit)}</div>
+        </div>
+        <div className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+          <div className="text-xs text-[var(--text-dim)] mb-1">30 Tage</div>
+          <div className="font-display text-lg font-bold">
+            {change == null ? '—' : `${change > 0 ? '+' : ''}${formatWeight(change, unit)}`}
+          </div>
+        </div>
+        <div className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+          <div className="text-xs text-[var(--text-dim)] mb-1">Körperfett</div>
+          <div className="font-display text-lg font-bold">
+            {latestBodyFat == null ? '—' : `${latestBodyFat.toLocaleString('de-DE')} %`}
+          </div>
+        </div>
+      </div>
+
+      {chartData.length >= 2 && (
+        <div className="h-[200px] w-full bg-[var(--surface-1)] rounded-[var(--radius)] p-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <XAxis dataKey="date" stroke="#727280" fontSize={10} tickLine={false} axisLine={false} />
+              <YAxis stroke="#727280" fontSize={10} tickLine={false} axisLine={false} domain={['dataMin - 1', 'dataMax + 1']} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1c1c24', border: '1px solid #2a2a35', borderRadius: '8px' }}
+                labelStyle={{ color: '#e8e8f0' }}
+                formatter={(value: number, name: string) => [
+                  `${value.toLocaleString('de-DE')} ${unit}`,
+                  name === 'average' ? `Ø ${BODYWEIGHT_AVERAGE_DAYS} Tage` : 'Gewicht',
+                ]}
+              />
+              <Line type="monotone" dataKey="weight" stroke="#727280" strokeWidth={0} dot={{ r: 2, fill: '#727280' }} isAnimationActive={false} />
+              <Line type="monotone" dataKey="average" stroke="#ff8fa8" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        {recent.map((entry) => (
+          <div
+            key={entry.record_id}
+            className="flex items-center justify-between gap-2 px-3 py-2 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]"
+          >
+            <span className="text-xs text-[var(--text-dim)]">
+              {format(parseISO(entry.fields.date!), 'dd. MMM yyyy', { locale: de })}
+            </span>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">{formatWeight(entry.fields.weight_kg!, unit)}</span>
+              {entry.fields.body_fat_percent != null && (
+                <span className="text-xs text-[var(--text-muted)]">{entry.fields.body_fat_percent.toLocaleString('de-DE')} %</span>
+              )}
+              <button
+                type="button"
+                onClick={() => onDelete(entry)}
+                className="w-7 h-7 flex items-center justify-center rounded-lg hover:bg-[var(--surface-2)] transition-colors"
+                title="Löschen"
+              >
+                <IconTrash className="w-4 h-4 text-[var(--text-dim)]" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={onAdd} variant="outline" className="w-full press-feedback">
+        <IconPlus className="w-4 h-4 mr-1" />
+        Körpergewicht eintragen
+      </Button>
+    </div>
+  );
+}
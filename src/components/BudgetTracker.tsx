@@ -5,22 +5,40 @@ interface BudgetTrackerProps {
   booked: number;
   label?: string;
   showRemaining?: boolean;
+  /** Formats budget, booked and remaining amounts; defaults to EUR */
+  formatValue?: (value: number) => string;
+  bookedLabel?: string;
+  emptyText?: string;
+  overText?: string;
+  /** Lower bound of a target range; shown as a marker, the bar stays amber until it is reached */
+  minimum?: number;
 }
 
-export function BudgetTracker({ budget, booked, label = 'Budget', showRemaining = true }: BudgetTrackerProps) {
+export function BudgetTracker({
+  budget,
+  booked,
+  label = 'Budget',
+  showRemaining = true,
+  formatValue = formatCurrency,
+  bookedLabel = 'Gebucht',
+  emptyText = 'Kein Budget definiert',
+  overText = 'Budget überschritten!',
+  minimum,
+}: BudgetTrackerProps) {
   const percent = budget > 0 ? Math.min((booked / budget) * 100, 100) : 0;
   const remaining = budget - booked;
   const overBudget = booked > budget;
-  const barColor = overBudget ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-primary';
+  const belowMinimum = minimum != null && booked < minimum;
+  const barColor = overBudget ? 'bg-red-500' : belowMinimum || (minimum == null && percent >= 80) ? 'bg-amber-500' : 'bg-primary';
 
   if (budget <= 0) {
     return (
       <div className="rounded-xl border bg-card p-4">
         <div className="flex items-center justify-between text-sm mb-1">
           <span className="font-medium text-muted-foreground">{label}</span>
-          <span className="font-semibold">{formatCurrency(booked)}</span>
+          <span className="font-semibold">{formatValue(booked)}</span>
         </div>
-        <p className="text-xs text-muted-foreground">Kein Budget definiert</p>
+        <p className="text-xs text-muted-foreground">{emptyText}</p>
       </div>
     );
   }
@@ -34,31 +52,37 @@ export function BudgetTracker({ budget, booked, label = 'Budget', showRemaining
         </span>
       </div>
 
-      <div className="h-2.5 rounded-full bg-muted overflow-hidden">
+      <div className="relative h-2.5 rounded-full bg-muted overflow-hidden">
         <div
           className={`h-full rounded-full transition-all ${barColor}`}
           style={{ width: `${percent}%` }}
         />
+        {minimum != null && minimum > 0 && minimum < budget && (
+          <div
+            className="absolute inset-y-0 w-0.5 bg-foreground/40"
+            style={{ left: `${(minimum / budget) * 100}%` }}
+          />
+        )}
       </div>
 
       <div className="flex items-center justify-between text-xs text-muted-foreground">
         <span>
-          Gebucht: <span className="font-semibold text-foreground">{formatCurrency(booked)}</span>
+          {bookedLabel}: <span className="font-semibold text-foreground">{formatValue(booked)}</span>
         </span>
-        <span>von {formatCurrency(budget)}</span>
+        <span>{minimum != null ? `${formatValue(minimum)}–` : 'von '}{formatValue(budget)}</span>
       </div>
 
       {showRemaining && (
         <div className="flex items-center justify-between text-xs pt-1 border-t">
           <span className="text-muted-foreground">Verbleibend</span>
           <span className={`font-semibold ${overBudget ? 'text-red-600' : 'text-green-600'}`}>
-            {formatCurrency(remaining)}
+            {formatValue(remaining)}
           </span>
         </div>
       )}
 
       {overBudget && (
-        <p className="text-xs text-red-600 font-medium">Budget überschritten!</p>
+        <p className="text-xs text-red-600 font-medium">{overText}</p>
       )}
     </div>
   );
@@ -0,0 +1,162 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { IconBarbell, IconRun } from '@tabler/icons-react';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { CardioSession, WorkoutSession } from '@/types/local';
+import { extractRecordId } from '@/services/livingAppsService';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { toDisplayWeight, formatWeight } from '@/lib/units';
+import { cardioActivityMeta, formatPace } from '@/lib/cardio';
+import { getEntrySets, countedSets, entryVolume } from '@/lib/sets';
+import {
+  DEFAULT_TRACKING_TYPE,
+  exerciseTrackingType,
+  formatDistance,
+  formatDuration,
+  formatEntryPerformance,
+  usesWeight,
+  type TrackingType,
+} from '@/lib/tracking';
+import { formatSessionDuration, groupEntriesBySession, sessionDurationMinutes } from '@/lib/sessions';
+import type { ExerciseWithPRs } from '@/lib/exercise-history';
+
+interface DayDetailSheetProps {
+  open: boolean;
+  onClose: () => void;
+  date: Date | null;
+  /** Entries of `date` */
+  entries: PrEintraege[];
+  /** Cardio sessions of `date` */
+  cardio: CardioSession[];
+  exercises: ExerciseWithPRs[];
+  sessions: WorkoutSession[];
+}
+
+/** Everything logged on one calendar day, grouped by workout session */
+export function DayDetailSheet({ open, onClose, date, entries, cardio, exercises, sessions }: DayDetailSheetProps) {
+  const [weightUnit] = useWeightUnit();
+
+  const namedEntries = useMemo(
+    () => entries.map((pr) => {
+      const exercise = exercises.find((ex) => ex.record_id === extractRecordId(pr.fields.exercise_id));
+      return { ...pr, exerciseName: exercise?.fields.name || 'Unbekannt' };
+    }),
+    [entries, exercises]
+  );
+
+  const sessionGroups = useMemo(() => groupEntriesBySession(namedEntries, sessions), [namedEntries, sessions]);
+
+  function trackingOf(exerciseId: string | null): TrackingType {
+    const exercise = exercises.find((ex) => ex.record_id === exerciseId);
+    return exercise ? exerciseTrackingType(exercise) : DEFAULT_TRACKING_TYPE;
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={(next) => !next && onClose()}>
+      <SheetContent
+        side="bottom"
+        className="h-[60dvh] rounded-t-[var(--radius-sheet)] bg-[var(--surface-3)] border-t border-[var(--border)] p-0"
+      >
+        <div className="flex flex-col h-full">
+          <SheetHeader className="px-6 pt-6 pb-4 border-b border-[var(--border-dim)]">
+            <SheetTitle className="font-display text-xl font-bold">
+              {date && format(date, 'EEEE, dd. MMMM yyyy', { locale: de })}
+            </SheetTitle>
+            <p className="text-sm text-[var(--text-muted)]">
+              {namedEntries.length} Übung{namedEntries.length !== 1 ? 'en' : ''}
+              {cardio.length > 0 && ` · ${cardio.length} Cardio`}
+            </p>
+          </SheetHeader>
+
+          <div className="flex-1 overflow-auto px-6 py-4 space-y-5">
+            {cardio.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-display font-bold text-sm flex items-center gap-2">
+                  <IconRun className="w-4 h-4 text-sky-400" />
+                  Cardio
+                </h3>
+                {cardio.map((c) => (
+                  <div
+                    key={c.record_id}
+                    className="p-4 rounded-[var(--radius)] bg-[var(--surface-2)] border border-[var(--border)]"
+                  >
+                    <div className="flex items-baseline justify-between gap-2">
+                      <h3 className="font-display font-bold">{cardioActivityMeta(c.fields.activity).label}</h3>
+                      <span className="text-sm text-[var(--text-dim)]">{formatPace(c.fields)}</span>
+                    </div>
+                    <div className="flex items-baseline gap-2 mt-1">
+                      <span className="font-display text-2xl font-bold text-sky-400">
+                        {c.fields.distance_m ? formatDistance(c.fields.distance_m) : '—'}
+                      </span>
+                      <span className="text-sm text-[var(--text-muted)]">
+                        in {formatDuration(c.fields.duration_seconds ?? 0)}
+                      </span>
+                      {c.fields.avg_heart_rate && (
+                        <span className="text-sm text-[var(--text-dim)] ml-auto">Ø {c.fields.avg_heart_rate} bpm</span>
+                      )}
+                    </div>
+                    {c.fields.note && <p className="text-xs text-[var(--text-muted)] mt-2">{c.fields.note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+            {sessionGroups.map(({ session, entries: sessionEntries }) => (
+              <div key={session?.record_id ?? 'standalone'} className="space-y-2">
+                {session ? (
+                  <div>
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="font-display font-bold text-sm flex items-center gap-2">
+                        <IconBarbell className="w-4 h-4 text-[var(--accent)]" />
+                        {session.fields.name}
+                      </h3>
+                      <span className="text-xs text-[var(--text-dim)]">
+                        {session.fields.started_at && format(new Date(session.fields.started_at), 'HH:mm')}
+                        {session.fields.ended_at && `–${format(new Date(session.fields.ended_at), 'HH:mm')}`}
+                        {' · '}{formatSessionDuration(sessionDurationMinutes(session))}
+                      </span>
+                    </div>
+                    {session.fields.notes && (
+                      <p className="text-xs text-[var(--text-muted)] mt-1">{session.fields.notes}</p>
+                    )}
+                  </div>
+                ) : sessionGroups.length > 1 && (
+                  <h3 className="text-sm font-medium text-[var(--text-muted)]">Einzelne Einträge</h3>
+                )}
+                {sessionEntries.map((pr) => (
+                  <div
+                    key={pr.record_id}
+                    className="p-4 rounded-[var(--radius)] bg-[var(--surface-2)] border border-[var(--border)]"
+                  >
+                    <h3 className="font-display font-bold mb-2">{pr.exerciseName}</h3>
+                    <div className="flex items-baseline gap-2">
+                      {usesWeight(trackingOf(extractRecordId(pr.fields.exercise_id))) ? (
+                        <>
+                          <span className="font-display text-2xl font-bold text-[var(--accent)]">
+                            {toDisplayWeight(pr.fields.weight_kg || 0, weightUnit)}
+                          </span>
+                          <span className="text-sm text-[var(--text-muted)]">{weightUnit}</span>
+                          <span className="text-[var(--text-muted)] mx-1">×</span>
+                          <span className="font-display text-lg font-semibold">{pr.fields.reps}</span>
+                          <span className="text-sm text-[var(--text-muted)]">reps</span>
+                        </>
+                      ) : (
+                        <span className="font-display text-2xl font-bold text-[var(--accent)]">
+                          {formatEntryPerformance(pr, trackingOf(extractRecordId(pr.fields.exercise_id)), weightUnit)}
+                        </span>
+                      )}
+                      <span className="text-sm text-[var(--text-dim)] ml-auto">
+                        {countedSets(getEntrySets(pr)).length} Sätze · {formatWeight(entryVolume(pr), weightUnit)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
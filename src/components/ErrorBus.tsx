@@ -1,17 +1,12 @@
 import { createContext, useCallback, useContext, useEffect, useRef, type ReactNode } from 'react';
 import { toast, Toaster } from 'sonner';
+import { VALIDATION_ERROR_TYPES } from '@/services/apiErrors';
 
 const APPGROUP_ID = '694d77fcc1d4d50e79b93d47';
 const REPAIR_ENDPOINT = '/claude/build/repair';
 const DEDUP_WINDOW_MS = 5000;
 const TOAST_DURATION_MS = 10000;
 
-const USER_TYPES = new Set<string>([
-  'validation-error',
-  'required-field-missing',
-  'unique-constraint-violation',
-]);
-
 const BUG_TYPES = new Set<string>([
   'illegal-field-value',
   'unsupported-field-value',
@@ -37,7 +32,7 @@ export interface ErrorPayload {
 function classify(err: ErrorPayload): ErrorCategory {
   if (err.source === 'network') return 'transient';
   if (typeof err.status === 'number' && err.status >= 500) return 'transient';
-  if (err.type && USER_TYPES.has(err.type)) return 'user';
+  if (err.type && VALIDATION_ERROR_TYPES.has(err.type)) return 'user';
   if (err.type && BUG_TYPES.has(err.type)) return 'bug';
   if (err.source === 'js' || err.source === 'promise') return 'bug';
   return 'bug';
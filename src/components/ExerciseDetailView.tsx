@@ -0,0 +1,565 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import {
+  IconTrendingUp,
+  IconPlus,
+  IconTrophy,
+  IconHistory,
+  IconFlame,
+  IconBolt,
+  IconShare,
+  IconTarget,
+  IconAlertTriangle,
+  IconScale,
+  IconClock,
+} from '@tabler/icons-react';
+import { XAxis, YAxis, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { BodyweightEntry, Goal } from '@/types/local';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useE1RMFormula } from '@/hooks/useE1RMFormula';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { useEffortScale } from '@/hooks/useEffortScale';
+import { toDisplayWeight, formatWeight } from '@/lib/units';
+import { PlateCalculator, WarmupRamp } from '@/components/PlateCalculator';
+import { StrengthScoresCard } from '@/components/StrengthScoresCard';
+import { RpeCalculator } from '@/components/RpeCalculator';
+import { GoalProgressCard } from '@/components/GoalProgressCard';
+import { mainLift, mainLiftLabel } from '@/lib/strength-scores';
+import { E1RM_FORMULAS, entryE1RM, bestE1RM } from '@/lib/strength';
+import { entryRPE, entryRpeE1RM, formatEffort, isValidRPE } from '@/lib/rpe';
+import { setTypeMeta, getEntrySets, entryTopSet, entryVolume } from '@/lib/sets';
+import { describePlateau, describeDeload, type PlateauAlert } from '@/lib/plateau';
+import {
+  entryBestSet,
+  exerciseTrackingType,
+  formatEntryPerformance,
+  formatPerformanceValue,
+  formatSetPerformance,
+  performanceLabel,
+  performanceValue,
+  bestSet,
+  usesWeight,
+} from '@/lib/tracking';
+import { getExerciseAvatar, type ExerciseWithPRs } from '@/lib/exercise-history';
+
+interface ExerciseDetailViewProps {
+  exercise: ExerciseWithPRs;
+  plateau?: PlateauAlert;
+  /** Goals of this exercise */
+  goals: Goal[];
+  bodyweightEntries: BodyweightEntry[];
+  /** Entries saved offline, not yet on the server */
+  pendingEntryIds: Set<string>;
+  onAddPR: () => void;
+  onShare: (pr: PrEintraege, exerciseName: string, totalPRs?: number) => void;
+  onAddGoal: () => void;
+  onEditGoal: (goal: Goal) => void;
+  onDeleteGoal: (goal: Goal) => void;
+  onLogBodyweight: () => void;
+}
+
+/** Progress charts, records, goals and history of one exercise */
+export function ExerciseDetailView({
+  exercise,
+  plateau,
+  goals,
+  bodyweightEntries,
+  pendingEntryIds,
+  onAddPR,
+  onShare,
+  onAddGoal,
+  onEditGoal,
+  onDeleteGoal,
+  onLogBodyweight,
+}: ExerciseDetailViewProps) {
+  const [weightUnit] = useWeightUnit();
+  const [e1rmFormula, setE1rmFormula] = useE1RMFormula();
+  const [effortScale] = useEffortScale();
+  const [progressTab, setProgressTab] = useState('weight');
+  const tracking = exerciseTrackingType(exercise);
+  const isLoadTracked = tracking === 'gewicht';
+
+  /** Stored kilograms in the selected display unit */
+  function displayWeight(kg: number | undefined): number {
+    return toDisplayWeight(kg || 0, weightUnit);
+  }
+
+  // Prepare chart data — the first series is the tracking type's main metric
+  const chartData = useMemo(() => {
+    const toUnit = (kg: number | undefined) => toDisplayWeight(kg || 0, weightUnit);
+    return exercise.prs
+      .slice()
+      .reverse()
+      .map((pr) => ({
+        date: pr.fields.date ? format(new Date(pr.fields.date), 'dd.MM', { locale: de }) : '',
+        fullDate: pr.fields.date,
+        weight: usesWeight(tracking)
+          ? toUnit(entryBestSet(pr, tracking)?.weight_kg)
+          : performanceValue(entryBestSet(pr, tracking), tracking),
+        reps: entryTopSet(pr)?.reps || 0,
+        volume: Math.round(toUnit(entryVolume(pr))),
+        e1rm: toUnit(entryE1RM(pr, e1rmFormula)),
+        // null leaves a gap instead of dropping the line to zero
+        rpeE1rm: entryRpeE1RM(pr) > 0 ? toUnit(entryRpeE1RM(pr)) : null,
+        rpe: entryRPE(pr),
+      }));
+  }, [exercise.prs, e1rmFormula, weightUnit, tracking]);
+
+  const bestExerciseE1RM = bestE1RM(exercise.prs, e1rmFormula);
+  const warmupTarget = isLoadTracked && exercise.lastPR ? entryTopSet(exercise.lastPR)?.weight_kg ?? 0 : 0;
+  const bestPerformance = isLoadTracked ? null : bestSet(exercise.prs.flatMap(getEntrySets), tracking);
+  const competitionLift = isLoadTracked ? mainLift(exercise) : null;
+  const hasRPE = isLoadTracked && chartData.some((d) => d.rpe != null);
+  // The latest rated session reflects today's strength better than an old best
+  const latestRpeEntry = exercise.prs.find((pr) => entryRpeE1RM(pr) > 0);
+  const bestE1RMEntry = exercise.prs.find((pr) => entryE1RM(pr, e1rmFormula) === bestExerciseE1RM);
+
+  return (
+    <div className="flex-1 overflow-auto pb-20">
+      {/* Hero Header */}
+      <section className="px-4 pt-8 pb-6 stagger-fade-in">
+        <div className="flex items-center gap-4 mb-4">
+          <div
+            className="shrink-0 w-14 h-14 rounded-2xl flex items-center justify-center text-white font-display font-bold text-base tracking-tight"
+            style={{ backgroundColor: getExerciseAvatar(exercise.fields.name).color }}
+          >
+            {getExerciseAvatar(exercise.fields.name).letter}
+          </div>
+          <h1 className="font-display text-3xl font-bold leading-tight">
+            {exercise.fields.name}
+          </h1>
+        </div>
+
+        {/* KPI Chips */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {bestPerformance && (
+            <div className="px-4 py-2 rounded-[var(--radius-chip)] bg-[var(--surface-2)] border border-[var(--border)] flex items-center gap-2">
+              <IconTrophy className="w-4 h-4 text-[var(--accent)]" />
+              <span className="font-display font-bold text-sm text-[var(--accent)]">
+                {formatSetPerformance(bestPerformance, tracking, weightUnit)}
+              </span>
+            </div>
+          )}
+          {isLoadTracked && exercise.bestKg && (
+            <div className="px-4 py-2 rounded-[var(--radius-chip)] bg-[var(--surface-2)] border border-[var(--border)] flex items-center gap-2">
+              <IconTrophy className="w-4 h-4 text-[var(--accent)]" />
+              <span className="text-sm font-medium">
+                <span className="font-display font-bold text-[var(--accent)]">
+                  {displayWeight(exercise.bestKg)}
+                </span>{' '}
+                <span className="text-[var(--text-muted)]">{weightUnit}</span>
+              </span>
+            </div>
+          )}
+          {bestExerciseE1RM > 0 && (
+            <div className="px-4 py-2 rounded-[var(--radius-chip)] bg-[var(--surface-2)] border border-[var(--border)] flex items-center gap-2">
+              <IconBolt className="w-4 h-4 text-[var(--accent)]" />
+              <span className="text-sm font-medium">
+                <span className="font-display font-bold">{displayWeight(bestExerciseE1RM)}</span>{' '}
+                <span className="text-[var(--text-muted)]">{weightUnit} e1RM</span>
+              </span>
+            </div>
+          )}
+          {exercise.lastPR && (
+            <div className="px-4 py-2 rounded-[var(--radius-chip)] bg-[var(--surface-2)] border border-[var(--border)] flex items-center gap-2">
+              <IconHistory className="w-4 h-4 text-[var(--text-muted)]" />
+              <span className="text-sm text-[var(--text-muted)]">
+                {exercise.lastPR.fields.date &&
+                  format(new Date(exercise.lastPR.fields.date), 'dd. MMM', { locale: de })}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Plateau warning */}
+        {plateau && (
+          <div className="mb-6 p-4 rounded-[var(--radius)] bg-amber-500/10 border border-amber-500/30">
+            <div className="flex items-center gap-2 mb-1">
+              <IconAlertTriangle className="w-4 h-4 text-amber-400" />
+              <span className="text-sm font-medium text-amber-400">
+                {plateau.kind === 'regression' ? 'Rückschritt' : 'Plateau'}
+              </span>
+            </div>
+            <p className="text-sm">{describePlateau(plateau)}</p>
+            <p className="text-xs text-[var(--text-muted)] mt-1">{describeDeload(plateau, weightUnit)}</p>
+          </div>
+        )}
+
+        {/* CTA Buttons */}
+        <div className="flex gap-3">
+          <Button
+            onClick={() => onAddPR()}
+            className="flex-1 h-12 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white font-medium rounded-[var(--radius-button)] press-feedback glow-accent"
+          >
+            <IconPlus className="w-5 h-5 mr-2" />
+            PR hinzufügen
+          </Button>
+          {exercise.lastPR && (
+            <Button
+              onClick={() => onShare(exercise.lastPR!, exercise.fields.name || '', exercise.prs.length)}
+              variant="outline"
+              className="h-12 px-4 border-[var(--border)] hover:border-[var(--accent)] hover:bg-[var(--accent)]/10 rounded-[var(--radius-button)] press-feedback"
+            >
+              <IconShare className="w-5 h-5" />
+            </Button>
+          )}
+        </div>
+      </section>
+
+      {/* Goals */}
+      <section className="px-4 pb-6 stagger-fade-in stagger-delay-1">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] flex items-center gap-2">
+            <IconTarget className="w-4 h-4" />
+            Ziele
+          </h2>
+          <button
+            type="button"
+            onClick={() => onAddGoal()}
+            className="flex items-center gap-1 text-xs text-[var(--accent)] hover:underline"
+          >
+            <IconPlus className="w-3.5 h-3.5" />
+            Ziel
+          </button>
+        </div>
+        {goals.length === 0 ? (
+          <p className="text-xs text-[var(--text-dim)]">Noch kein Ziel für diese Übung</p>
+        ) : (
+          <div className="space-y-2">
+            {goals.map((goal) => (
+              <GoalProgressCard
+                key={goal.record_id}
+                goal={goal}
+                entries={exercise.prs}
+                formula={e1rmFormula}
+                onEdit={onEditGoal}
+                onDelete={onDeleteGoal}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Warm-up & plates for the last top set */}
+      {warmupTarget > 0 && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-1">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconFlame className="w-4 h-4" />
+            Aufwärmen auf {formatWeight(warmupTarget, weightUnit)}
+          </h2>
+          <div className="space-y-2">
+            <WarmupRamp target={warmupTarget} />
+            <PlateCalculator weight={warmupTarget} />
+          </div>
+        </section>
+      )}
+
+      {/* Progress Charts */}
+      {chartData.length >= 2 && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-1">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconTrendingUp className="w-4 h-4" />
+            Progress
+          </h2>
+          <Tabs value={isLoadTracked && (hasRPE || progressTab !== 'rpe') ? progressTab : 'weight'} onValueChange={setProgressTab} className="w-full">
+            <TabsList className={`grid w-full ${isLoadTracked ? (hasRPE ? 'grid-cols-4' : 'grid-cols-3') : 'grid-cols-1'} bg-[var(--surface-1)] rounded-[var(--radius-button)] p-1 h-10`}>
+              <TabsTrigger value="weight" className="text-xs rounded-[var(--radius-button)] data-[state=active]:bg-[var(--surface-2)]">{performanceLabel(tracking)}</TabsTrigger>
+              {isLoadTracked && (
+                <>
+                  <TabsTrigger value="volume" className="text-xs rounded-[var(--radius-button)] data-[state=active]:bg-[var(--surface-2)]">Volumen</TabsTrigger>
+                  <TabsTrigger value="e1rm" className="text-xs rounded-[var(--radius-button)] data-[state=active]:bg-[var(--surface-2)]">e1RM</TabsTrigger>
+                  {hasRPE && (
+                    <TabsTrigger value="rpe" className="text-xs rounded-[var(--radius-button)] data-[state=active]:bg-[var(--surface-2)]">RPE</TabsTrigger>
+                  )}
+                </>
+              )}
+            </TabsList>
+            <TabsContent value="weight" className="mt-4">
+              <div className="h-[200px] w-full bg-[var(--surface-1)] rounded-[var(--radius)] p-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData}>
+                    <defs>
+                      <linearGradient id="colorWeight" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#ff8fa8" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="#ff8fa8" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" stroke="#727280" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#727280" fontSize={10} tickLine={false} axisLine={false} domain={['dataMin - 5', 'dataMax + 5']} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c24', border: '1px solid #2a2a35', borderRadius: '8px' }}
+                      labelStyle={{ color: '#e8e8f0' }}
+                      itemStyle={{ color: '#ff8fa8' }}
+                      formatter={(value: number) => [
+                        usesWeight(tracking) ? `${value} ${weightUnit}` : formatPerformanceValue(value, tracking, weightUnit),
+                        performanceLabel(tracking),
+                      ]}
+                    />
+                    <Area type="monotone" dataKey="weight" stroke="#ff8fa8" strokeWidth={2} fill="url(#colorWeight)" />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </TabsContent>
+            <TabsContent value="volume" className="mt-4">
+              <div className="h-[200px] w-full bg-[var(--surface-1)] rounded-[var(--radius)] p-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData}>
+                    <defs>
+                      <linearGradient id="colorVolume" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#ff8fa8" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="#ff8fa8" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" stroke="#727280" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#727280" fontSize={10} tickLine={false} axisLine={false} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c24', border: '1px solid #2a2a35', borderRadius: '8px' }}
+                      labelStyle={{ color: '#e8e8f0' }}
+                      itemStyle={{ color: '#ff8fa8' }}
+                      formatter={(value: number) => [`${value}`, 'Volumen']}
+                    />
+                    <Area type="monotone" dataKey="volume" stroke="#ff8fa8" strokeWidth={2} fill="url(#colorVolume)" />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </TabsContent>
+            <TabsContent value="e1rm" className="mt-4 space-y-3">
+              <div className="h-[200px] w-full bg-[var(--surface-1)] rounded-[var(--radius)] p-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData}>
+                    <defs>
+                      <linearGradient id="colorE1RM" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#ff8fa8" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="#ff8fa8" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" stroke="#727280" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#727280" fontSize={10} tickLine={false} axisLine={false} domain={['dataMin - 5', 'dataMax + 5']} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c24', border: '1px solid #2a2a35', borderRadius: '8px' }}
+                      labelStyle={{ color: '#e8e8f0' }}
+                      itemStyle={{ color: '#ff8fa8' }}
+                      formatter={(value: number, name: string) => [`${value} ${weightUnit}`, name === 'rpeE1rm' ? 'RPE-e1RM' : 'e1RM']}
+                    />
+                    <Area type="monotone" dataKey="e1rm" stroke="#ff8fa8" strokeWidth={2} fill="url(#colorE1RM)" />
+                    {hasRPE && (
+                      <Area type="monotone" dataKey="rpeE1rm" stroke="#38bdf8" strokeWidth={2} strokeDasharray="4 3" fill="none" connectNulls />
+                    )}
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+              {/* Formula selector — stored per user */}
+              <div className="flex flex-wrap gap-1.5">
+                {E1RM_FORMULAS.map((f) => (
+                  <button
+                    key={f.key}
+                    type="button"
+                    onClick={() => setE1rmFormula(f.key)}
+                    className={`h-8 px-3 rounded-full text-xs font-medium border transition-colors press-feedback ${
+                      e1rmFormula === f.key
+                        ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                        : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+                    }`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </TabsContent>
+            <TabsContent value="rpe" className="mt-4">
+              <div className="h-[200px] w-full bg-[var(--surface-1)] rounded-[var(--radius)] p-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData}>
+                    <defs>
+                      <linearGradient id="colorRPE" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#38bdf8" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="#38bdf8" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" stroke="#727280" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#727280" fontSize={10} tickLine={false} axisLine={false} domain={[6, 10]} ticks={[6, 7, 8, 9, 10]} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c24', border: '1px solid #2a2a35', borderRadius: '8px' }}
+                      labelStyle={{ color: '#e8e8f0' }}
+                      itemStyle={{ color: '#38bdf8' }}
+                      formatter={(value: number) => [formatEffort(value, effortScale), 'Top-Satz']}
+                    />
+                    <Area type="monotone" dataKey="rpe" stroke="#38bdf8" strokeWidth={2} fill="url(#colorRPE)" connectNulls />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </TabsContent>
+          </Tabs>
+        </section>
+      )}
+
+      {/* Load for a target reps @ RPE */}
+      {isLoadTracked && bestExerciseE1RM > 0 && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-1">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconTarget className="w-4 h-4" />
+            Last nach RPE
+          </h2>
+          <RpeCalculator
+            oneRepMax={latestRpeEntry ? entryRpeE1RM(latestRpeEntry) : bestExerciseE1RM}
+            source={latestRpeEntry?.fields.date
+              ? `RPE-e1RM vom ${format(new Date(latestRpeEntry.fields.date), 'dd.MM.yy', { locale: de })}`
+              : 'e1RM (Bestwert)'}
+          />
+        </section>
+      )}
+
+      {/* Relative strength for the competition lifts */}
+      {competitionLift && bestExerciseE1RM > 0 && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-1">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconScale className="w-4 h-4" />
+            Relative Kraft · {mainLiftLabel(competitionLift)}
+          </h2>
+          <StrengthScoresCard
+            lift={competitionLift}
+            liftedKg={bestExerciseE1RM}
+            date={bestE1RMEntry?.fields.date}
+            bodyweightEntries={bodyweightEntries}
+            onLogBodyweight={onLogBodyweight}
+          />
+        </section>
+      )}
+
+      {/* Rep-Max Table (1RM–12RM) */}
+      {isLoadTracked && exercise.repMaxes.some(Boolean) && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-1">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconTrophy className="w-4 h-4" />
+            Rep-Maxima
+          </h2>
+          <div className="grid grid-cols-3 gap-2">
+            {exercise.repMaxes.map((rm, idx) => (
+              <div
+                key={idx}
+                className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]"
+              >
+                <div className="text-xs text-[var(--text-dim)] mb-1">{idx + 1}RM</div>
+                {rm ? (
+                  <>
+                    <div className="flex items-baseline gap-1">
+                      <span className="font-display text-xl font-bold text-[var(--accent)]">{displayWeight(rm.weight)}</span>
+                      <span className="text-xs text-[var(--text-muted)]">{weightUnit}</span>
+                    </div>
+                    <div className="text-[10px] text-[var(--text-dim)] truncate">
+                      {rm.actualReps !== rm.reps && `× ${rm.actualReps} · `}
+                      {rm.date && format(new Date(rm.date), 'dd.MM.yy', { locale: de })}
+                    </div>
+                  </>
+                ) : (
+                  <span className="font-display text-xl font-bold text-[var(--text-dim)]">—</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Timeline / History */}
+      <section className="px-4 pb-6 stagger-fade-in stagger-delay-2">
+        <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+          <IconHistory className="w-4 h-4" />
+          Verlauf ({exercise.prs.length})
+        </h2>
+
+        {exercise.prs.length === 0 ? (
+          <div className="text-center py-12 text-[var(--text-muted)]">
+            <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-[var(--surface-1)] flex items-center justify-center">
+              <IconHistory className="w-6 h-6" />
+            </div>
+            <p className="mb-4">Noch keine PRs</p>
+            <Button
+              onClick={() => onAddPR()}
+              variant="outline"
+              className="press-feedback"
+            >
+              Ersten PR eintragen
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {exercise.prs.map((pr, idx) => (
+              <div
+                key={pr.record_id}
+                className="p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] hover:border-[var(--accent)]/30 transition-all"
+                style={{
+                  animation: 'fade-in-stagger 0.4s ease-out forwards',
+                  animationDelay: `${idx * 60}ms`,
+                  opacity: 0,
+                }}
+              >
+                <div className="flex items-start justify-between mb-2">
+                  {usesWeight(tracking) ? (
+                    <div className="flex items-baseline gap-2">
+                      <span className="font-display text-3xl font-bold text-[var(--accent)]">
+                        {displayWeight(pr.fields.weight_kg)}
+                      </span>
+                      <span className="text-sm text-[var(--text-muted)]">{weightUnit}</span>
+                    </div>
+                  ) : (
+                    <span className="font-display text-2xl font-bold text-[var(--accent)]">
+                      {formatEntryPerformance(pr, tracking, weightUnit)}
+                    </span>
+                  )}
+                  <div className="flex items-center gap-2">
+                    {pendingEntryIds.has(pr.record_id) && (
+                      <span title="Wird übertragen, sobald du wieder online bist" className="flex items-center gap-1 text-xs text-[var(--text-dim)]">
+                        <IconClock className="w-3.5 h-3.5" />
+                        Ausstehend
+                      </span>
+                    )}
+                    {pr.fields.date && (
+                      <div className="text-xs text-[var(--text-dim)] text-right">
+                        {format(new Date(pr.fields.date), 'dd. MMM yyyy', { locale: de })}
+                      </div>
+                    )}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onShare(pr, exercise.fields.name || '');
+                      }}
+                      className="w-7 h-7 flex items-center justify-center rounded-lg hover:bg-[var(--surface-2)] transition-colors"
+                    >
+                      <IconShare className="w-4 h-4 text-[var(--text-dim)]" />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5 text-sm text-[var(--text-muted)]">
+                  {getEntrySets(pr).map((set) => (
+                    <span
+                      key={set.index}
+                      className={`px-2 py-0.5 rounded-full border text-xs ${
+                        set.type === 'warmup'
+                          ? 'border-[var(--border-dim)] text-[var(--text-dim)]'
+                          : 'border-[var(--border)]'
+                      }`}
+                    >
+                      {setTypeMeta(set.type).short && (
+                        <span className="font-bold mr-1">{setTypeMeta(set.type).short}</span>
+                      )}
+                      {tracking === 'gewicht' ? `${displayWeight(set.weight_kg)}×${set.reps}` : formatSetPerformance(set, tracking, weightUnit)}
+                      {isValidRPE(set.rpe) && <span className="ml-1 text-[var(--text-dim)]">{formatEffort(set.rpe, effortScale)}</span>}
+                    </span>
+                  ))}
+                </div>
+                {pr.fields.note && (
+                  <div className="mt-3 pt-3 border-t border-[var(--border-dim)] text-sm text-[var(--text-muted)]">
+                    {pr.fields.note}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { IconAlertCircle } from '@tabler/icons-react';
+
+/** Message under a form field the server refused; renders nothing without one */
+export function FieldError({ message }: { message?: string | null }) {
+  if (!message) return null;
+  return (
+    <p className="flex items-center gap-1 text-sm text-destructive" role="alert">
+      <IconAlertCircle className="h-3.5 w-3.5 shrink-0" />
+      {message}
+    </p>
+  );
+}
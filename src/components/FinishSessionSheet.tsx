@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import type { WorkoutSession } from '@/types/local';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { defaultSessionName, formatSessionDuration, sessionDurationMinutes } from '@/lib/sessions';
+
+export interface FinishSessionForm {
+  name: string;
+  notes: string;
+}
+
+interface FinishSessionSheetProps {
+  open: boolean;
+  onClose: () => void;
+  session: WorkoutSession | null;
+  onFinish: (form: FinishSessionForm) => void;
+}
+
+interface FinishSessionContentProps {
+  session: WorkoutSession;
+  onClose: () => void;
+  onFinish: (form: FinishSessionForm) => void;
+}
+
+/** Names and closes the running workout session */
+export function FinishSessionSheet({ open, onClose, session, onFinish }: FinishSessionSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={(next) => !next && onClose()}>
+      <SheetContent
+        side="bottom"
+        className="rounded-t-[var(--radius-sheet)] bg-[var(--surface-3)] border-t border-[var(--border)] p-0"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        {session && <FinishSessionContent session={session} onClose={onClose} onFinish={onFinish} />}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// Mounted on every opening, so the form starts from the session each time
+function FinishSessionContent({ session, onClose, onFinish }: FinishSessionContentProps) {
+  const [form, setForm] = useState<FinishSessionForm>({
+    name: session.fields.name || defaultSessionName(),
+    notes: session.fields.notes || '',
+  });
+
+  return (
+    <div className="flex flex-col">
+      <SheetHeader className="px-6 pt-6 pb-4 border-b border-[var(--border-dim)]">
+        <SheetTitle className="font-display text-xl font-bold">Training beenden</SheetTitle>
+        <p className="text-sm text-[var(--text-muted)]">
+          {session.fields.entry_ids?.length ?? 0} Übungen · {formatSessionDuration(sessionDurationMinutes(session))}
+        </p>
+      </SheetHeader>
+      <div className="px-6 py-4 space-y-4">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-[var(--text-muted)]">Name</Label>
+          <Input
+            value={form.name}
+            onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+            className="h-11 bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)]"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-[var(--text-muted)]">Notizen (optional)</Label>
+          <Textarea
+            placeholder="z.B. Push-Tag, gut geschlafen..."
+            value={form.notes}
+            onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+            className="min-h-[80px] bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)] resize-none"
+          />
+        </div>
+      </div>
+      <div className="px-6 pb-6 pt-4 border-t border-[var(--border-dim)] space-y-3">
+        <Button
+          onClick={() => onFinish(form)}
+          className="w-full h-12 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white font-medium rounded-[var(--radius-button)] press-feedback glow-accent"
+        >
+          Training beenden
+        </Button>
+        <Button
+          onClick={onClose}
+          variant="ghost"
+          className="w-full h-12 text-[var(--text-muted)] hover:bg-[var(--surface-2)] rounded-[var(--radius-button)] press-feedback"
+        >
+          Weiter trainieren
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { IconPencil, IconTrash, IconTrophy } from '@tabler/icons-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { Goal } from '@/types/local';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { formatGoalValue, goalMetricLabel, projectGoal, type GoalStatus } from '@/lib/goals';
+import type { E1RMFormula } from '@/lib/strength';
+
+interface GoalProgressCardProps {
+  goal: Goal;
+  /** Shown as the title in lists spanning several exercises */
+  exerciseName?: string;
+  entries: PrEintraege[];
+  formula: E1RMFormula;
+  onEdit?: (goal: Goal) => void;
+  onDelete?: (goal: Goal) => void;
+}
+
+const STATUS_STYLES: Record<GoalStatus, { bar: string; text: string }> = {
+  'achieved': { bar: 'bg-green-400', text: 'text-green-400' },
+  'on-track': { bar: 'bg-[var(--accent)]', text: 'text-[var(--text-muted)]' },
+  'behind': { bar: 'bg-amber-400', text: 'text-amber-400' },
+  'no-trend': { bar: 'bg-[var(--text-dim)]', text: 'text-[var(--text-dim)]' },
+  'overdue': { bar: 'bg-red-400', text: 'text-red-400' },
+};
+
+function describeProjection(status: GoalStatus, projectedDate: Date | null, achievedAt: string | undefined): string {
+  switch (status) {
+    case 'achieved':
+      return achievedAt ? `Erreicht am ${format(parseISO(achievedAt), 'dd.MM.yy', { locale: de })}` : 'Erreicht';
+    case 'overdue':
+      return 'Frist abgelaufen';
+    case 'no-trend':
+      return 'Noch kein Aufwärtstrend für eine Prognose';
+    default:
+      return `Prognose: ${format(projectedDate!, 'dd. MMM yyyy', { locale: de })}${status === 'behind' ? ' — nach der Frist' : ''}`;
+  }
+}
+
+/** Progress towards a goal with the regression-based achievement forecast */
+export function GoalProgressCard({ goal, exerciseName, entries, formula, onEdit, onDelete }: GoalProgressCardProps) {
+  const [unit] = useWeightUnit();
+  const { metric, target_value: target = 0, deadline, achieved_at } = goal.fields;
+  const projection = projectGoal(goal, entries, formula);
+  const style = STATUS_STYLES[projection.status];
+  const daysLeft = deadline ? differenceInCalendarDays(parseISO(deadline), new Date()) : null;
+
+  return (
+    <div className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="font-medium text-sm truncate flex items-center gap-1.5">
+            {projection.status === 'achieved' && <IconTrophy className="w-4 h-4 text-green-400 shrink-0" />}
+            {exerciseName ? `${exerciseName} · ` : ''}{goalMetricLabel(metric)} {formatGoalValue(target, metric, unit)}
+          </h3>
+          {deadline && (
+            <p className="text-xs text-[var(--text-dim)]">
+              bis {format(parseISO(deadline), 'dd.MM.yy', { locale: de })}
+              {projection.status !== 'achieved' && daysLeft != null && daysLeft >= 0 && ` · noch ${daysLeft} Tage`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center shrink-0">
+          {onEdit && (
+            <button
+              type="button"
+              onClick={() => onEdit(goal)}
+              className="w-7 h-7 flex items-center justify-center rounded-lg hover:bg-[var(--surface-2)] transition-colors"
+              title="Bearbeiten"
+            >
+              <IconPencil className="w-4 h-4 text-[var(--text-dim)]" />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={() => onDelete(goal)}
+              className="w-7 h-7 flex items-center justify-center rounded-lg hover:bg-[var(--surface-2)] transition-colors"
+              title="Löschen"
+            >
+              <IconTrash className="w-4 h-4 text-[var(--text-dim)]" />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="h-2 rounded-full bg-[var(--surface-2)] overflow-hidden">
+        <div className={`h-full rounded-full transition-all ${style.bar}`} style={{ width: `${projection.progress * 100}%` }} />
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="font-medium">
+          {formatGoalValue(projection.current, metric, unit)}
+          <span className="text-[var(--text-dim)]"> · {Math.round(projection.progress * 100)} %</span>
+        </span>
+        <span className={style.text}>{describeProjection(projection.status, projection.projectedDate, achieved_at)}</span>
+      </div>
+    </div>
+  );
+}
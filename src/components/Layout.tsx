@@ -8,6 +8,7 @@ import ActionsBar from '@/components/ActionsBar';
 import { useActions } from '@/context/ActionsContext';
 import { Button } from '@/components/ui/button';
 import { VersionCheck } from '@/components/VersionCheck';
+import { OutboxStatus } from '@/components/OutboxStatus';
 
 const APP_TITLE = 'Fitness PR Tracker';
 
@@ -108,6 +109,7 @@ export function Layout() {
       </div>
 
       {!IS_EMBED && <ChatWidget />}
+      <OutboxStatus />
 
       {inputFormAction && inputFormAction.metadata?.input_schema && (
         <ActionInputDialog
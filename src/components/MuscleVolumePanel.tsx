@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { IconAdjustments, IconChevronLeft, IconChevronRight } from '@tabler/icons-react';
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { format, getISOWeek } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import { Input } from '@/components/ui/input';
+import { BudgetTracker } from '@/components/BudgetTracker';
+import { useVolumeTargets } from '@/hooks/useVolumeTargets';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { toDisplayWeight } from '@/lib/units';
+import { MUSCLE_GROUPS } from '@/lib/exercise-meta';
+import {
+  DEFAULT_VOLUME_TARGETS,
+  volumeStatus,
+  weekInterval,
+  weeklyMuscleVolume,
+  type VolumeStatus,
+  type VolumeTargets,
+} from '@/lib/muscle-volume';
+
+const STATUS_COLORS: Record<VolumeStatus, string> = {
+  below: '#fbbf24',
+  within: '#ff8fa8',
+  above: '#f87171',
+};
+
+function formatSets(value: number): string {
+  return `${value.toLocaleString('de-DE', { maximumFractionDigits: 1 })} Sätze`;
+}
+
+function TargetEditor({ targets, onChange }: { targets: VolumeTargets; onChange: (targets: VolumeTargets) => void }) {
+  function setBound(muscle: string, bound: 'min' | 'max', value: number) {
+    const current = targets[muscle] ?? DEFAULT_VOLUME_TARGETS[muscle] ?? { min: 0, max: 0 };
+    onChange({ ...targets, [muscle]: { ...current, [bound]: Math.max(0, value) } });
+  }
+
+  return (
+    <div className="space-y-1.5 pt-3 border-t border-[var(--border-dim)]">
+      {MUSCLE_GROUPS.map(({ key, label }) => {
+        const target = targets[key] ?? DEFAULT_VOLUME_TARGETS[key] ?? { min: 0, max: 0 };
+        return (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <span className="text-xs">{label}</span>
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                value={target.min}
+                onChange={(e) => setBound(key, 'min', Number(e.target.value) || 0)}
+                className="w-16 h-8 text-right bg-[var(--surface-1)] border-[var(--border)]"
+              />
+              <span className="text-xs text-[var(--text-dim)]">–</span>
+              <Input
+                type="number"
+                min={0}
+                value={target.max}
+                onChange={(e) => setBound(key, 'max', Number(e.target.value) || 0)}
+                className="w-16 h-8 text-right bg-[var(--surface-1)] border-[var(--border)]"
+              />
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex items-center justify-between pt-1">
+        <p className="text-[10px] text-[var(--text-dim)]">Harte Sätze pro Woche (Minimum – Maximum)</p>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_VOLUME_TARGETS)}
+          className="text-xs text-[var(--accent)] hover:underline"
+        >
+          Zurücksetzen
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Weekly hard sets and tonnage per muscle group against the configured target ranges */
+export function MuscleVolumePanel({ entries, exercises }: { entries: PrEintraege[]; exercises: Uebungen[] }) {
+  const [targets, setTargets] = useVolumeTargets();
+  const [unit] = useWeightUnit();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [editing, setEditing] = useState(false);
+
+  const interval = weekInterval(weekOffset);
+  const volumes = weeklyMuscleVolume(entries, exercises, interval, targets);
+  const chartData = volumes.map((v) => ({
+    label: v.label,
+    tonnage: Math.round(toDisplayWeight(v.tonnage, unit)),
+    status: volumeStatus(v),
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setWeekOffset(weekOffset - 1)}
+          className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-[var(--surface-2)] transition-colors"
+        >
+          <IconChevronLeft className="w-4 h-4" />
+        </button>
+        <span className="text-sm font-medium">
+          KW {getISOWeek(interval.start)} · {format(interval.start, 'dd.MM.', { locale: de })}–{format(interval.end, 'dd.MM.', { locale: de })}
+        </span>
+        <div className="flex items-center">
+          <button
+            type="button"
+            onClick={() => setWeekOffset(weekOffset + 1)}
+            disabled={weekOffset >= 0}
+            className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-[var(--surface-2)] transition-colors disabled:opacity-30"
+          >
+            <IconChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(!editing)}
+            className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors ${editing ? 'text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text)]'}`}
+            title="Wochenziele"
+          >
+            <IconAdjustments className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {editing && <TargetEditor targets={targets} onChange={setTargets} />}
+
+      <div className="h-[260px] w-full bg-[var(--surface-1)] rounded-[var(--radius)] p-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" margin={{ left: 8 }}>
+            <XAxis type="number" stroke="#727280" fontSize={10} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="label" stroke="#727280" fontSize={10} tickLine={false} axisLine={false} width={90} />
+            <Tooltip
+              cursor={{ fill: 'rgba(255,255,255,0.04)' }}
+              contentStyle={{ backgroundColor: '#1c1c24', border: '1px solid #2a2a35', borderRadius: '8px' }}
+              labelStyle={{ color: '#e8e8f0' }}
+              itemStyle={{ color: '#ff8fa8' }}
+              formatter={(value: number) => [`${value.toLocaleString('de-DE')} ${unit}`, 'Tonnage']}
+            />
+            <Bar dataKey="tonnage" radius={[0, 4, 4, 0]}>
+              {chartData.map((d) => (
+                <Cell key={d.label} fill={STATUS_COLORS[d.status]} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {volumes.map((v) => (
+          <BudgetTracker
+            key={v.muscle}
+            label={v.label}
+            budget={v.target.max}
+            booked={v.sets}
+            minimum={v.target.min}
+            formatValue={formatSets}
+            bookedLabel="Erledigt"
+            emptyText="Kein Wochenziel"
+            overText="Mehr als das Wochenziel"
+            showRemaining={false}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
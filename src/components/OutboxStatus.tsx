@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { IconAlertTriangle, IconCloudOff, IconLoader, IconRefresh } from '@tabler/icons-react';
+import { APP_IDS } from '@/types/app';
+import {
+  Dialog, DialogContent, DialogHeader,
+  DialogTitle, DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useOutbox } from '@/hooks/useOutbox';
+import { flushOutbox, resolveOutboxConflict } from '@/services/livingAppsService';
+import type { OutboxOperation } from '@/services/outbox';
+
+const RECORD_LABELS: Record<string, string> = {
+  [APP_IDS.UEBUNGEN]: 'Übung',
+  [APP_IDS.PR_EINTRAEGE]: 'PR-Eintrag',
+};
+
+const METHOD_LABELS: Record<OutboxOperation['method'], string> = {
+  POST: 'anlegen',
+  PATCH: 'ändern',
+  DELETE: 'löschen',
+};
+
+const CONFLICT_LABELS: Record<NonNullable<OutboxOperation['conflict']>, string> = {
+  deleted: 'Wurde inzwischen auf dem Server gelöscht.',
+  changed: 'Wurde inzwischen auf einem anderen Gerät geändert.',
+  rejected: 'Wurde vom Server abgelehnt.',
+};
+
+function describeOperation(op: OutboxOperation): string {
+  const fields = op.fields ?? {};
+  const subject = (fields.name ?? fields.date ?? '') as string;
+  const label = `${RECORD_LABELS[op.appId] ?? 'Eintrag'} ${METHOD_LABELS[op.method]}`;
+  return subject ? `${label}: ${subject.slice(0, 40)}` : label;
+}
+
+/** Floating sync indicator; replays the outbox whenever the connection comes back */
+export function OutboxStatus() {
+  const { operations, online } = useOutbox();
+  const [syncing, setSyncing] = useState(false);
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+  const pending = operations.filter(op => !op.conflict);
+  const conflicts = operations.filter(op => op.conflict);
+  const knownConflicts = useRef(new Set(conflicts.map(op => op.id)));
+
+  async function sync() {
+    if (!navigator.onLine) return;
+    setSyncing(true);
+    try {
+      const result = await flushOutbox();
+      if (result.synced > 0) toast.success(`${result.synced} Änderung${result.synced === 1 ? '' : 'en'} synchronisiert`);
+    } catch (error) {
+      console.error('Error syncing outbox:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  useEffect(() => {
+    void sync();
+    const handleOnline = () => void sync();
+    const handleOffline = () => toast('Offline – Änderungen werden gespeichert und später übertragen');
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    const fresh = operations.filter(op => op.conflict && !knownConflicts.current.has(op.id));
+    fresh.forEach(op => knownConflicts.current.add(op.id));
+    if (fresh.length > 0) {
+      toast.error('Änderung konnte nicht übertragen werden', {
+        action: { label: 'Ansehen', onClick: () => setConflictsOpen(true) },
+      });
+    }
+  }, [operations]);
+
+  useEffect(() => {
+    if (conflictsOpen && conflicts.length === 0) setConflictsOpen(false);
+  }, [conflictsOpen, conflicts.length]);
+
+  if (online && pending.length === 0 && conflicts.length === 0) return null;
+
+  return (
+    <>
+      <div className="fixed bottom-4 left-4 lg:left-76 z-40 flex items-center gap-2 rounded-full border bg-card px-3 py-1.5 text-xs shadow-md">
+        {!online ? (
+          <IconCloudOff size={14} className="shrink-0 text-muted-foreground" />
+        ) : syncing ? (
+          <IconLoader size={14} className="shrink-0 animate-spin text-muted-foreground" />
+        ) : (
+          <IconRefresh size={14} className="shrink-0 text-muted-foreground" />
+        )}
+        <span>
+          {!online ? 'Offline' : syncing ? 'Synchronisiere…' : 'Nicht synchronisiert'}
+          {pending.length > 0 && ` · ${pending.length} ausstehend`}
+        </span>
+        {online && !syncing && pending.length > 0 && (
+          <button className="font-medium text-primary hover:underline" onClick={() => void sync()}>
+            Erneut versuchen
+          </button>
+        )}
+        {conflicts.length > 0 && (
+          <button
+            className="flex items-center gap-1 font-medium text-destructive hover:underline"
+            onClick={() => setConflictsOpen(true)}
+          >
+            <IconAlertTriangle size={13} />
+            {conflicts.length} Konflikt{conflicts.length === 1 ? '' : 'e'}
+          </button>
+        )}
+      </div>
+
+      <Dialog open={conflictsOpen} onOpenChange={setConflictsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Konflikte</DialogTitle>
+            <DialogDescription>
+              Diese Offline-Änderungen passen nicht mehr zum Stand auf dem Server.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-3">
+            {conflicts.map(op => (
+              <li key={op.id} className="rounded-lg border p-3 space-y-2">
+                <div>
+                  <p className="text-sm font-medium">{describeOperation(op)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {CONFLICT_LABELS[op.conflict!]}
+                    {op.message && ` ${op.message.slice(0, 120)}`}
+                  </p>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => resolveOutboxConflict(op.id, 'discard')}>
+                    Verwerfen
+                  </Button>
+                  {op.conflict !== 'deleted' && (
+                    <Button size="sm" disabled={!online} onClick={() => resolveOutboxConflict(op.id, 'overwrite')}>
+                      {op.conflict === 'changed' ? 'Trotzdem speichern' : 'Erneut senden'}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,12 @@
+import { IconClock } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+
+/** Marks a record whose latest change is still waiting in the offline outbox */
+export function PendingBadge({ className }: { className?: string }) {
+  return (
+    <Badge variant="outline" className={`text-muted-foreground ${className ?? ''}`} title="Wird übertragen, sobald du wieder online bist">
+      <IconClock />
+      Ausstehend
+    </Badge>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { IconAdjustments, IconMinus, IconPlus } from '@tabler/icons-react';
+import { Input } from '@/components/ui/input';
+import { usePlateInventory } from '@/hooks/usePlateInventory';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { formatWeight } from '@/lib/units';
+import {
+  calculatePlates,
+  generateWarmup,
+  groupPlates,
+  plateLabel,
+  type PlateInventory,
+  type PlateLoad,
+} from '@/lib/plates';
+
+function PlateChips({ load }: { load: PlateLoad }) {
+  if (load.perSide.length === 0) {
+    return <span className="text-xs text-[var(--text-dim)]">Leere Stange</span>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {groupPlates(load.perSide).map(({ plate, count }, i) => (
+        <span
+          key={i}
+          className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+            plate.unit === 'lb'
+              ? 'bg-sky-500/10 text-sky-300 border-sky-500/30'
+              : 'bg-[var(--surface-1)] text-[var(--text)] border-[var(--border)]'
+          }`}
+        >
+          {count > 1 && `${count}× `}{plateLabel(plate)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function InventoryEditor({ inventory, onChange }: { inventory: PlateInventory; onChange: (inv: PlateInventory) => void }) {
+  function setPairs(index: number, pairs: number) {
+    onChange({
+      ...inventory,
+      plates: inventory.plates.map((p, i) => (i === index ? { ...p, pairs: Math.max(0, pairs) } : p)),
+    });
+  }
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-[var(--border-dim)]">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-[var(--text-muted)]">Stange (kg)</span>
+        <Input
+          type="number"
+          step="0.5"
+          value={inventory.barWeight}
+          onChange={(e) => onChange({ ...inventory, barWeight: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-20 h-8 text-right bg-[var(--surface-1)] border-[var(--border)]"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+        {inventory.plates.map((plate, i) => (
+          <div key={`${plate.unit}-${plate.weight}`} className="flex items-center justify-between gap-2">
+            <span className={`text-xs ${plate.unit === 'lb' ? 'text-sky-300' : ''}`}>
+              {plateLabel(plate)}{plate.unit === 'kg' && ' kg'}
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => setPairs(i, plate.pairs - 1)}
+                className="w-6 h-6 flex items-center justify-center rounded bg-[var(--surface-1)] border border-[var(--border)] press-feedback"
+              >
+                <IconMinus className="w-3 h-3" />
+              </button>
+              <span className="w-5 text-center text-xs font-medium">{plate.pairs}</span>
+              <button
+                type="button"
+                onClick={() => setPairs(i, plate.pairs + 1)}
+                className="w-6 h-6 flex items-center justify-center rounded bg-[var(--surface-1)] border border-[var(--border)] press-feedback"
+              >
+                <IconPlus className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-[var(--text-dim)]">Anzahl = Paare (eine Scheibe pro Seite)</p>
+    </div>
+  );
+}
+
+/** Plates per side for `weight`, with an editable inventory */
+export function PlateCalculator({ weight }: { weight: number }) {
+  const [inventory, setInventory] = usePlateInventory();
+  const [unit] = useWeightUnit();
+  const [editing, setEditing] = useState(false);
+  const load = calculatePlates(weight, inventory);
+
+  return (
+    <div className="p-3 rounded-[var(--radius)] bg-[var(--surface-2)] border border-[var(--border)] space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-[var(--text-muted)]">Pro Seite ({formatWeight(inventory.barWeight, unit)} Stange)</span>
+        <button
+          type="button"
+          onClick={() => setEditing(!editing)}
+          className={`w-7 h-7 flex items-center justify-center rounded-lg transition-colors ${editing ? 'text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text)]'}`}
+          title="Scheiben-Inventar"
+        >
+          <IconAdjustments className="w-4 h-4" />
+        </button>
+      </div>
+      <PlateChips load={load} />
+      {Math.abs(load.remainder) >= 0.01 && weight > 0 && (
+        <p className="text-xs text-amber-400">
+          Geladen: {formatWeight(load.total, unit)} ({load.remainder > 0 ? '−' : '+'}{formatWeight(Math.abs(load.remainder), unit)} zum Ziel)
+        </p>
+      )}
+      {editing && <InventoryEditor inventory={inventory} onChange={setInventory} />}
+    </div>
+  );
+}
+
+/** Warm-up ramp towards `target` with the plates for each step */
+export function WarmupRamp({ target }: { target: number }) {
+  const [inventory] = usePlateInventory();
+  const [unit] = useWeightUnit();
+  const warmup = generateWarmup(target, inventory);
+  if (warmup.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      {warmup.map((set) => (
+        <div key={set.percent} className="flex items-center gap-3 p-2.5 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+          <span className="shrink-0 w-10 text-xs text-[var(--text-dim)]">{set.percent}%</span>
+          <span className="shrink-0 w-20 font-display font-bold text-sm">
+            {formatWeight(set.weight_kg, unit)} × {set.reps}
+          </span>
+          <div className="flex-1 min-w-0"><PlateChips load={set.load} /></div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,846 @@
+import { useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { de } from 'date-fns/locale';
+import {
+  IconPlus,
+  IconSearch,
+  IconCalendar,
+  IconChevronRight,
+  IconMinus,
+  IconHistory,
+  IconFlame,
+  IconBolt,
+  IconX,
+  IconCircleCheck,
+  IconTarget,
+} from '@tabler/icons-react';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { WorkoutSession } from '@/types/local';
+import { currentUserId } from '@/services/currentUser';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { toast } from 'sonner';
+import { PlateCalculator } from '@/components/PlateCalculator';
+import { useE1RMFormula } from '@/hooks/useE1RMFormula';
+import { useEffortScale } from '@/hooks/useEffortScale';
+import { useProgressionRules } from '@/hooks/useProgressionRules';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { readPreference } from '@/lib/preferences';
+import { toDisplayWeight, fromDisplayWeight, formatWeight, PLATE_INCREMENT } from '@/lib/units';
+import { generateWarmup, DEFAULT_PLATE_INVENTORY, plateInventoryPreference } from '@/lib/plates';
+import { EFFORT_SCALES, RPE_VALUES, formatEffort, isValidRPE } from '@/lib/rpe';
+import { SET_TYPES, setTypeMeta, topSet, entryTopSet, type SetType } from '@/lib/sets';
+import {
+  PROGRESSION_RULES,
+  DEFAULT_PROGRESSION_RULE,
+  suggestNextTarget,
+  type ProgressionRule,
+} from '@/lib/progression';
+import {
+  DEFAULT_TRACKING_TYPE,
+  exerciseTrackingType,
+  formatDistance,
+  formatDuration,
+  formatEntryPerformance,
+  formatSetPerformance,
+  parseDuration,
+  trackingInputs,
+  usesWeight,
+  type TrackingType,
+} from '@/lib/tracking';
+import { loggedExerciseIds, nextPlannedExercise } from '@/lib/sessions';
+import { EMPTY_SET_ROW, rowsFromEntry, rowsFromPlan, rowsToSets, type PRFormData, type SetFormRow } from '@/lib/set-rows';
+import { getExerciseAvatar, type ExerciseWithPRs } from '@/lib/exercise-history';
+
+interface PrEntrySheetProps {
+  open: boolean;
+  onClose: () => void;
+  /** Preselected exercise; without one the next planned exercise of the session, if any */
+  exerciseId?: string;
+  exercises: ExerciseWithPRs[];
+  entries: PrEintraege[];
+  activeSession: WorkoutSession | null;
+  saving: boolean;
+  /** Resolves to true once the entry is saved; on false the form keeps its input */
+  onSubmit: (form: PRFormData, tracking: TrackingType) => Promise<boolean>;
+  onCreateExercise: (name: string) => void;
+}
+
+/**
+ * Sheet for logging one exercise with its sets, "Heute vs. Letztes Mal".
+ * The form starts from the props on mount; give it a new `key` to start over.
+ */
+export function PrEntrySheet({
+  open,
+  onClose,
+  exerciseId,
+  exercises,
+  entries,
+  activeSession,
+  saving,
+  onSubmit,
+  onCreateExercise,
+}: PrEntrySheetProps) {
+  const [weightUnit] = useWeightUnit();
+  const [e1rmFormula] = useE1RMFormula();
+  const [effortScale, setEffortScale] = useEffortScale();
+  const [progressionRules, setProgressionRules] = useProgressionRules();
+
+  /** Prefill rows from the session plan if the exercise is planned, else from the last entry */
+  function rowsForExercise(id: string): SetFormRow[] {
+    const planned = activeSession?.fields.plan?.find((p) => p.exercise_id === id);
+    if (planned) return rowsFromPlan(planned, weightUnit);
+    return rowsFromEntry(exercises.find((ex) => ex.record_id === id)?.lastPR, weightUnit);
+  }
+
+  const [formData, setFormData] = useState<PRFormData>(() => {
+    const targetId = exerciseId
+      || (activeSession && nextPlannedExercise(activeSession, entries)?.exercise_id)
+      || '';
+    return {
+      exercise_id: targetId,
+      date: format(new Date(), 'yyyy-MM-dd'),
+      sets: targetId ? rowsForExercise(targetId) : [{ ...EMPTY_SET_ROW }],
+      note: '',
+    };
+  });
+  const [activeSetIndex, setActiveSetIndex] = useState(0);
+  const [exerciseSearch, setExerciseSearch] = useState('');
+  const [showNewExerciseForm, setShowNewExerciseForm] = useState(false);
+  const [newExerciseName, setNewExerciseName] = useState('');
+  const activeSet = formData.sets[activeSetIndex] ?? formData.sets[0];
+
+  const selectedExercise = exercises.find((ex) => ex.record_id === formData.exercise_id);
+  const formTracking = selectedExercise ? exerciseTrackingType(selectedExercise) : DEFAULT_TRACKING_TYPE;
+  const formInputs = trackingInputs(formTracking);
+  const sessionPlan = activeSession?.fields.plan ?? [];
+  const sessionLogged = activeSession ? loggedExerciseIds(activeSession, entries) : new Set<string>();
+
+  // "Heute vs. Letztes Mal" - Last PR for selected exercise
+  const lastPRForExercise = selectedExercise?.lastPR || null;
+
+  // Live comparison while typing — top set vs. last top set
+  const liveComparison = useMemo(() => {
+    if (!lastPRForExercise || !usesWeight(formTracking)) return null;
+    const newTop = topSet(rowsToSets(formData.sets, weightUnit, formTracking));
+    const lastTop = entryTopSet(lastPRForExercise);
+    if (!newTop || !lastTop) return null;
+
+    return {
+      weightDiff: toDisplayWeight(newTop.weight_kg - lastTop.weight_kg, weightUnit),
+      repsDiff: newTop.reps - lastTop.reps,
+    };
+  }, [lastPRForExercise, formData.sets, weightUnit, formTracking]);
+
+  // Progressive overload suggestion for the selected exercise
+  const progressionRule = progressionRules[formData.exercise_id] ?? DEFAULT_PROGRESSION_RULE;
+  const suggestion = useMemo(() => {
+    // Load progression only applies to externally loaded exercises
+    if (!selectedExercise || exerciseTrackingType(selectedExercise) !== 'gewicht') return null;
+    return suggestNextTarget(selectedExercise.prs, progressionRule, e1rmFormula, weightUnit);
+  }, [selectedExercise, progressionRule, e1rmFormula, weightUnit]);
+
+  /** Stored kilograms in the selected display unit */
+  function displayWeight(kg: number | undefined): number {
+    return toDisplayWeight(kg || 0, weightUnit);
+  }
+
+  async function handleSubmit() {
+    if (!(await onSubmit(formData, formTracking))) return;
+
+    if (activeSession) {
+      // Stay in the sheet so the next exercise of the session can be logged right away
+      const next = nextPlannedExercise(activeSession, entries, formData.exercise_id);
+      setFormData((prev) => ({
+        ...prev,
+        exercise_id: next?.exercise_id ?? '',
+        sets: next ? rowsFromPlan(next, weightUnit) : [{ ...EMPTY_SET_ROW }],
+        note: '',
+      }));
+      setActiveSetIndex(0);
+    } else {
+      onClose();
+    }
+  }
+
+  function handleCreateExercise() {
+    const name = newExerciseName.trim();
+    if (!name) return;
+    setShowNewExerciseForm(false);
+    setNewExerciseName('');
+    setExerciseSearch(name); // zeigt neue Übung gefiltert an
+    onCreateExercise(name);
+  }
+
+  function setProgressionRule(rule: ProgressionRule) {
+    setProgressionRules({ ...progressionRules, [formData.exercise_id]: rule });
+  }
+
+  /** Replaces the working sets with the suggested target; warm-ups stay */
+  function applySuggestion() {
+    if (!suggestion) return;
+    setFormData((prev) => {
+      const warmups = prev.sets.filter((row) => row.type === 'warmup');
+      const working = Array.from({ length: suggestion.sets }, () => ({
+        weight: String(displayWeight(suggestion.weight_kg)),
+        reps: String(suggestion.reps),
+        type: 'working' as SetType,
+        duration: '',
+        distance: '',
+        rpe: '',
+      }));
+      return { ...prev, sets: [...warmups, ...working] };
+    });
+    setActiveSetIndex(formData.sets.filter((row) => row.type === 'warmup').length);
+  }
+
+  /** Replaces existing warm-up rows with a ramp towards the heaviest working set */
+  function generateWarmupRows() {
+    const target = topSet(rowsToSets(formData.sets, weightUnit))?.weight_kg ?? 0;
+    // Read on demand: subscribing here would remount the inner views on every inventory edit
+    const warmup = generateWarmup(target, readPreference(plateInventoryPreference(currentUserId()), DEFAULT_PLATE_INVENTORY));
+    if (warmup.length === 0) {
+      toast.error('Zielgewicht zu leicht für Aufwärmsätze');
+      return;
+    }
+    const working = formData.sets.filter((row) => row.type !== 'warmup');
+    setFormData((prev) => ({
+      ...prev,
+      sets: [
+        ...warmup.map((w) => ({ ...EMPTY_SET_ROW, weight: String(displayWeight(w.weight_kg)), reps: String(w.reps), type: 'warmup' as SetType })),
+        ...working,
+      ],
+    }));
+    setActiveSetIndex(warmup.length);
+  }
+
+  function describeSetRow(row: SetFormRow): string {
+    const [set] = rowsToSets([row], weightUnit, formTracking);
+    if (!set) return '—';
+    const performance = formatSetPerformance(set, formTracking, weightUnit);
+    return isValidRPE(set.rpe) ? `${performance} ${formatEffort(set.rpe, effortScale)}` : performance;
+  }
+
+  function updateActiveSet(update: (row: SetFormRow) => Partial<SetFormRow>) {
+    setFormData((prev) => ({
+      ...prev,
+      sets: prev.sets.map((row, idx) => (idx === activeSetIndex ? { ...row, ...update(row) } : row)),
+    }));
+  }
+
+  function incrementReps() {
+    updateActiveSet((row) => ({ reps: String(Math.max(1, parseInt(row.reps || '0') + 1)) }));
+  }
+
+  function decrementReps() {
+    updateActiveSet((row) => ({ reps: String(Math.max(1, parseInt(row.reps || '0') - 1)) }));
+  }
+
+  function addSetRow() {
+    setFormData((prev) => {
+      const template = prev.sets[activeSetIndex] ?? prev.sets[prev.sets.length - 1] ?? EMPTY_SET_ROW;
+      return { ...prev, sets: [...prev.sets, { ...template, type: template.type === 'warmup' ? 'working' : template.type }] };
+    });
+    setActiveSetIndex(formData.sets.length);
+  }
+
+  function removeSetRow(index: number) {
+    if (formData.sets.length <= 1) return;
+    setFormData((prev) => ({ ...prev, sets: prev.sets.filter((_, idx) => idx !== index) }));
+    setActiveSetIndex((prev) => (prev >= index ? Math.max(0, prev - 1) : prev));
+  }
+
+  function cycleSetType(index: number) {
+    setFormData((prev) => ({
+      ...prev,
+      sets: prev.sets.map((row, idx) => {
+        if (idx !== index) return row;
+        const pos = SET_TYPES.findIndex((t) => t.key === row.type);
+        return { ...row, type: SET_TYPES[(pos + 1) % SET_TYPES.length].key };
+      }),
+    }));
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={(next) => !next && onClose()}>
+      <SheetContent
+        side="bottom"
+        className="h-[90dvh] rounded-t-[var(--radius-sheet)] bg-[var(--surface-3)] border-t border-[var(--border)] p-0 overflow-x-hidden"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <div className="flex flex-col h-full">
+          <SheetHeader className="px-6 pt-6 pb-4 border-b border-[var(--border-dim)]">
+            <SheetTitle className="font-display text-xl font-bold">
+              {selectedExercise?.fields.name || 'PR eintragen'}
+            </SheetTitle>
+            {activeSession && (
+              <p className="text-sm text-[var(--text-muted)]">
+                {activeSession.fields.name} · Übung {(activeSession.fields.entry_ids?.length ?? 0) + 1}
+              </p>
+            )}
+          </SheetHeader>
+
+          <div className="flex-1 overflow-y-auto overflow-x-hidden px-6 py-6 space-y-5">
+            {/* Exercise Selector — visual list shown when no exercise pre-selected */}
+            {!formData.exercise_id ? (
+              <div className="space-y-3">
+                <Label className="text-sm font-medium text-[var(--text-muted)]">Übung auswählen</Label>
+                {/* Search */}
+                <div className="relative">
+                  <IconSearch className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--text-muted)]" />
+                  <Input
+                    placeholder="Suchen..."
+                    value={exerciseSearch}
+                    onChange={(e) => setExerciseSearch(e.target.value)}
+                    className="pl-9 h-10 bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)]"
+                  />
+                </div>
+                {/* Visual exercise list */}
+                <div className="space-y-1.5 max-h-[45vh] overflow-y-auto pr-0.5">
+                  {exercises
+                    .filter((ex) =>
+                      !exerciseSearch ||
+                      ex.fields.name?.toLowerCase().includes(exerciseSearch.toLowerCase())
+                    )
+                    // Planned exercises of the running session first, in plan order
+                    .sort((a, b) => {
+                      const rank = (id: string) => {
+                        const idx = sessionPlan.findIndex((p) => p.exercise_id === id);
+                        return idx === -1 ? sessionPlan.length : idx;
+                      };
+                      return rank(a.record_id) - rank(b.record_id);
+                    })
+                    .map((ex) => {
+                      const avatar = getExerciseAvatar(ex.fields.name);
+                      const planned = sessionPlan.find((p) => p.exercise_id === ex.record_id);
+                      return (
+                        <button
+                          key={ex.record_id}
+                          type="button"
+                          onClick={() => {
+                            setFormData((prev) => ({
+                              ...prev,
+                              exercise_id: ex.record_id,
+                              sets: rowsForExercise(ex.record_id),
+                            }));
+                            setActiveSetIndex(0);
+                            setExerciseSearch('');
+                          }}
+                          className="w-full flex items-center gap-3 p-3 rounded-[var(--radius)] bg-[var(--surface-2)] hover:bg-[var(--surface-1)] border border-[var(--border)] hover:border-[var(--accent)]/40 transition-all text-left press-feedback"
+                        >
+                          <div
+                            className="shrink-0 w-10 h-10 rounded-xl flex items-center justify-center text-white font-display font-bold text-xs tracking-tight"
+                            style={{ backgroundColor: avatar.color }}
+                          >
+                            {avatar.letter}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium truncate">{ex.fields.name}</div>
+                            {planned ? (
+                              <div className="text-xs text-[var(--accent)] truncate">
+                                Geplant: {planned.sets.length} × {planned.sets[0]?.reps}
+                                {planned.sets[0]?.weight_kg ? ` · ${formatWeight(planned.sets[0].weight_kg, weightUnit)}` : ''}
+                              </div>
+                            ) : ex.lastPR ? (
+                              <div className="text-xs text-[var(--text-dim)] truncate">
+                                {formatEntryPerformance(ex.lastPR, exerciseTrackingType(ex), weightUnit)}
+                              </div>
+                            ) : (
+                              <div className="text-xs text-[var(--text-dim)]">Noch kein PR</div>
+                            )}
+                          </div>
+                          {sessionLogged.has(ex.record_id) ? (
+                            <IconCircleCheck className="shrink-0 w-4 h-4 text-green-400" />
+                          ) : (
+                            <IconChevronRight className="shrink-0 w-4 h-4 text-[var(--text-dim)]" />
+                          )}
+                        </button>
+                      );
+                    })}
+                  {exercises.filter((ex) =>
+                    !exerciseSearch ||
+                    ex.fields.name?.toLowerCase().includes(exerciseSearch.toLowerCase())
+                  ).length === 0 && (
+                    <p className="text-center py-6 text-sm text-[var(--text-dim)]">
+                      Keine Übungen gefunden
+                    </p>
+                  )}
+                </div>
+
+                {/* Neue Übung — subtle inline form */}
+                {!showNewExerciseForm ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowNewExerciseForm(true);
+                      setNewExerciseName(exerciseSearch);
+                    }}
+                    className="w-full flex items-center gap-2 px-3 py-2 rounded-[var(--radius)] text-sm text-[var(--text-dim)] hover:text-[var(--text-muted)] hover:bg-[var(--surface-2)] transition-colors"
+                  >
+                    <IconPlus className="w-3.5 h-3.5 shrink-0" />
+                    <span>Neue Übung anlegen</span>
+                  </button>
+                ) : (
+                  <div className="flex items-center gap-2 pt-1">
+                    <Input
+                      autoFocus
+                      placeholder="Name der Übung"
+                      value={newExerciseName}
+                      onChange={(e) => setNewExerciseName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleCreateExercise();
+                        if (e.key === 'Escape') {
+                          setShowNewExerciseForm(false);
+                          setNewExerciseName('');
+                        }
+                      }}
+                      className="h-9 flex-1 bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)] text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleCreateExercise}
+                      disabled={!newExerciseName.trim()}
+                      className="h-9 px-3 rounded-[var(--radius-button)] bg-[var(--accent)] text-white text-sm font-medium disabled:opacity-40 transition-opacity press-feedback"
+                    >
+                      OK
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { setShowNewExerciseForm(false); setNewExerciseName(''); }}
+                      className="h-9 w-9 flex items-center justify-center rounded-[var(--radius-button)] hover:bg-[var(--surface-2)] transition-colors"
+                    >
+                      <IconX className="w-4 h-4 text-[var(--text-dim)]" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : null}
+
+            {/* Progression suggestion */}
+            {formData.exercise_id && suggestion && (
+              <div className="p-4 rounded-[var(--radius)] bg-[var(--surface-2)] border border-[var(--border)] space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <IconTarget className="shrink-0 w-4 h-4 text-[var(--accent)]" />
+                    <span className="font-display font-bold truncate">
+                      Vorschlag: {displayWeight(suggestion.weight_kg)}{weightUnit} × {suggestion.reps}
+                      {suggestion.sets > 1 && <span className="text-[var(--text-muted)] font-normal"> · {suggestion.sets} Sätze</span>}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={applySuggestion}
+                    className="shrink-0 px-3 py-1.5 rounded-full text-xs font-medium bg-[var(--accent)] text-white hover:bg-[var(--accent-hover)] transition-colors press-feedback"
+                  >
+                    Übernehmen
+                  </button>
+                </div>
+                <div className="flex gap-1.5">
+                  {PROGRESSION_RULES.map((r) => (
+                    <button
+                      key={r.key}
+                      type="button"
+                      title={r.description}
+                      onClick={() => setProgressionRule(r.key)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-all press-feedback ${
+                        progressionRule === r.key
+                          ? 'bg-[var(--accent)]/20 text-[var(--accent)] border border-[var(--accent)]/40'
+                          : 'bg-[var(--surface-1)] text-[var(--text-muted)] border border-[var(--border)]'
+                      }`}
+                    >
+                      {r.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-[var(--text-dim)]">
+                  {PROGRESSION_RULES.find((r) => r.key === progressionRule)?.description}
+                </p>
+              </div>
+            )}
+
+            {/* Weight Input */}
+            {formInputs.weight && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-[var(--text-muted)]">
+                  {formInputs.weightLabel} ({weightUnit}){formData.sets.length > 1 && ` · Satz ${activeSetIndex + 1}`}
+                </Label>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => updateActiveSet((row) => {
+                      const next = parseFloat(row.weight || '0') - PLATE_INCREMENT[weightUnit];
+                      // Assistance is entered as negative load, so only the other types stop at zero
+                      return { weight: String(formTracking === 'unterstuetzt' ? next : Math.max(0, next)) };
+                    })}
+                    className="shrink-0 w-14 h-16 flex flex-col items-center justify-center rounded-[var(--radius-button)] bg-[var(--surface-2)] border border-[var(--border)] hover:border-[var(--accent)] transition-colors press-feedback"
+                  >
+                    <IconMinus className="w-4 h-4" />
+                    <span className="text-[10px] text-[var(--text-dim)] mt-0.5">{PLATE_INCREMENT[weightUnit]}</span>
+                  </button>
+                  <Input
+                    type="number"
+                    step="0.5"
+                    placeholder="0"
+                    value={activeSet.weight}
+                    onChange={(e) => updateActiveSet(() => ({ weight: e.target.value }))}
+                    className="h-16 text-3xl font-display font-bold text-center bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)] focus:border-[var(--accent)] min-w-0"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateActiveSet((row) => ({ weight: String(parseFloat(row.weight || '0') + PLATE_INCREMENT[weightUnit]) }))}
+                    className="shrink-0 w-14 h-16 flex flex-col items-center justify-center rounded-[var(--radius-button)] bg-[var(--surface-2)] border border-[var(--accent)] hover:bg-[var(--accent)] hover:text-white transition-colors press-feedback"
+                  >
+                    <IconPlus className="w-4 h-4" />
+                    <span className="text-[10px] mt-0.5">{PLATE_INCREMENT[weightUnit]}</span>
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Duration Input */}
+            {formInputs.duration && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-[var(--text-muted)]">
+                  Zeit (m:ss){formData.sets.length > 1 && ` · Satz ${activeSetIndex + 1}`}
+                </Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {[30, 45, 60, 90, 120, 300].map((sec) => (
+                    <button
+                      key={sec}
+                      type="button"
+                      onClick={() => updateActiveSet(() => ({ duration: formatDuration(sec) }))}
+                      className={`h-9 px-3 rounded-full text-sm font-medium border transition-colors press-feedback ${
+                        parseDuration(activeSet.duration) === sec
+                          ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                          : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+                      }`}
+                    >
+                      {formatDuration(sec)}
+                    </button>
+                  ))}
+                </div>
+                <Input
+                  inputMode="numeric"
+                  placeholder="0:00"
+                  value={activeSet.duration}
+                  onChange={(e) => updateActiveSet(() => ({ duration: e.target.value }))}
+                  className="h-16 text-3xl font-display font-bold text-center bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)] focus:border-[var(--accent)]"
+                />
+              </div>
+            )}
+
+            {/* Distance Input */}
+            {formInputs.distance && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-[var(--text-muted)]">
+                  Distanz (m){formData.sets.length > 1 && ` · Satz ${activeSetIndex + 1}`}
+                </Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {[20, 50, 100, 400, 1000, 5000].map((m) => (
+                    <button
+                      key={m}
+                      type="button"
+                      onClick={() => updateActiveSet(() => ({ distance: String(m) }))}
+                      className={`h-9 px-3 rounded-full text-sm font-medium border transition-colors press-feedback ${
+                        activeSet.distance === String(m)
+                          ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                          : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+                      }`}
+                    >
+                      {formatDistance(m)}
+                    </button>
+                  ))}
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="0"
+                  value={activeSet.distance}
+                  onChange={(e) => updateActiveSet(() => ({ distance: e.target.value }))}
+                  className="h-16 text-3xl font-display font-bold text-center bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)] focus:border-[var(--accent)]"
+                />
+              </div>
+            )}
+
+            {formTracking === 'gewicht' && parseFloat(activeSet.weight) > 0 && (
+              <PlateCalculator weight={fromDisplayWeight(parseFloat(activeSet.weight), weightUnit)} />
+            )}
+
+            {/* Comparison: Shows last PR or live diff */}
+            {lastPRForExercise && (
+              <div className={`p-4 rounded-[var(--radius)] border ${liveComparison ? 'bg-gradient-to-r from-[var(--accent)]/10 to-transparent border-[var(--accent)]/30' : 'bg-[var(--surface-2)] border-[var(--border)]'}`}>
+                {liveComparison ? (
+                  <>
+                    <div className="flex items-center gap-2 mb-2">
+                      <IconBolt className="w-4 h-4 text-[var(--accent)]" />
+                      <span className="text-sm font-medium text-[var(--accent)]">vs. Letztes Mal</span>
+                    </div>
+                    <div className="flex flex-wrap gap-3 text-sm">
+                      <span className={liveComparison.weightDiff >= 0 ? 'text-green-400' : 'text-red-400'}>
+                        {liveComparison.weightDiff >= 0 ? '+' : ''}{liveComparison.weightDiff}{weightUnit}
+                      </span>
+                      <span className={liveComparison.repsDiff >= 0 ? 'text-green-400' : 'text-red-400'}>
+                        {liveComparison.repsDiff >= 0 ? '+' : ''}{liveComparison.repsDiff} reps
+                      </span>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-2 mb-1">
+                      <IconHistory className="w-4 h-4 text-[var(--text-muted)]" />
+                      <span className="text-xs text-[var(--text-muted)]">Letztes Mal</span>
+                    </div>
+                    <span className="font-display text-lg font-bold">
+                      {formatEntryPerformance(lastPRForExercise, formTracking, weightUnit)}
+                    </span>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Reps & Sets */}
+            <div className="space-y-4">
+              {formInputs.reps && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-[var(--text-muted)]">Wiederholungen</Label>
+                  {/* Quick chips */}
+                  <div className="flex flex-wrap gap-1.5">
+                    {[5, 6, 8, 10, 12, 15, 20].map((r) => (
+                      <button
+                        key={r}
+                        type="button"
+                        onClick={() => updateActiveSet(() => ({ reps: String(r) }))}
+                        className={`h-9 px-3 rounded-full text-sm font-medium border transition-colors press-feedback ${
+                          activeSet.reps === String(r)
+                            ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                            : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+                        }`}
+                      >
+                        {r}
+                      </button>
+                    ))}
+                  </div>
+                  {/* Stepper for custom value */}
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={decrementReps}
+                      className="w-10 h-10 flex items-center justify-center rounded-[var(--radius-button)] bg-[var(--surface-2)] border border-[var(--border)] hover:border-[var(--accent)] transition-colors press-feedback"
+                    >
+                      <IconMinus className="w-4 h-4" />
+                    </button>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={activeSet.reps}
+                      onChange={(e) => updateActiveSet(() => ({ reps: e.target.value }))}
+                      className="h-10 text-center font-display font-bold text-xl bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)]"
+                    />
+                    <button
+                      type="button"
+                      onClick={incrementReps}
+                      className="w-10 h-10 flex items-center justify-center rounded-[var(--radius-button)] bg-[var(--surface-2)] border border-[var(--accent)] hover:bg-[var(--accent)] hover:text-white transition-colors press-feedback"
+                    >
+                      <IconPlus className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {formInputs.reps && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium text-[var(--text-muted)]">
+                      Anstrengung{formData.sets.length > 1 && ` · Satz ${activeSetIndex + 1}`}
+                    </Label>
+                    <div className="flex gap-1">
+                      {EFFORT_SCALES.map((scale) => (
+                        <button
+                          key={scale.key}
+                          type="button"
+                          onClick={() => setEffortScale(scale.key)}
+                          className={`px-2 py-0.5 rounded-full text-[10px] font-medium border transition-colors ${
+                            effortScale === scale.key
+                              ? 'bg-[var(--accent)]/20 text-[var(--accent)] border-[var(--accent)]/40'
+                              : 'bg-[var(--surface-1)] text-[var(--text-muted)] border-[var(--border)]'
+                          }`}
+                        >
+                          {scale.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {/* Optional — tap the selected value again to clear it */}
+                  <div className="flex flex-wrap gap-1.5">
+                    {RPE_VALUES.map((rpe) => (
+                      <button
+                        key={rpe}
+                        type="button"
+                        onClick={() => updateActiveSet((row) => ({ rpe: row.rpe === String(rpe) ? '' : String(rpe) }))}
+                        className={`h-9 px-2.5 rounded-full text-sm font-medium border transition-colors press-feedback ${
+                          activeSet.rpe === String(rpe)
+                            ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                            : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+                        }`}
+                      >
+                        {formatEffort(rpe, effortScale)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-[var(--text-muted)]">Sätze ({formData.sets.length})</Label>
+                {/* Set rows — tap to edit with the controls above, badge cycles the set type */}
+                <div className="space-y-1.5">
+                  {formData.sets.map((row, idx) => {
+                    const setType = setTypeMeta(row.type);
+                    const isActive = idx === activeSetIndex;
+                    return (
+                      <div
+                        key={idx}
+                        onClick={() => setActiveSetIndex(idx)}
+                        className={`flex items-center gap-3 p-2 rounded-[var(--radius-button)] border cursor-pointer transition-colors ${
+                          isActive
+                            ? 'bg-[var(--accent)]/10 border-[var(--accent)]'
+                            : 'bg-[var(--surface-2)] border-[var(--border)]'
+                        }`}
+                      >
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            cycleSetType(idx);
+                          }}
+                          title={setType.label}
+                          className={`shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold border transition-colors press-feedback ${
+                            row.type === 'working'
+                              ? 'bg-[var(--surface-3)] border-[var(--border)] text-[var(--text)]'
+                              : 'bg-[var(--accent)]/20 border-[var(--accent)]/40 text-[var(--accent)]'
+                          }`}
+                        >
+                          {setType.short || idx + 1}
+                        </button>
+                        <span className="flex-1 font-display font-semibold">
+                          {describeSetRow(row)}
+                        </span>
+                        <span className="text-xs text-[var(--text-dim)]">{setType.label}</span>
+                        {formData.sets.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              removeSetRow(idx);
+                            }}
+                            className="shrink-0 w-8 h-8 flex items-center justify-center rounded-lg hover:bg-[var(--surface-1)] transition-colors"
+                          >
+                            <IconX className="w-4 h-4 text-[var(--text-dim)]" />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <button
+                  type="button"
+                  onClick={addSetRow}
+                  className="w-full h-10 flex items-center justify-center gap-2 rounded-[var(--radius-button)] border border-dashed border-[var(--border)] text-sm text-[var(--text-muted)] hover:border-[var(--accent)] hover:text-[var(--text)] transition-colors press-feedback"
+                >
+                  <IconPlus className="w-4 h-4" />
+                  Satz hinzufügen
+                </button>
+                {formTracking === 'gewicht' && (
+                  <button
+                    type="button"
+                    onClick={generateWarmupRows}
+                    className="w-full h-10 flex items-center justify-center gap-2 rounded-[var(--radius-button)] border border-dashed border-[var(--border)] text-sm text-[var(--text-muted)] hover:border-[var(--accent)] hover:text-[var(--text)] transition-colors press-feedback"
+                  >
+                    <IconFlame className="w-4 h-4" />
+                    Aufwärmsätze erzeugen
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Date — quick chips */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-[var(--text-muted)]">Datum</Label>
+              <div className="flex gap-2">
+                {[
+                  { label: 'Heute', value: format(new Date(), 'yyyy-MM-dd') },
+                  { label: 'Gestern', value: format(subDays(new Date(), 1), 'yyyy-MM-dd') },
+                ].map((opt) => (
+                  <button
+                    key={opt.label}
+                    type="button"
+                    onClick={() => setFormData((prev) => ({ ...prev, date: opt.value }))}
+                    className={`flex-1 h-11 rounded-[var(--radius-button)] border text-sm font-medium transition-colors press-feedback ${
+                      formData.date === opt.value
+                        ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                        : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text)]'
+                    }`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+                {/* Custom date — only shown when neither today nor yesterday */}
+                <label className={`relative overflow-hidden h-11 px-3 flex items-center justify-center rounded-[var(--radius-button)] border cursor-pointer transition-colors press-feedback ${
+                  formData.date !== format(new Date(), 'yyyy-MM-dd') && formData.date !== format(subDays(new Date(), 1), 'yyyy-MM-dd')
+                    ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                    : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+                }`}>
+                  <IconCalendar className="w-4 h-4 relative z-10 pointer-events-none" />
+                  <input
+                    type="date"
+                    value={formData.date}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, date: e.target.value }))}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                  />
+                </label>
+              </div>
+              {/* Show selected date when custom */}
+              {formData.date !== format(new Date(), 'yyyy-MM-dd') && formData.date !== format(subDays(new Date(), 1), 'yyyy-MM-dd') && (
+                <p className="text-xs text-[var(--text-dim)] pl-1">
+                  {format(new Date(formData.date + 'T12:00:00'), 'EEEE, dd. MMMM yyyy', { locale: de })}
+                </p>
+              )}
+            </div>
+
+            {/* Note */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-[var(--text-muted)]">Notiz (optional)</Label>
+              <Textarea
+                placeholder="z.B. Gefühlt leicht, nächstes Mal mehr..."
+                value={formData.note}
+                onChange={(e) => setFormData((prev) => ({ ...prev, note: e.target.value }))}
+                className="min-h-[80px] bg-[var(--surface-2)] border-[var(--border)] rounded-[var(--radius-button)] resize-none"
+              />
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="px-6 pb-6 pt-4 border-t border-[var(--border-dim)] space-y-3">
+            <Button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="w-full h-12 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white font-medium rounded-[var(--radius-button)] press-feedback glow-accent"
+            >
+              Speichern
+            </Button>
+            <Button
+              onClick={onClose}
+              variant="ghost"
+              className="w-full h-12 text-[var(--text-muted)] hover:bg-[var(--surface-2)] rounded-[var(--radius-button)] press-feedback"
+            >
+              {activeSession ? 'Fertig' : 'Abbrechen'}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { IconTable } from '@tabler/icons-react';
+import { useEffortScale } from '@/hooks/useEffortScale';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { formatWeight, roundKgToIncrement } from '@/lib/units';
+import { formatEffort, loadForTarget, rpePercentage, RPE_TABLE_REPS, RPE_VALUES } from '@/lib/rpe';
+
+const TARGET_REPS = [1, 2, 3, 4, 5, 6, 8, 10, 12];
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`h-8 px-3 rounded-full text-xs font-medium border transition-colors press-feedback ${
+        active
+          ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+          : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Suggested load for a target reps @ RPE, plus the full percentage table */
+export function RpeCalculator({ oneRepMax, source }: { oneRepMax: number; source: string }) {
+  const [scale] = useEffortScale();
+  const [unit] = useWeightUnit();
+  const [reps, setReps] = useState(5);
+  const [rpe, setRpe] = useState(8);
+  const [showTable, setShowTable] = useState(false);
+
+  const load = roundKgToIncrement(loadForTarget(oneRepMax, reps, rpe), unit);
+  const percent = rpePercentage(reps, rpe);
+  // Highest effort first, like the printed charts
+  const tableRpes = RPE_VALUES.slice().reverse();
+
+  return (
+    <div className="p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] space-y-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <div>
+          <span className="font-display text-3xl font-bold text-[var(--accent)]">{formatWeight(load, unit)}</span>
+          <span className="ml-2 text-sm text-[var(--text-muted)]">
+            {reps} × {formatEffort(rpe, scale)}
+          </span>
+        </div>
+        {percent && <span className="text-xs text-[var(--text-dim)]">{percent.toLocaleString('de-DE')} %</span>}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {TARGET_REPS.map((r) => (
+          <Chip key={r} active={reps === r} onClick={() => setReps(r)}>{r}</Chip>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {RPE_VALUES.map((v) => (
+          <Chip key={v} active={rpe === v} onClick={() => setRpe(v)}>{formatEffort(v, scale)}</Chip>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] text-[var(--text-dim)]">Basis: {formatWeight(oneRepMax, unit)} {source}</p>
+        <button
+          type="button"
+          onClick={() => setShowTable(!showTable)}
+          className={`shrink-0 flex items-center gap-1 text-xs ${showTable ? 'text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text)]'}`}
+        >
+          <IconTable className="w-4 h-4" />
+          Tabelle
+        </button>
+      </div>
+
+      {showTable && (
+        <div className="overflow-x-auto pt-3 border-t border-[var(--border-dim)]">
+          <table className="w-full text-[10px] tabular-nums">
+            <thead>
+              <tr className="text-[var(--text-dim)]">
+                <th className="text-left font-medium pr-2">Wdh.</th>
+                {tableRpes.map((v) => (
+                  <th key={v} className="text-right font-medium px-1">{formatEffort(v, scale)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {RPE_TABLE_REPS.map((r) => (
+                <tr key={r}>
+                  <td className="pr-2 text-[var(--text-dim)]">{r}</td>
+                  {tableRpes.map((v) => (
+                    <td
+                      key={v}
+                      onClick={() => { setReps(r); setRpe(v); }}
+                      className={`text-right px-1 py-0.5 cursor-pointer rounded ${
+                        r === reps && v === rpe ? 'bg-[var(--accent)]/20 text-[var(--accent)] font-bold' : ''
+                      }`}
+                    >
+                      {rpePercentage(r, v)?.toLocaleString('de-DE', { minimumFractionDigits: 1 })}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
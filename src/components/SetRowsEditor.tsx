@@ -0,0 +1,91 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+import { SET_TYPES, type SetType, type WorkoutSet } from '@/lib/sets';
+import { MAX_RPE, MIN_RPE } from '@/lib/rpe';
+import { fromDisplayWeight, toDisplayWeight, DEFAULT_WEIGHT_UNIT, type WeightUnit } from '@/lib/units';
+
+interface SetRowsEditorProps {
+  sets: WorkoutSet[];
+  onChange: (sets: WorkoutSet[]) => void;
+  /** Unit shown and typed; sets stay in kg */
+  unit?: WeightUnit;
+}
+
+export function SetRowsEditor({ sets, onChange, unit = DEFAULT_WEIGHT_UNIT }: SetRowsEditorProps) {
+  function update(index: number, patch: Partial<WorkoutSet>) {
+    onChange(sets.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  }
+
+  function addRow() {
+    const last = sets[sets.length - 1];
+    onChange([
+      ...sets,
+      { index: sets.length + 1, weight_kg: last?.weight_kg ?? 0, reps: last?.reps ?? 0, type: 'working' },
+    ]);
+  }
+
+  function removeRow(index: number) {
+    onChange(sets.filter((_, i) => i !== index).map((s, i) => ({ ...s, index: i + 1 })));
+  }
+
+  return (
+    <div className="space-y-2">
+      {sets.length > 0 && (
+        <div className="grid grid-cols-[2rem_1fr_1fr_4rem_9rem_2.25rem] gap-2 text-xs text-muted-foreground px-1">
+          <span>#</span>
+          <span>Gewicht ({unit})</span>
+          <span>Wdh.</span>
+          <span>RPE</span>
+          <span>Typ</span>
+          <span />
+        </div>
+      )}
+      {sets.map((s, i) => (
+        <div key={i} className="grid grid-cols-[2rem_1fr_1fr_4rem_9rem_2.25rem] gap-2 items-center">
+          <span className="text-sm font-medium text-muted-foreground text-center">{i + 1}</span>
+          <Input
+            type="number"
+            step="0.5"
+            placeholder="0"
+            value={s.weight_kg === 0 ? '' : toDisplayWeight(s.weight_kg, unit)}
+            onChange={e => update(i, { weight_kg: e.target.value ? fromDisplayWeight(Number(e.target.value), unit) : 0 })}
+          />
+          <Input
+            type="number"
+            placeholder="0"
+            value={s.reps === 0 ? '' : s.reps}
+            onChange={e => update(i, { reps: e.target.value ? Number(e.target.value) : 0 })}
+          />
+          <Input
+            type="number"
+            step="0.5"
+            min={MIN_RPE}
+            max={MAX_RPE}
+            placeholder="—"
+            value={s.rpe ?? ''}
+            onChange={e => update(i, { rpe: e.target.value ? Number(e.target.value) : undefined })}
+          />
+          <Select value={s.type} onValueChange={v => update(i, { type: v as SetType })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {SET_TYPES.map(t => (
+                <SelectItem key={t.key} value={t.key}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="ghost" size="icon" onClick={() => removeRow(i)}>
+            <IconTrash className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={addRow}>
+        <IconPlus className="h-4 w-4 mr-1.5" />Satz hinzufügen
+      </Button>
+    </div>
+  );
+}
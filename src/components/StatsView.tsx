@@ -0,0 +1,460 @@
+import { useMemo, useState } from 'react';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, subMonths, startOfWeek } from 'date-fns';
+import { de } from 'date-fns/locale';
+import {
+  IconTrendingUp,
+  IconPlus,
+  IconCalendar,
+  IconChevronRight,
+  IconChevronLeft,
+  IconActivity,
+  IconFlame,
+  IconCalendarStats,
+  IconAward,
+  IconTarget,
+  IconAlertTriangle,
+  IconChartBar,
+  IconRun,
+  IconScale,
+} from '@tabler/icons-react';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { BodyweightEntry, CardioSession, Goal, StreakFreeze } from '@/types/local';
+import { useE1RMFormula } from '@/hooks/useE1RMFormula';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { useStreakDefinition } from '@/hooks/useStreakDefinition';
+import { toDisplayWeight } from '@/lib/units';
+import { MuscleVolumePanel } from '@/components/MuscleVolumePanel';
+import { BodyweightPanel } from '@/components/BodyweightPanel';
+import { GoalProgressCard } from '@/components/GoalProgressCard';
+import { cardioRecords, CARDIO_ACTIVITIES, formatPace } from '@/lib/cardio';
+import type { AchievementStatus } from '@/lib/achievements';
+import { formatStreakUnit } from '@/lib/streaks';
+import { describePlateau, describeDeload, type PlateauAlert } from '@/lib/plateau';
+import { formatDistance, formatDuration } from '@/lib/tracking';
+import { trainingStats } from '@/lib/training-stats';
+import type { ExerciseWithPRs } from '@/lib/exercise-history';
+
+interface StatsViewProps {
+  entries: PrEintraege[];
+  exercises: ExerciseWithPRs[];
+  streakFreezes: StreakFreeze[];
+  achievements: AchievementStatus[];
+  /** Lifting entries and cardio sessions keyed by yyyy-MM-dd, for the calendar */
+  prsByDate: Record<string, PrEintraege[]>;
+  cardioByDate: Record<string, CardioSession[]>;
+  cardioSessions: CardioSession[];
+  goals: Goal[];
+  bodyweightEntries: BodyweightEntry[];
+  /** Stalled or regressing exercises, worst first */
+  plateauAlerts: Array<{ exercise: ExerciseWithPRs; alert: PlateauAlert }>;
+  onOpenDay: (day: Date) => void;
+  onExerciseClick: (exercise: ExerciseWithPRs) => void;
+  onStreakClick: () => void;
+  onAddGoal: () => void;
+  onEditGoal: (goal: Goal) => void;
+  onDeleteGoal: (goal: Goal) => void;
+  onAddBodyweight: () => void;
+  onDeleteBodyweight: (entry: BodyweightEntry) => void;
+}
+
+/** Overview numbers, training calendar, records, goals and plateaus across all exercises */
+export function StatsView({
+  entries,
+  exercises,
+  streakFreezes,
+  achievements,
+  prsByDate,
+  cardioByDate,
+  cardioSessions,
+  goals,
+  bodyweightEntries,
+  plateauAlerts,
+  onOpenDay,
+  onExerciseClick,
+  onStreakClick,
+  onAddGoal,
+  onEditGoal,
+  onDeleteGoal,
+  onAddBodyweight,
+  onDeleteBodyweight,
+}: StatsViewProps) {
+  const [weightUnit] = useWeightUnit();
+  const [e1rmFormula] = useE1RMFormula();
+  const [streakDefinition] = useStreakDefinition();
+  const [calendarMonth, setCalendarMonth] = useState(new Date());
+
+  const statsData = useMemo(
+    () => trainingStats(entries, exercises, streakDefinition, streakFreezes),
+    [entries, exercises, streakDefinition, streakFreezes]
+  );
+  const unlockedAchievements = achievements
+    .filter((a) => a.unlocked)
+    .sort((a, b) => b.progress.achievedAt!.localeCompare(a.progress.achievedAt!));
+
+  /** Stored kilograms in the selected display unit */
+  function displayWeight(kg: number | undefined): number {
+    return toDisplayWeight(kg || 0, weightUnit);
+  }
+
+  // Calendar heatmap intensity — lifting entries and cardio sessions count alike
+  function getHeatmapIntensity(dateStr: string): 'none' | 'low' | 'medium' | 'high' {
+    const count = (prsByDate[dateStr]?.length || 0) + (cardioByDate[dateStr]?.length || 0);
+    if (count === 0) return 'none';
+    if (count <= 2) return 'low';
+    if (count <= 4) return 'medium';
+    return 'high';
+  }
+
+  const monthStart = startOfMonth(calendarMonth);
+  const monthEnd = endOfMonth(calendarMonth);
+  const days = eachDayOfInterval({ start: startOfWeek(monthStart, { weekStartsOn: 1 }), end: monthEnd });
+
+  // Pad to full weeks
+  while (days.length % 7 !== 0) {
+    days.push(new Date(days[days.length - 1].getTime() + 86400000));
+  }
+
+  return (
+    <div className="flex-1 overflow-auto pb-20">
+      {/* Stats Overview */}
+      {statsData && (
+        <section className="px-4 pt-6 pb-4 stagger-fade-in">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-4 rounded-[var(--radius)] bg-gradient-to-br from-[var(--surface-2)] to-[var(--surface-1)] border border-[var(--border)]">
+              <div className="flex items-center gap-2 mb-2">
+                <IconTrendingUp className="w-4 h-4 text-[var(--accent)]" />
+                <span className="text-xs text-[var(--text-muted)]">Strength Increase</span>
+              </div>
+              <span className={`font-display text-3xl font-bold ${statsData.strengthGainPercent >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {statsData.strengthGainPercent >= 0 ? '+' : ''}{statsData.strengthGainPercent}
+              </span>
+              <span className="text-sm text-[var(--text-muted)] ml-1">%</span>
+            </div>
+            <div className="p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+              <div className="flex items-center gap-2 mb-2">
+                <IconActivity className="w-4 h-4 text-[var(--text-muted)]" />
+                <span className="text-xs text-[var(--text-muted)]">Sessions/Woche</span>
+              </div>
+              <span className="font-display text-3xl font-bold">{statsData.sessionsPerWeek}</span>
+            </div>
+            <button
+              type="button"
+              onClick={onStreakClick}
+              className="p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] text-left hover:bg-[var(--surface-2)] transition-colors"
+            >
+              <div className="flex items-center gap-2 mb-2">
+                <IconFlame className={`w-4 h-4 ${statsData.streak.pending ? 'text-[var(--text-dim)]' : 'text-orange-400'}`} />
+                <span className="text-xs text-[var(--text-muted)]">Streak</span>
+              </div>
+              <span className="font-display text-3xl font-bold">{statsData.streak.current}</span>
+              <span className="text-sm text-[var(--text-muted)] ml-1">{formatStreakUnit(statsData.streak.current, statsData.streak.unit)}</span>
+              <p className="text-xs text-[var(--text-dim)] mt-1">
+                Rekord: {statsData.streak.longest} {formatStreakUnit(statsData.streak.longest, statsData.streak.unit)}
+              </p>
+            </button>
+            <div className="p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+              <div className="flex items-center gap-2 mb-2">
+                <IconCalendar className="w-4 h-4 text-[var(--text-muted)]" />
+                <span className="text-xs text-[var(--text-muted)]">Total</span>
+              </div>
+              <span className="font-display text-3xl font-bold">{statsData.totalSessions}</span>
+              <span className="text-sm text-[var(--text-muted)] ml-1">Sessions</span>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Achievements and review teasers — both are pages of their own */}
+      <section className="px-4 pb-4 stagger-fade-in">
+        <a
+          href="#/erfolge"
+          className="flex items-center justify-between gap-3 p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] hover:border-[var(--accent)]/30 transition-all press-feedback"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <IconAward className="w-5 h-5 text-[var(--accent)] shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium">Erfolge</p>
+              <p className="text-xs text-[var(--text-muted)]">
+                {unlockedAchievements.length} von {achievements.length} freigeschaltet
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="text-xl tracking-tight">
+              {unlockedAchievements.slice(0, 4).map((a) => a.definition.emoji).join('')}
+            </span>
+            <IconChevronRight className="w-4 h-4 text-[var(--text-dim)]" />
+          </div>
+        </a>
+        <a
+          href="#/rueckblick"
+          className="mt-2 flex items-center justify-between gap-3 p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] hover:border-[var(--accent)]/30 transition-all press-feedback"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <IconCalendarStats className="w-5 h-5 text-[var(--accent)] shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium">Jahresrückblick {new Date().getFullYear()}</p>
+              <p className="text-xs text-[var(--text-muted)]">Monats- und Jahresbilanz, als Bild teilbar</p>
+            </div>
+          </div>
+          <IconChevronRight className="w-4 h-4 text-[var(--text-dim)]" />
+        </a>
+      </section>
+
+      {/* Calendar Heatmap */}
+      <section className="px-4 pt-4 pb-6 stagger-fade-in stagger-delay-1">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] flex items-center gap-2">
+            <IconCalendar className="w-4 h-4" />
+            Trainings-Kalender
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCalendarMonth(subMonths(calendarMonth, 1))}
+              className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-[var(--surface-1)] transition-colors"
+            >
+              <IconChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm font-medium min-w-[100px] text-center">
+              {format(calendarMonth, 'MMMM yyyy', { locale: de })}
+            </span>
+            <button
+              onClick={() => setCalendarMonth(new Date(calendarMonth.getTime() + 30 * 86400000))}
+              className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-[var(--surface-1)] transition-colors"
+            >
+              <IconChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Weekday headers */}
+        <div className="grid grid-cols-7 gap-1 mb-2">
+          {['Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'].map((day) => (
+            <div key={day} className="text-center text-xs text-[var(--text-dim)] py-1">
+              {day}
+            </div>
+          ))}
+        </div>
+
+        {/* Calendar days */}
+        <div className="grid grid-cols-7 gap-1">
+          {days.map((day, idx) => {
+            const dateStr = format(day, 'yyyy-MM-dd');
+            const intensity = getHeatmapIntensity(dateStr);
+            const isCurrentMonth = day.getMonth() === calendarMonth.getMonth();
+            const isToday = isSameDay(day, new Date());
+            const hasPRs = (prsByDate[dateStr]?.length || 0) > 0;
+            const hasCardio = (cardioByDate[dateStr]?.length || 0) > 0;
+
+            return (
+              <button
+                key={idx}
+                onClick={() => (hasPRs || hasCardio) && onOpenDay(day)}
+                disabled={!hasPRs && !hasCardio}
+                className={`
+                  aspect-square rounded-lg flex flex-col items-center justify-center text-sm transition-all
+                  ${!isCurrentMonth ? 'opacity-30' : ''}
+                  ${isToday ? 'ring-2 ring-[var(--accent)]' : ''}
+                  ${intensity === 'none' ? 'bg-[var(--surface-1)]' : ''}
+                  ${intensity === 'low' ? 'bg-[var(--accent)]/20' : ''}
+                  ${intensity === 'medium' ? 'bg-[var(--accent)]/40' : ''}
+                  ${intensity === 'high' ? 'bg-[var(--accent)]/60' : ''}
+                  ${hasPRs || hasCardio ? 'cursor-pointer hover:ring-2 hover:ring-[var(--accent)]/50' : 'cursor-default'}
+                `}
+              >
+                <span className={isToday ? 'font-bold' : ''}>{format(day, 'd')}</span>
+                {(hasPRs || hasCardio) && (
+                  <div className="flex gap-0.5 mt-0.5">
+                    {hasPRs && <div className="w-1 h-1 rounded-full bg-[var(--accent)]" />}
+                    {hasCardio && <div className="w-1 h-1 rounded-full bg-sky-400" />}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Legend */}
+        <div className="flex items-center justify-center gap-4 mt-4 text-xs text-[var(--text-dim)]">
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded bg-[var(--surface-1)]" />
+            <span>0</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded bg-[var(--accent)]/20" />
+            <span>1-2</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded bg-[var(--accent)]/40" />
+            <span>3-4</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded bg-[var(--accent)]/60" />
+            <span>5+</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="w-1.5 h-1.5 rounded-full bg-sky-400" />
+            <span>Cardio</span>
+          </div>
+        </div>
+      </section>
+
+      {/* Cardio Records */}
+      {cardioSessions.length > 0 && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-2">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconRun className="w-4 h-4" />
+            Cardio-Bestleistungen
+          </h2>
+          <div className="space-y-2">
+            {CARDIO_ACTIVITIES.map((a) => cardioRecords(cardioSessions, a.key))
+              .filter((r) => r.longest || r.fastest)
+              .map((r) => (
+                <div key={r.activity.key} className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="font-medium text-sm">{r.activity.label}</h3>
+                    <span className="text-xs text-[var(--text-dim)]">
+                      {r.longest?.fields.distance_m ? `Längste: ${formatDistance(r.longest.fields.distance_m)}` : ''}
+                      {r.fastest && ` · Schnellste: ${formatPace(r.fastest.fields)}`}
+                    </span>
+                  </div>
+                  {r.benchmarks.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {r.benchmarks.map((b) => (
+                        <span key={b.distance} className="px-2 py-0.5 rounded-full border border-[var(--border)] text-xs">
+                          <span className="text-[var(--text-muted)]">{b.label}</span>{' '}
+                          <span className="font-display font-bold text-sky-400">{formatDuration(b.seconds)}</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+          </div>
+        </section>
+      )}
+
+      {/* Goals across all exercises — open ones first */}
+      <section className="px-4 pb-6 stagger-fade-in stagger-delay-2">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] flex items-center gap-2">
+            <IconTarget className="w-4 h-4" />
+            Ziele
+          </h2>
+          <button
+            type="button"
+            onClick={onAddGoal}
+            className="flex items-center gap-1 text-xs text-[var(--accent)] hover:underline"
+          >
+            <IconPlus className="w-3.5 h-3.5" />
+            Ziel
+          </button>
+        </div>
+        {goals.length === 0 ? (
+          <p className="text-xs text-[var(--text-dim)]">Setze dir ein Ziel, z. B. 100 kg Bankdrücken bis zum Sommer.</p>
+        ) : (
+          <div className="space-y-2">
+            {goals
+              .slice()
+              .sort((a, b) => Number(!!a.fields.achieved_at) - Number(!!b.fields.achieved_at)
+                || (a.fields.deadline ?? '9999').localeCompare(b.fields.deadline ?? '9999'))
+              .map((goal) => {
+                const exercise = exercises.find((ex) => ex.record_id === goal.fields.exercise_id);
+                return (
+                  <GoalProgressCard
+                    key={goal.record_id}
+                    goal={goal}
+                    exerciseName={exercise?.fields.name ?? 'Gelöschte Übung'}
+                    entries={exercise?.prs ?? []}
+                    formula={e1rmFormula}
+                    onEdit={onEditGoal}
+                    onDelete={onDeleteGoal}
+                  />
+                );
+              })}
+          </div>
+        )}
+      </section>
+
+      {/* Bodyweight */}
+      <section className="px-4 pb-6 stagger-fade-in stagger-delay-2">
+        <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+          <IconScale className="w-4 h-4" />
+          Körpergewicht
+        </h2>
+        <BodyweightPanel
+          entries={bodyweightEntries}
+          onAdd={onAddBodyweight}
+          onDelete={onDeleteBodyweight}
+        />
+      </section>
+
+      {/* Weekly Volume per Muscle Group */}
+      <section className="px-4 pb-6 stagger-fade-in stagger-delay-2">
+        <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+          <IconChartBar className="w-4 h-4" />
+          Wochenvolumen pro Muskelgruppe
+        </h2>
+        <MuscleVolumePanel entries={entries} exercises={exercises} />
+      </section>
+
+      {/* Plateau & Regression Alerts */}
+      {plateauAlerts.length > 0 && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-2">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconAlertTriangle className="w-4 h-4 text-amber-400" />
+            Plateaus & Rückschritte
+          </h2>
+          <div className="space-y-2">
+            {plateauAlerts.map(({ exercise, alert }) => (
+              <div
+                key={exercise.record_id}
+                onClick={() => onExerciseClick(exercise)}
+                className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-amber-500/30 hover:bg-[var(--surface-2)] transition-all cursor-pointer press-feedback"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-medium text-sm truncate">{exercise.fields.name}</h3>
+                  <span className={`text-xs font-medium shrink-0 ${alert.kind === 'regression' ? 'text-red-400' : 'text-amber-400'}`}>
+                    {alert.kind === 'regression' ? 'Rückschritt' : 'Plateau'}
+                  </span>
+                </div>
+                <p className="text-xs text-[var(--text-muted)] mt-1">{describePlateau(alert)}</p>
+                <p className="text-xs text-[var(--text-dim)] mt-0.5">{describeDeload(alert, weightUnit)}</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Top Exercises */}
+      {statsData && statsData.topExercises.length > 0 && (
+        <section className="px-4 pb-6 stagger-fade-in stagger-delay-2">
+          <h2 className="text-sm font-medium text-[var(--text-muted)] mb-3 flex items-center gap-2">
+            <IconAward className="w-4 h-4" />
+            Top Übungen
+          </h2>
+          <div className="space-y-2">
+            {statsData.topExercises.map((ex, idx) => (
+              <div
+                key={ex.record_id}
+                onClick={() => onExerciseClick(ex)}
+                className="flex items-center justify-between p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] cursor-pointer hover:border-[var(--accent)]/50 transition-all press-feedback"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-6 h-6 rounded-full bg-[var(--surface-2)] flex items-center justify-center text-xs font-bold">
+                    {idx + 1}
+                  </span>
+                  <span className="font-medium">{ex.fields.name}</span>
+                </div>
+                <div className="text-right">
+                  <span className="font-display font-bold text-[var(--accent)]">{displayWeight(ex.bestKg)}</span>
+                  <span className="text-xs text-[var(--text-muted)] ml-1">{weightUnit}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { format, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { BodyweightEntry } from '@/types/local';
+import { Button } from '@/components/ui/button';
+import { useAthleteSex } from '@/hooks/useAthleteSex';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { formatWeight } from '@/lib/units';
+import { bodyweightOn } from '@/lib/bodyweight';
+import { SEXES, mainLiftLabel, strengthScores, type MainLift } from '@/lib/strength-scores';
+
+interface StrengthScoresCardProps {
+  lift: MainLift;
+  /** Best e1RM of the lift in kg */
+  liftedKg: number;
+  /** Date of the entry that set it; the bodyweight closest to it is used */
+  date: string | undefined;
+  bodyweightEntries: BodyweightEntry[];
+  onLogBodyweight: () => void;
+}
+
+function formatPoints(value: number): string {
+  return value.toLocaleString('de-DE', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+/** Bodyweight multiple plus Wilks, DOTS and IPF GL points for a competition lift */
+export function StrengthScoresCard({ lift, liftedKg, date, bodyweightEntries, onLogBodyweight }: StrengthScoresCardProps) {
+  const [sex, setSex] = useAthleteSex();
+  const [unit] = useWeightUnit();
+  const bodyweight = bodyweightOn(bodyweightEntries, date);
+
+  if (bodyweight == null) {
+    return (
+      <div className="p-4 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)] text-center">
+        <p className="text-sm text-[var(--text-muted)] mb-3">
+          Trage dein Körpergewicht ein, um relative Kraftwerte zu sehen.
+        </p>
+        <Button onClick={onLogBodyweight} variant="outline" size="sm" className="press-feedback">
+          Körpergewicht eintragen
+        </Button>
+      </div>
+    );
+  }
+
+  const scores = strengthScores(lift, liftedKg, bodyweight, sex);
+  const tiles = [
+    { label: '× Körpergewicht', value: scores.multiple.toLocaleString('de-DE', { maximumFractionDigits: 2 }) },
+    { label: 'Wilks', value: formatPoints(scores.wilks) },
+    { label: 'DOTS', value: formatPoints(scores.dots) },
+    { label: 'IPF GL', value: scores.ipfGl == null ? '—' : formatPoints(scores.ipfGl) },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {tiles.map((t) => (
+          <div key={t.label} className="p-3 rounded-[var(--radius)] bg-[var(--surface-1)] border border-[var(--border)]">
+            <div className="text-xs text-[var(--text-dim)] mb-1">{t.label}</div>
+            <div className="font-display text-xl font-bold text-[var(--accent)]">{t.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] text-[var(--text-dim)]">
+          {formatWeight(liftedKg, unit)} e1RM bei {formatWeight(bodyweight, unit)} Körpergewicht
+          {date && ` · ${format(parseISO(date), 'dd.MM.yy', { locale: de })}`}
+          {scores.ipfGl == null && ` · IPF GL gibt es nur für ${mainLiftLabel('bankdruecken')} als Einzeldisziplin`}
+        </p>
+        <div className="flex gap-1 shrink-0">
+          {SEXES.map((s) => (
+            <button
+              key={s.key}
+              type="button"
+              onClick={() => setSex(s.key)}
+              title={s.label}
+              className={`h-7 px-2.5 rounded-full text-xs font-medium border transition-colors press-feedback ${
+                sex === s.key
+                  ? 'bg-[var(--accent)] border-[var(--accent)] text-white'
+                  : 'bg-[var(--surface-2)] border-[var(--border)] text-[var(--text-muted)]'
+              }`}
+            >
+              {s.label.charAt(0)}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { SW_UPDATE_EVENT, applyServiceWorkerUpdate, checkForServiceWorkerUpdate, hasServiceWorkerUpdate } from '@/lib/service-worker';
 
 const APPGROUP_ID = '694d77fcc1d4d50e79b93d47';
 const UPDATE_ENDPOINT = '/claude/build/update';
@@ -156,6 +157,14 @@ export function VersionCheck() {
   const [updateDialogOpen, setUpdateDialogOpen] = useState(false);
   const [rollbackDialog, setRollbackDialog] = useState<Deployment | null>(null);
   const [statusMessage, setStatusMessage] = useState('');
+  // A newer build is installed by the service worker and waits for a reload
+  const [reloadReady, setReloadReady] = useState(hasServiceWorkerUpdate);
+
+  useEffect(() => {
+    const handler = () => setReloadReady(true);
+    window.addEventListener(SW_UPDATE_EVENT, handler);
+    return () => window.removeEventListener(SW_UPDATE_EVENT, handler);
+  }, []);
 
   const applyDeployed = useCallback((d: DeployedVersion, latest: string) => {
     setDeployedVersion(d.version || '');
@@ -261,6 +270,8 @@ export function VersionCheck() {
 
       applyDeployed(verified, latestVersion);
       await refreshDeployments();
+      // Let the service worker fetch the new build so the reload prompt appears
+      await checkForServiceWorkerUpdate();
       setStatus('idle');
     } catch { setStatus('error'); }
   }, [applyDeployed, latestVersion, refreshDeployments]);
@@ -313,6 +324,7 @@ export function VersionCheck() {
 
       applyDeployed(verified, latestVersion);
       await refreshDeployments();
+      await checkForServiceWorkerUpdate();
       setRollbackTarget(null);
       setStatus('idle');
     } catch { setStatus('error'); setRollbackTarget(null); }
@@ -354,6 +366,17 @@ export function VersionCheck() {
         <IconChevronDown size={13} className={`shrink-0 transition-transform ${showPanel ? 'rotate-180' : ''}`} />
       </button>
 
+      {/* Reload banner — new build cached by the service worker */}
+      {reloadReady && (
+        <button
+          onClick={applyServiceWorkerUpdate}
+          className="flex items-center gap-2 mx-3 mt-1 px-3 py-1.5 w-[calc(100%-1.5rem)] rounded-lg text-xs font-medium text-primary bg-primary/10 hover:bg-primary/15 transition-colors"
+        >
+          <IconRefresh size={13} className="shrink-0" />
+          <span>Neue Version bereit – neu laden</span>
+        </button>
+      )}
+
       {/* Update banner */}
       {updateAvailable && !showPanel && (
         <button
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import type { BodyweightEntry } from '@/types/local';
+import {
+  Dialog, DialogContent, DialogHeader,
+  DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { fromDisplayWeight, toDisplayWeight } from '@/lib/units';
+
+interface BodyweightEntryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (fields: BodyweightEntry['fields']) => Promise<void>;
+  defaultValues?: BodyweightEntry['fields'];
+}
+
+interface BodyweightForm {
+  date: string;
+  /** In the display unit, as typed */
+  weight: string;
+  bodyFat: string;
+}
+
+export function BodyweightEntryDialog({ open, onClose, onSubmit, defaultValues }: BodyweightEntryDialogProps) {
+  const [unit] = useWeightUnit();
+  const [form, setForm] = useState<BodyweightForm>({ date: '', weight: '', bodyFat: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm({
+      date: defaultValues?.date ?? format(new Date(), 'yyyy-MM-dd'),
+      weight: defaultValues?.weight_kg != null ? String(toDisplayWeight(defaultValues.weight_kg, unit)) : '',
+      bodyFat: defaultValues?.body_fat_percent != null ? String(defaultValues.body_fat_percent) : '',
+    });
+  }, [open, defaultValues, unit]);
+
+  const weight = parseFloat(form.weight.replace(',', '.'));
+  const bodyFat = parseFloat(form.bodyFat.replace(',', '.'));
+  const canSave = !!form.date && weight > 0 && (isNaN(bodyFat) || (bodyFat > 0 && bodyFat < 100));
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit({
+        date: form.date,
+        weight_kg: fromDisplayWeight(weight, unit),
+        body_fat_percent: isNaN(bodyFat) ? undefined : bodyFat,
+      });
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{defaultValues ? 'Körpergewicht bearbeiten' : 'Körpergewicht eintragen'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="date">Datum</Label>
+            <Input
+              id="date"
+              type="date"
+              value={form.date}
+              onChange={e => setForm(f => ({ ...f, date: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="weight">Gewicht ({unit})</Label>
+              <Input
+                id="weight"
+                inputMode="decimal"
+                placeholder="0,0"
+                value={form.weight}
+                onChange={e => setForm(f => ({ ...f, weight: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="body_fat_percent">Körperfett (%)</Label>
+              <Input
+                id="body_fat_percent"
+                inputMode="decimal"
+                placeholder="optional"
+                value={form.bodyFat}
+                onChange={e => setForm(f => ({ ...f, bodyFat: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Abbrechen</Button>
+            <Button type="submit" disabled={saving || !canSave}>
+              {saving ? 'Speichern...' : defaultValues ? 'Speichern' : 'Eintragen'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
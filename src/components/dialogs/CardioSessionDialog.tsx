@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import type { CardioSession } from '@/types/local';
+import {
+  Dialog, DialogContent, DialogHeader,
+  DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CARDIO_ACTIVITIES, formatPace, type CardioActivity } from '@/lib/cardio';
+import { formatDuration, parseDuration } from '@/lib/tracking';
+
+interface CardioSessionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (fields: CardioSession['fields']) => Promise<void>;
+  defaultValues?: CardioSession['fields'];
+}
+
+interface CardioForm {
+  activity: CardioActivity;
+  date: string;
+  /** m:ss or h:mm:ss */
+  duration: string;
+  /** Kilometres, as typed */
+  distance: string;
+  avgHeartRate: string;
+  note: string;
+}
+
+function toForm(fields: CardioSession['fields'] | undefined): CardioForm {
+  return {
+    activity: fields?.activity ?? 'laufen',
+    date: fields?.date ?? format(new Date(), 'yyyy-MM-dd'),
+    duration: fields?.duration_seconds != null ? formatDuration(fields.duration_seconds) : '',
+    distance: fields?.distance_m != null ? String(fields.distance_m / 1000) : '',
+    avgHeartRate: fields?.avg_heart_rate != null ? String(fields.avg_heart_rate) : '',
+    note: fields?.note ?? '',
+  };
+}
+
+function toFields(form: CardioForm): CardioSession['fields'] {
+  const duration = parseDuration(form.duration);
+  const distanceKm = parseFloat(form.distance.replace(',', '.'));
+  const heartRate = parseInt(form.avgHeartRate);
+  return {
+    activity: form.activity,
+    date: form.date,
+    duration_seconds: isNaN(duration) ? undefined : duration,
+    distance_m: isNaN(distanceKm) ? undefined : Math.round(distanceKm * 1000),
+    avg_heart_rate: isNaN(heartRate) ? undefined : heartRate,
+    note: form.note.trim() || undefined,
+  };
+}
+
+export function CardioSessionDialog({ open, onClose, onSubmit, defaultValues }: CardioSessionDialogProps) {
+  const [form, setForm] = useState<CardioForm>(() => toForm(undefined));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(toForm(defaultValues));
+  }, [open, defaultValues]);
+
+  const fields = toFields(form);
+  const canSave = !!fields.date && !!fields.duration_seconds;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(fields);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{defaultValues ? 'Cardio-Einheit bearbeiten' : 'Cardio-Einheit eintragen'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="activity">Aktivität</Label>
+              <Select value={form.activity} onValueChange={v => setForm(f => ({ ...f, activity: v as CardioActivity }))}>
+                <SelectTrigger id="activity" className="w-full"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CARDIO_ACTIVITIES.map(a => (
+                    <SelectItem key={a.key} value={a.key}>{a.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date">Datum</Label>
+              <Input
+                id="date"
+                type="date"
+                value={form.date}
+                onChange={e => setForm(f => ({ ...f, date: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="duration">Dauer</Label>
+              <Input
+                id="duration"
+                inputMode="numeric"
+                placeholder="mm:ss"
+                value={form.duration}
+                onChange={e => setForm(f => ({ ...f, duration: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="distance">Distanz (km)</Label>
+              <Input
+                id="distance"
+                inputMode="decimal"
+                placeholder="0,0"
+                value={form.distance}
+                onChange={e => setForm(f => ({ ...f, distance: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="avg_heart_rate">Ø Puls</Label>
+              <Input
+                id="avg_heart_rate"
+                type="number"
+                min={0}
+                placeholder="bpm"
+                value={form.avgHeartRate}
+                onChange={e => setForm(f => ({ ...f, avgHeartRate: e.target.value }))}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Tempo: <span className="font-medium text-foreground">{formatPace(fields)}</span>
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="note">Notiz</Label>
+            <Textarea
+              id="note"
+              rows={2}
+              value={form.note}
+              onChange={e => setForm(f => ({ ...f, note: e.target.value }))}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Abbrechen</Button>
+            <Button type="submit" disabled={saving || !canSave}>
+              {saving ? 'Speichern...' : defaultValues ? 'Speichern' : 'Eintragen'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { addMonths, format } from 'date-fns';
+import type { Uebungen } from '@/types/app-extensions';
+import type { Goal } from '@/types/local';
+import {
+  Dialog, DialogContent, DialogHeader,
+  DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { fromDisplayWeight, toDisplayWeight } from '@/lib/units';
+import { GOAL_METRICS, isWeightMetric, type GoalMetric } from '@/lib/goals';
+
+interface GoalDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (fields: Goal['fields']) => Promise<void>;
+  defaultValues?: Goal['fields'];
+  /** Preselected exercise for a new goal */
+  exerciseId?: string;
+  uebungenList: Uebungen[];
+}
+
+interface GoalForm {
+  exercise_id: string;
+  metric: GoalMetric;
+  /** In the display unit for weight metrics, as typed */
+  target: string;
+  deadline: string;
+}
+
+export function GoalDialog({ open, onClose, onSubmit, defaultValues, exerciseId, uebungenList }: GoalDialogProps) {
+  const [unit] = useWeightUnit();
+  const [form, setForm] = useState<GoalForm>({ exercise_id: '', metric: 'weight', target: '', deadline: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const metric = defaultValues?.metric ?? 'weight';
+    const target = defaultValues?.target_value;
+    setForm({
+      exercise_id: defaultValues?.exercise_id ?? exerciseId ?? '',
+      metric,
+      target: target == null ? '' : String(isWeightMetric(metric) ? toDisplayWeight(target, unit) : target),
+      deadline: defaultValues?.deadline ?? format(addMonths(new Date(), 3), 'yyyy-MM-dd'),
+    });
+  }, [open, defaultValues, exerciseId, unit]);
+
+  const target = parseFloat(form.target.replace(',', '.'));
+  const canSave = !!form.exercise_id && target > 0;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit({
+        exercise_id: form.exercise_id,
+        metric: form.metric,
+        target_value: isWeightMetric(form.metric) ? fromDisplayWeight(target, unit) : Math.round(target),
+        deadline: form.deadline || undefined,
+        // Editing the target reopens the goal
+        achieved_at: undefined,
+      });
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{defaultValues ? 'Ziel bearbeiten' : 'Neues Ziel'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="exercise_id">Übung</Label>
+            <Select value={form.exercise_id || 'none'} onValueChange={v => setForm(f => ({ ...f, exercise_id: v === 'none' ? '' : v }))}>
+              <SelectTrigger id="exercise_id" className="w-full"><SelectValue placeholder="Auswählen..." /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">—</SelectItem>
+                {uebungenList.map(r => (
+                  <SelectItem key={r.record_id} value={r.record_id}>{r.fields.name ?? r.record_id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="metric">Messgröße</Label>
+              <Select value={form.metric} onValueChange={v => setForm(f => ({ ...f, metric: v as GoalMetric }))}>
+                <SelectTrigger id="metric" className="w-full"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {GOAL_METRICS.map(m => (
+                    <SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target_value">Ziel ({isWeightMetric(form.metric) ? unit : 'Wdh.'})</Label>
+              <Input
+                id="target_value"
+                inputMode="decimal"
+                placeholder="0"
+                value={form.target}
+                onChange={e => setForm(f => ({ ...f, target: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deadline">Bis</Label>
+            <Input
+              id="deadline"
+              type="date"
+              value={form.deadline}
+              onChange={e => setForm(f => ({ ...f, deadline: e.target.value }))}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Abbrechen</Button>
+            <Button type="submit" disabled={saving || !canSave}>
+              {saving ? 'Speichern...' : defaultValues ? 'Speichern' : 'Anlegen'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { PrEintraege, Uebungen } from '@/types/app';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
 import { APP_IDS } from '@/types/app';
-import { extractRecordId, createRecordUrl, cleanFieldsForApi, getUserProfile } from '@/services/livingAppsService';
+import { extractRecordId, createRecordUrl, getUserProfile } from '@/services/livingAppsService';
+import { cleanRecordFields } from '@/services/recordFields';
 import {
   Dialog, DialogContent, DialogHeader,
   DialogTitle, DialogFooter,
@@ -17,11 +18,22 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { IconArrowBigDownLinesFilled, IconCamera, IconCircleCheck, IconClipboard, IconFileText, IconLoader2, IconPhotoPlus, IconSparkles, IconUpload, IconX } from '@tabler/icons-react';
 import { fileToDataUri, extractFromInput, extractPhotoMeta, reverseGeocode } from '@/lib/ai';
+import { SetRowsEditor } from '@/components/SetRowsEditor';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { getFieldSets, serializeSets, summarizeSets, type WorkoutSet } from '@/lib/sets';
+import { ApiError, toErrorPayload, toSubmitError, type SubmitError } from '@/services/apiErrors';
+import { FieldError } from '@/components/FieldError';
+import { useErrorBus } from '@/components/ErrorBus';
+
+// Fields the set editor fills in; a refused one is shown under the sets
+const SET_FIELDS = ['weight_kg', 'reps', 'sets', 'set_details', 'duration_seconds', 'distance_m', 'rpe'];
+const FORM_FIELDS = ['exercise_id', 'date', 'note', ...SET_FIELDS];
 
 interface PrEintraegeDialogProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (fields: PrEintraege['fields']) => Promise<void>;
+  /** Resolves to false when the save failed and has been reported; the dialog then stays open */
+  onSubmit: (fields: PrEintraege['fields']) => Promise<boolean>;
   defaultValues?: PrEintraege['fields'];
   uebungenList: Uebungen[];
   enablePhotoScan?: boolean;
@@ -30,7 +42,10 @@ interface PrEintraegeDialogProps {
 
 export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebungenList, enablePhotoScan = true, enablePhotoLocation = true }: PrEintraegeDialogProps) {
   const [fields, setFields] = useState<Partial<PrEintraege['fields']>>({});
+  const [weightUnit] = useWeightUnit();
   const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState<SubmitError | null>(null);
+  const { emit } = useErrorBus();
   const [scanning, setScanning] = useState(false);
   const [scanSuccess, setScanSuccess] = useState(false);
   const [dragOver, setDragOver] = useState(false);
@@ -48,6 +63,7 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
   useEffect(() => {
     if (open) {
       setFields(defaultValues ?? {});
+      setSubmitError(null);
       setPreview(null);
       setScanSuccess(false);
       setAiText('');
@@ -70,18 +86,33 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
     }
   }
 
+  function handleSetsChange(sets: WorkoutSet[]) {
+    setFields(f => ({ ...f, ...summarizeSets(sets), set_details: serializeSets(sets) }));
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setSaving(true);
+    setSubmitError(null);
     try {
-      const clean = cleanFieldsForApi({ ...fields }, 'pr_eintraege');
-      await onSubmit(clean as PrEintraege['fields']);
-      onClose();
+      const clean = cleanRecordFields({ ...fields }, 'pr_eintraege');
+      if (await onSubmit(clean as PrEintraege['fields'])) onClose();
+    } catch (error) {
+      // Refused input goes next to the field; anything else is ErrorBus's toast,
+      // which callApi already raised for API errors. Either way the dialog
+      // stays open with what was entered
+      const refused = toSubmitError(error, FORM_FIELDS);
+      if (refused) setSubmitError(refused);
+      else if (!(error instanceof ApiError)) emit(toErrorPayload(error));
     } finally {
       setSaving(false);
     }
   }
 
+  function fieldError(...names: string[]) {
+    return submitError?.field && names.includes(submitError.field) ? submitError.message : null;
+  }
+
   async function handleAiExtract(file?: File) {
     if (!file && !aiText.trim()) return;
     setScanning(true);
@@ -119,7 +150,7 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
         }
       }
       const photoContext = contextParts.length ? contextParts.join('\n') : undefined;
-      const schema = `{\n  "exercise_id": string | null, // Display name from Übungen (see <available-records>)\n  "date": string | null, // YYYY-MM-DD\n  "weight_kg": number | null, // Gewicht (kg)\n  "reps": number | null, // Wiederholungen\n  "sets": number | null, // Sätze\n  "note": string | null, // Notiz\n}`;
+      const schema = `{\n  "exercise_id": string | null, // Display name from Übungen (see <available-records>)\n  "date": string | null, // YYYY-MM-DD\n  "weight_kg": number | null, // Gewicht (kg)\n  "reps": number | null, // Wiederholungen\n  "sets": number | null, // Sätze\n  "rpe": number | null, // RPE 6–10 in halben Schritten (10 minus Wiederholungen in Reserve)\n  "note": string | null, // Notiz\n}`;
       const raw = await extractFromInput<Record<string, unknown>>(schema, {
         dataUri: uri,
         userText: aiText.trim() || undefined,
@@ -137,6 +168,10 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
           if (applookupKeys.has(k)) continue;
           if (v != null) merged[k] = v;
         }
+        // Extracted weight/reps/sets/RPE replace any previously entered set rows
+        if (raw['weight_kg'] != null || raw['reps'] != null || raw['sets'] != null || raw['rpe'] != null) {
+          delete merged['set_details'];
+        }
         const exercise_idName = raw['exercise_id'] as string | null;
         if (exercise_idName) {
           const exercise_idMatch = uebungenList.find(r => matchName(exercise_idName!, [String(r.fields.name ?? '')]));
@@ -378,7 +413,7 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
               value={extractRecordId(fields.exercise_id) ?? 'none'}
               onValueChange={v => setFields(f => ({ ...f, exercise_id: v === 'none' ? undefined : createRecordUrl(APP_IDS.UEBUNGEN, v) }))}
             >
-              <SelectTrigger id="exercise_id"><SelectValue placeholder="Auswählen..." /></SelectTrigger>
+              <SelectTrigger id="exercise_id" aria-invalid={!!fieldError('exercise_id')}><SelectValue placeholder="Auswählen..." /></SelectTrigger>
               <SelectContent>
                 <SelectItem value="none">—</SelectItem>
                 {uebungenList.map(r => (
@@ -388,6 +423,7 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
                 ))}
               </SelectContent>
             </Select>
+            <FieldError message={fieldError('exercise_id')} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="date">Datum</Label>
@@ -396,34 +432,14 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
               type="date"
               value={fields.date ?? ''}
               onChange={e => setFields(f => ({ ...f, date: e.target.value }))}
+              aria-invalid={!!fieldError('date')}
             />
+            <FieldError message={fieldError('date')} />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="weight_kg">Gewicht (kg)</Label>
-            <Input
-              id="weight_kg"
-              type="number"
-              value={fields.weight_kg ?? ''}
-              onChange={e => setFields(f => ({ ...f, weight_kg: e.target.value ? Number(e.target.value) : undefined }))}
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="reps">Wiederholungen</Label>
-            <Input
-              id="reps"
-              type="number"
-              value={fields.reps ?? ''}
-              onChange={e => setFields(f => ({ ...f, reps: e.target.value ? Number(e.target.value) : undefined }))}
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="sets">Sätze</Label>
-            <Input
-              id="sets"
-              type="number"
-              value={fields.sets ?? ''}
-              onChange={e => setFields(f => ({ ...f, sets: e.target.value ? Number(e.target.value) : undefined }))}
-            />
+            <Label>Sätze</Label>
+            <SetRowsEditor sets={getFieldSets(fields)} onChange={handleSetsChange} unit={weightUnit} />
+            <FieldError message={fieldError(...SET_FIELDS)} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="note">Notiz</Label>
@@ -432,8 +448,15 @@ export function PrEintraegeDialog({ open, onClose, onSubmit, defaultValues, uebu
               value={fields.note ?? ''}
               onChange={e => setFields(f => ({ ...f, note: e.target.value }))}
               rows={3}
+              aria-invalid={!!fieldError('note')}
             />
+            <FieldError message={fieldError('note')} />
           </div>
+          {submitError && !submitError.field && (
+            <div className="text-sm text-destructive bg-destructive/10 rounded-lg p-3">
+              {submitError.message}
+            </div>
+          )}
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onClose}>Abbrechen</Button>
             <Button type="submit" disabled={saving}>
@@ -1,4 +1,4 @@
-import type { PrEintraege, Uebungen } from '@/types/app';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
 import { extractRecordId } from '@/services/livingAppsService';
 import {
   Dialog, DialogContent, DialogHeader,
@@ -9,6 +9,11 @@ import { Label } from '@/components/ui/label';
 import { IconPencil } from '@tabler/icons-react';
 import { format, parseISO } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { getEntrySets, setTypeMeta } from '@/lib/sets';
+import { formatWeight, toDisplayWeight } from '@/lib/units';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { useEffortScale } from '@/hooks/useEffortScale';
+import { formatEffort, isValidRPE } from '@/lib/rpe';
 
 function formatDate(d?: string) {
   if (!d) return '—';
@@ -24,6 +29,8 @@ interface PrEintraegeViewDialogProps {
 }
 
 export function PrEintraegeViewDialog({ open, onClose, record, onEdit, uebungenList }: PrEintraegeViewDialogProps) {
+  const [weightUnit] = useWeightUnit();
+  const [effortScale] = useEffortScale();
   function getUebungenDisplayName(url?: unknown) {
     if (!url) return '—';
     const id = extractRecordId(url);
@@ -55,8 +62,8 @@ export function PrEintraegeViewDialog({ open, onClose, record, onEdit, uebungenL
             <p className="text-sm">{formatDate(record.fields.date)}</p>
           </div>
           <div className="space-y-1">
-            <Label className="text-xs text-muted-foreground">Gewicht (kg)</Label>
-            <p className="text-sm">{record.fields.weight_kg ?? '—'}</p>
+            <Label className="text-xs text-muted-foreground">Gewicht ({weightUnit})</Label>
+            <p className="text-sm">{record.fields.weight_kg != null ? toDisplayWeight(record.fields.weight_kg, weightUnit) : '—'}</p>
           </div>
           <div className="space-y-1">
             <Label className="text-xs text-muted-foreground">Wiederholungen</Label>
@@ -65,6 +72,17 @@ export function PrEintraegeViewDialog({ open, onClose, record, onEdit, uebungenL
           <div className="space-y-1">
             <Label className="text-xs text-muted-foreground">Sätze</Label>
             <p className="text-sm">{record.fields.sets ?? '—'}</p>
+            {getEntrySets(record).length > 0 && (
+              <ol className="text-sm text-muted-foreground space-y-0.5 pt-1">
+                {getEntrySets(record).map(s => (
+                  <li key={s.index}>
+                    {s.index}. {formatWeight(s.weight_kg, weightUnit)} × {s.reps}
+                    {isValidRPE(s.rpe) && <span className="ml-1.5">{formatEffort(s.rpe, effortScale)}</span>}
+                    {s.type !== 'working' && <span className="ml-1.5 text-xs">({setTypeMeta(s.type).label})</span>}
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
           <div className="space-y-1">
             <Label className="text-xs text-muted-foreground">Notiz</Label>
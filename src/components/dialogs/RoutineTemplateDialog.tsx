@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import type { Uebungen } from '@/types/app-extensions';
+import type { RoutineItem, RoutineTemplate } from '@/types/local';
+import {
+  Dialog, DialogContent, DialogHeader,
+  DialogTitle, DialogDescription, DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+
+interface RoutineTemplateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (fields: RoutineTemplate['fields']) => Promise<void>;
+  defaultValues?: RoutineTemplate['fields'];
+  uebungenList: Uebungen[];
+}
+
+const EMPTY_ITEM: RoutineItem = { exercise_id: '', sets: 3, reps: 8 };
+
+export function RoutineTemplateDialog({ open, onClose, onSubmit, defaultValues, uebungenList }: RoutineTemplateDialogProps) {
+  const [fields, setFields] = useState<RoutineTemplate['fields']>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setFields(defaultValues ?? { items: [{ ...EMPTY_ITEM }] });
+  }, [open, defaultValues]);
+
+  const items = fields.items ?? [];
+
+  function updateItem(index: number, patch: Partial<RoutineItem>) {
+    setFields(f => ({ ...f, items: items.map((item, i) => (i === index ? { ...item, ...patch } : item)) }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit({
+        name: fields.name?.trim(),
+        description: fields.description?.trim() || undefined,
+        items: items.filter(item => item.exercise_id),
+      });
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const canSave = !!fields.name?.trim() && items.some(item => item.exercise_id);
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{defaultValues ? 'Vorlage bearbeiten' : 'Vorlage erstellen'}</DialogTitle>
+          <DialogDescription>Vorlagen werden vorerst nur auf diesem Gerät gespeichert.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              placeholder="z.B. Push A"
+              value={fields.name ?? ''}
+              onChange={e => setFields(f => ({ ...f, name: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="description">Beschreibung</Label>
+            <Textarea
+              id="description"
+              rows={2}
+              value={fields.description ?? ''}
+              onChange={e => setFields(f => ({ ...f, description: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Übungen</Label>
+            {items.length > 0 && (
+              <div className="grid grid-cols-[1fr_3.5rem_3.5rem_4rem_2.25rem] gap-2 text-xs text-muted-foreground px-1">
+                <span>Übung</span>
+                <span>Sätze</span>
+                <span>Wdh.</span>
+                <span>% 1RM</span>
+                <span />
+              </div>
+            )}
+            {items.map((item, i) => (
+              <div key={i} className="grid grid-cols-[1fr_3.5rem_3.5rem_4rem_2.25rem] gap-2 items-center">
+                <Select value={item.exercise_id || undefined} onValueChange={v => updateItem(i, { exercise_id: v })}>
+                  <SelectTrigger className="min-w-0"><SelectValue placeholder="Auswählen..." /></SelectTrigger>
+                  <SelectContent>
+                    {uebungenList.map(r => (
+                      <SelectItem key={r.record_id} value={r.record_id}>
+                        {r.fields.name ?? r.record_id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  value={item.sets}
+                  onChange={e => updateItem(i, { sets: Math.max(1, Number(e.target.value) || 1) })}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={item.reps}
+                  onChange={e => updateItem(i, { reps: Math.max(1, Number(e.target.value) || 1) })}
+                />
+                <Input
+                  type="number"
+                  placeholder="—"
+                  value={item.percent_1rm ?? ''}
+                  onChange={e => updateItem(i, { percent_1rm: e.target.value ? Number(e.target.value) : undefined })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setFields(f => ({ ...f, items: items.filter((_, idx) => idx !== i) }))}
+                >
+                  <IconTrash className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => setFields(f => ({ ...f, items: [...items, { ...EMPTY_ITEM }] }))}
+            >
+              <IconPlus className="h-4 w-4 mr-1.5" />Übung hinzufügen
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Ohne Prozentangabe wird das zuletzt bewegte Gewicht vorgeschlagen.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Abbrechen</Button>
+            <Button type="submit" disabled={saving || !canSave}>
+              {saving ? 'Speichern...' : defaultValues ? 'Speichern' : 'Erstellen'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { IconCopy, IconDownload, IconShare } from '@tabler/icons-react';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import {
+  Dialog, DialogContent, DialogHeader,
+  DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { usePreference } from '@/hooks/usePreference';
+import { useE1RMFormula } from '@/hooks/useE1RMFormula';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { extractRecordId } from '@/services/livingAppsService';
+import {
+  SHARE_CARD_FORMATS,
+  SHARE_CARD_LAYOUTS,
+  SHARE_HIDE_WEIGHTS_PREFERENCE,
+  buildChartCard,
+  buildPrCard,
+  buildWeekCard,
+  canCopyImage,
+  canShareFiles,
+  canvasToBlob,
+  copyImage,
+  downloadBlob,
+  renderShareCard,
+  shareImage,
+  type ShareCardData,
+  type ShareCardFormat,
+  type ShareCardLayout,
+} from '@/lib/share-card';
+
+/** What the card is about; the other layouts are derived from it */
+export interface ShareCardSource {
+  entry: PrEintraege;
+  exerciseName: string;
+  isPR?: boolean;
+  totalPRs?: number;
+}
+
+interface ShareCardDialogProps {
+  open: boolean;
+  onClose: () => void;
+  source: ShareCardSource | null;
+  allEntries: PrEintraege[];
+  exercises: Uebungen[];
+}
+
+export function ShareCardDialog({ open, onClose, source, allEntries, exercises }: ShareCardDialogProps) {
+  const [unit] = useWeightUnit();
+  const [formula] = useE1RMFormula();
+  const [hideWeights, setHideWeights] = usePreference<boolean>(SHARE_HIDE_WEIGHTS_PREFERENCE, false);
+  const [layout, setLayout] = useState<ShareCardLayout>('pr');
+  const [cardFormat, setCardFormat] = useState<ShareCardFormat>('story');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (open) setLayout('pr');
+  }, [open]);
+
+  const card = useMemo<ShareCardData | null>(() => {
+    if (!source) return null;
+    const exerciseId = extractRecordId(source.entry.fields.exercise_id);
+    const exerciseEntries = allEntries.filter(e => extractRecordId(e.fields.exercise_id) === exerciseId);
+    switch (layout) {
+      case 'week':
+        return buildWeekCard(source.entry.fields.date ?? '', allEntries, exercises);
+      case 'chart':
+        return buildChartCard(source.exerciseName, exerciseEntries, formula);
+      default:
+        return buildPrCard(source.entry, source.exerciseName, exerciseEntries, formula, {
+          isPR: source.isPR,
+          totalPRs: source.totalPRs,
+        });
+    }
+  }, [source, layout, allEntries, exercises, formula]);
+
+  const options = useMemo(() => ({ format: cardFormat, unit, hideWeights }), [cardFormat, unit, hideWeights]);
+
+  useEffect(() => {
+    if (!open || !card) return;
+    setPreview(renderShareCard(card, options).toDataURL('image/png'));
+  }, [open, card, options]);
+
+  const filename = `pr-tracker-${layout}-${source?.entry.fields.date?.slice(0, 10) ?? 'karte'}.png`;
+
+  async function runWithImage(action: (blob: Blob) => Promise<void>) {
+    if (!card) return;
+    setBusy(true);
+    try {
+      await action(await canvasToBlob(renderShareCard(card, options)));
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      console.error('Error sharing card:', error);
+      toast.error('Bild konnte nicht geteilt werden');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Teilen</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Tabs value={layout} onValueChange={v => setLayout(v as ShareCardLayout)}>
+            <TabsList className="w-full">
+              {SHARE_CARD_LAYOUTS.map(l => (
+                <TabsTrigger key={l.key} value={l.key} className="flex-1">{l.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center justify-center rounded-lg bg-muted p-3 h-80">
+            {preview && (
+              <img src={preview} alt="Vorschau" className="max-h-full max-w-full rounded-md shadow-md" />
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <Tabs value={cardFormat} onValueChange={v => setCardFormat(v as ShareCardFormat)}>
+              <TabsList>
+                {SHARE_CARD_FORMATS.map(f => (
+                  <TabsTrigger key={f.key} value={f.key}>{f.label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <div className="flex items-center gap-2">
+              <Switch id="hide_weights" checked={hideWeights} onCheckedChange={setHideWeights} />
+              <Label htmlFor="hide_weights" className="text-sm">Gewichte ausblenden</Label>
+            </div>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" disabled={busy} onClick={() => runWithImage(async blob => downloadBlob(blob, filename))}>
+            <IconDownload size={16} className="mr-1.5" />
+            Speichern
+          </Button>
+          {canCopyImage() && (
+            <Button
+              variant="outline"
+              disabled={busy}
+              onClick={() => runWithImage(async blob => {
+                await copyImage(blob);
+                toast.success('Bild kopiert');
+              })}
+            >
+              <IconCopy size={16} className="mr-1.5" />
+              Kopieren
+            </Button>
+          )}
+          {canShareFiles() && (
+            <Button disabled={busy} onClick={() => runWithImage(async blob => { await shareImage(blob, filename, source?.exerciseName ?? 'PR Tracker'); })}>
+              <IconShare size={16} className="mr-1.5" />
+              Teilen
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
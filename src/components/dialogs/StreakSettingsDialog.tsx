@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { IconTrash } from '@tabler/icons-react';
+import type { Uebungen } from '@/types/app-extensions';
+import type { StreakFreeze } from '@/types/local';
+import {
+  Dialog, DialogContent, DialogHeader,
+  DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useStreakDefinition } from '@/hooks/useStreakDefinition';
+import { FREEZE_REASONS, STREAK_KINDS, type FreezeReason, type StreakDefinition, type StreakKind } from '@/lib/streaks';
+
+interface StreakSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  freezes: StreakFreeze[];
+  onAddFreeze: (fields: StreakFreeze['fields']) => Promise<void>;
+  onDeleteFreeze: (freeze: StreakFreeze) => Promise<void>;
+  uebungenList: Uebungen[];
+}
+
+interface FreezeForm {
+  start_date: string;
+  end_date: string;
+  reason: FreezeReason;
+}
+
+function emptyFreeze(): FreezeForm {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return { start_date: today, end_date: today, reason: 'ruhetag' };
+}
+
+function formatFreezeRange(freeze: StreakFreeze): string {
+  const { start_date, end_date } = freeze.fields;
+  if (!start_date) return '—';
+  const start = format(parseISO(start_date), 'dd.MM.yy', { locale: de });
+  if (!end_date || end_date === start_date) return start;
+  return `${start} – ${format(parseISO(end_date), 'dd.MM.yy', { locale: de })}`;
+}
+
+export function StreakSettingsDialog({ open, onClose, freezes, onAddFreeze, onDeleteFreeze, uebungenList }: StreakSettingsDialogProps) {
+  const [definition, setDefinition] = useStreakDefinition();
+  const [form, setForm] = useState<StreakDefinition>(definition);
+  const [freeze, setFreeze] = useState<FreezeForm>(emptyFreeze);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(definition);
+    setFreeze(emptyFreeze());
+  }, [open, definition]);
+
+  const canSave = form.minSessions >= 1 && (form.kind !== 'exercise' || !!form.exerciseId);
+  const canAddFreeze = !!freeze.start_date && !!freeze.end_date && freeze.end_date >= freeze.start_date;
+  const sortedFreezes = [...freezes].sort((a, b) => (b.fields.start_date ?? '').localeCompare(a.fields.start_date ?? ''));
+
+  async function handleAddFreeze() {
+    setSaving(true);
+    try {
+      await onAddFreeze(freeze);
+      setFreeze(emptyFreeze());
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setDefinition({
+      kind: form.kind,
+      minSessions: form.kind === 'daily' ? 1 : form.minSessions,
+      exerciseId: form.kind === 'exercise' ? form.exerciseId : undefined,
+    });
+    onClose();
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Streak</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="streak_kind">Zählweise</Label>
+            <Select value={form.kind} onValueChange={v => setForm(f => ({ ...f, kind: v as StreakKind }))}>
+              <SelectTrigger id="streak_kind" className="w-full"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {STREAK_KINDS.map(k => (
+                  <SelectItem key={k.key} value={k.key}>{k.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {STREAK_KINDS.find(k => k.key === form.kind)?.description}
+            </p>
+          </div>
+          {form.kind === 'exercise' && (
+            <div className="space-y-2">
+              <Label htmlFor="streak_exercise">Übung</Label>
+              <Select value={form.exerciseId || 'none'} onValueChange={v => setForm(f => ({ ...f, exerciseId: v === 'none' ? undefined : v }))}>
+                <SelectTrigger id="streak_exercise" className="w-full"><SelectValue placeholder="Auswählen..." /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">—</SelectItem>
+                  {uebungenList.map(r => (
+                    <SelectItem key={r.record_id} value={r.record_id}>{r.fields.name ?? r.record_id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {form.kind !== 'daily' && (
+            <div className="space-y-2">
+              <Label htmlFor="streak_min_sessions">Trainingstage pro Woche</Label>
+              <Input
+                id="streak_min_sessions"
+                type="number"
+                min={1}
+                max={7}
+                value={form.minSessions}
+                onChange={e => setForm(f => ({ ...f, minSessions: Math.min(7, Math.max(1, parseInt(e.target.value) || 1)) }))}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <Label>Pausen</Label>
+            <p className="text-xs text-muted-foreground">
+              Eingetragene Tage unterbrechen den Streak nicht und senken das Wochenziel anteilig.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="date"
+                aria-label="Von"
+                value={freeze.start_date}
+                onChange={e => setFreeze(f => ({ ...f, start_date: e.target.value, end_date: f.end_date < e.target.value ? e.target.value : f.end_date }))}
+              />
+              <Input
+                type="date"
+                aria-label="Bis"
+                value={freeze.end_date}
+                onChange={e => setFreeze(f => ({ ...f, end_date: e.target.value }))}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Select value={freeze.reason} onValueChange={v => setFreeze(f => ({ ...f, reason: v as FreezeReason }))}>
+                <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {FREEZE_REASONS.map(r => (
+                    <SelectItem key={r.key} value={r.key}>{r.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" disabled={saving || !canAddFreeze} onClick={handleAddFreeze}>
+                Eintragen
+              </Button>
+            </div>
+            {sortedFreezes.length > 0 && (
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {sortedFreezes.map(f => (
+                  <li key={f.record_id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {formatFreezeRange(f)}
+                      <span className="text-muted-foreground"> · {FREEZE_REASONS.find(r => r.key === f.fields.reason)?.label ?? '—'}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onDeleteFreeze(f)}
+                      className="w-7 h-7 flex items-center justify-center rounded-lg hover:bg-muted transition-colors"
+                      title="Löschen"
+                    >
+                      <IconTrash className="w-4 h-4 text-muted-foreground" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Abbrechen</Button>
+            <Button type="submit" disabled={!canSave}>Speichern</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
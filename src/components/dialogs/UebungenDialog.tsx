@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { Uebungen } from '@/types/app';
+import type { Uebungen } from '@/types/app-extensions';
 import { APP_IDS } from '@/types/app';
-import { extractRecordId, createRecordUrl, cleanFieldsForApi, getUserProfile } from '@/services/livingAppsService';
+import { extractRecordId, createRecordUrl, getUserProfile } from '@/services/livingAppsService';
+import { cleanRecordFields } from '@/services/recordFields';
 import {
   Dialog, DialogContent, DialogHeader,
   DialogTitle, DialogFooter,
@@ -11,13 +12,25 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
 import { IconArrowBigDownLinesFilled, IconCamera, IconCircleCheck, IconClipboard, IconFileText, IconLoader2, IconPhotoPlus, IconSparkles, IconUpload, IconX } from '@tabler/icons-react';
 import { fileToDataUri, extractFromInput, extractPhotoMeta, reverseGeocode } from '@/lib/ai';
+import { lookupKey, lookupKeys } from '@/lib/formatters';
+import { EQUIPMENT, MOVEMENT_PATTERNS, MUSCLE_GROUPS, TRACKING_TYPES, toLookupValue, toLookupValues, type ExerciseLookupField } from '@/lib/exercise-meta';
+import { ApiError, toErrorPayload, toSubmitError, type SubmitError } from '@/services/apiErrors';
+import { FieldError } from '@/components/FieldError';
+import { useErrorBus } from '@/components/ErrorBus';
+
+const FORM_FIELDS = ['name', 'created_at', 'primary_muscles', 'secondary_muscles', 'equipment', 'movement_pattern', 'tracking_type'] as const;
 
 interface UebungenDialogProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (fields: Uebungen['fields']) => Promise<void>;
+  /** Resolves to false when the save failed and has been reported; the dialog then stays open */
+  onSubmit: (fields: Uebungen['fields']) => Promise<boolean>;
   defaultValues?: Uebungen['fields'];
   enablePhotoScan?: boolean;
   enablePhotoLocation?: boolean;
@@ -26,6 +39,8 @@ interface UebungenDialogProps {
 export function UebungenDialog({ open, onClose, onSubmit, defaultValues, enablePhotoScan = true, enablePhotoLocation = true }: UebungenDialogProps) {
   const [fields, setFields] = useState<Partial<Uebungen['fields']>>({});
   const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState<SubmitError | null>(null);
+  const { emit } = useErrorBus();
   const [scanning, setScanning] = useState(false);
   const [scanSuccess, setScanSuccess] = useState(false);
   const [dragOver, setDragOver] = useState(false);
@@ -43,6 +58,7 @@ export function UebungenDialog({ open, onClose, onSubmit, defaultValues, enableP
   useEffect(() => {
     if (open) {
       setFields(defaultValues ?? {});
+      setSubmitError(null);
       setPreview(null);
       setScanSuccess(false);
       setAiText('');
@@ -68,15 +84,26 @@ export function UebungenDialog({ open, onClose, onSubmit, defaultValues, enableP
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setSaving(true);
+    setSubmitError(null);
     try {
-      const clean = cleanFieldsForApi({ ...fields }, 'uebungen');
-      await onSubmit(clean as Uebungen['fields']);
-      onClose();
+      const clean = cleanRecordFields({ ...fields }, 'uebungen');
+      if (await onSubmit(clean as Uebungen['fields'])) onClose();
+    } catch (error) {
+      // Refused input goes next to the field; anything else is ErrorBus's toast,
+      // which callApi already raised for API errors. Either way the dialog
+      // stays open with what was entered
+      const refused = toSubmitError(error, FORM_FIELDS);
+      if (refused) setSubmitError(refused);
+      else if (!(error instanceof ApiError)) emit(toErrorPayload(error));
     } finally {
       setSaving(false);
     }
   }
 
+  function fieldError(field: string) {
+    return submitError?.field === field ? submitError.message : null;
+  }
+
   async function handleAiExtract(file?: File) {
     if (!file && !aiText.trim()) return;
     setScanning(true);
@@ -113,7 +140,8 @@ export function UebungenDialog({ open, onClose, onSubmit, defaultValues, enableP
         }
       }
       const photoContext = contextParts.length ? contextParts.join('\n') : undefined;
-      const schema = `{\n  "name": string | null, // Übungsname\n  "created_at": string | null, // YYYY-MM-DD\n}`;
+      const keyList = (opts: { key: string }[]) => opts.map(o => `"${o.key}"`).join(' | ');
+      const schema = `{\n  "name": string | null, // Übungsname\n  "created_at": string | null, // YYYY-MM-DD\n  "primary_muscles": (${keyList(MUSCLE_GROUPS)})[] | null, // Primäre Muskelgruppen\n  "secondary_muscles": (${keyList(MUSCLE_GROUPS)})[] | null, // Sekundäre Muskelgruppen\n  "equipment": ${keyList(EQUIPMENT)} | null, // Equipment\n  "movement_pattern": ${keyList(MOVEMENT_PATTERNS)} | null, // Bewegungsmuster\n  "tracking_type": ${keyList(TRACKING_TYPES)} | null, // Erfassungsart\n}`;
       const raw = await extractFromInput<Record<string, unknown>>(schema, {
         dataUri: uri,
         userText: aiText.trim() || undefined,
@@ -126,8 +154,14 @@ export function UebungenDialog({ open, onClose, onSubmit, defaultValues, enableP
           const n = name.toLowerCase().trim();
           return candidates.some(c => c.toLowerCase().includes(n) || n.includes(c.toLowerCase()));
         }
+        const multiLookupKeys = new Set<string>(["primary_muscles", "secondary_muscles"]);
+        const lookupFieldKeys = new Set<string>(["equipment", "movement_pattern", "tracking_type"]);
         for (const [k, v] of Object.entries(raw)) {
-          if (v != null) merged[k] = v;
+          if (v == null) continue;
+          // The model answers with option keys; store them as {key, label} like the API does
+          if (multiLookupKeys.has(k)) merged[k] = toLookupValues(k as ExerciseLookupField, lookupKeys(v));
+          else if (lookupFieldKeys.has(k)) merged[k] = toLookupValue(k as ExerciseLookupField, String(v));
+          else merged[k] = v;
         }
         return merged as Partial<Uebungen['fields']>;
       });
@@ -365,7 +399,9 @@ export function UebungenDialog({ open, onClose, onSubmit, defaultValues, enableP
               id="name"
               value={fields.name ?? ''}
               onChange={e => setFields(f => ({ ...f, name: e.target.value }))}
+              aria-invalid={!!fieldError('name')}
             />
+            <FieldError message={fieldError('name')} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="created_at">Erstellt am</Label>
@@ -374,8 +410,63 @@ export function UebungenDialog({ open, onClose, onSubmit, defaultValues, enableP
               type="date"
               value={fields.created_at ?? ''}
               onChange={e => setFields(f => ({ ...f, created_at: e.target.value }))}
+              aria-invalid={!!fieldError('created_at')}
             />
+            <FieldError message={fieldError('created_at')} />
           </div>
+          {(['primary_muscles', 'secondary_muscles'] as const).map(field => (
+            <div key={field} className="space-y-2">
+              <Label>{field === 'primary_muscles' ? 'Primäre Muskelgruppen' : 'Sekundäre Muskelgruppen'}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {MUSCLE_GROUPS.map(o => {
+                  const selected = lookupKeys(fields[field]);
+                  return (
+                    <div key={o.key} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${field}_${o.key}`}
+                        checked={selected.includes(o.key)}
+                        onCheckedChange={checked => {
+                          const next = checked ? [...selected, o.key] : selected.filter(k => k !== o.key);
+                          setFields(f => ({ ...f, [field]: toLookupValues(field, next) }));
+                        }}
+                      />
+                      <Label htmlFor={`${field}_${o.key}`} className="font-normal">{o.label}</Label>
+                    </div>
+                  );
+                })}
+              </div>
+              <FieldError message={fieldError(field)} />
+            </div>
+          ))}
+          {([
+            { field: 'equipment', label: 'Equipment', options: EQUIPMENT },
+            { field: 'movement_pattern', label: 'Bewegungsmuster', options: MOVEMENT_PATTERNS },
+            { field: 'tracking_type', label: 'Erfassungsart', options: TRACKING_TYPES },
+          ] as const).map(({ field, label, options }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={field}>{label}</Label>
+              <Select
+                value={lookupKey(fields[field]) ?? 'none'}
+                onValueChange={v => setFields(f => ({ ...f, [field]: v === 'none' ? undefined : toLookupValue(field, v) }))}
+              >
+                <SelectTrigger id={field} className="w-full" aria-invalid={!!fieldError(field)}>
+                  <SelectValue placeholder="Auswählen..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">—</SelectItem>
+                  {options.map(o => (
+                    <SelectItem key={o.key} value={o.key}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldError(field)} />
+            </div>
+          ))}
+          {submitError && !submitError.field && (
+            <div className="text-sm text-destructive bg-destructive/10 rounded-lg p-3">
+              {submitError.message}
+            </div>
+          )}
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onClose}>Abbrechen</Button>
             <Button type="submit" disabled={saving}>
@@ -1,4 +1,4 @@
-import type { Uebungen } from '@/types/app';
+import type { Uebungen } from '@/types/app-extensions';
 import {
   Dialog, DialogContent, DialogHeader,
   DialogTitle,
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { IconPencil } from '@tabler/icons-react';
 import { format, parseISO } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { displayLookup, displayMultiLookup } from '@/lib/formatters';
 
 function formatDate(d?: string) {
   if (!d) return '—';
@@ -46,6 +47,26 @@ export function UebungenViewDialog({ open, onClose, record, onEdit }: UebungenVi
             <Label className="text-xs text-muted-foreground">Erstellt am</Label>
             <p className="text-sm">{formatDate(record.fields.created_at)}</p>
           </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Primäre Muskelgruppen</Label>
+            <p className="text-sm">{displayMultiLookup(record.fields.primary_muscles)}</p>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Sekundäre Muskelgruppen</Label>
+            <p className="text-sm">{displayMultiLookup(record.fields.secondary_muscles)}</p>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Equipment</Label>
+            <p className="text-sm">{displayLookup(record.fields.equipment)}</p>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Bewegungsmuster</Label>
+            <p className="text-sm">{displayLookup(record.fields.movement_pattern)}</p>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Erfassungsart</Label>
+            <p className="text-sm">{displayLookup(record.fields.tracking_type)}</p>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, type ReactNode } from 'react';
 import type { Action, FileAttachment } from '@/lib/actions-agent';
+import { invalidateAllQueries } from '@/services/recordCache';
 import { fetchActionsAndFiles, executeAction, deleteAction as deleteActionApi, deleteAppAttachment as deleteAppAttachmentApi, agentChat, downloadFile } from '@/lib/actions-agent';
 
 type Message = {
@@ -122,6 +123,8 @@ export function ActionsProvider({ children }: { children: ReactNode }) {
         setChatLoading(false);
         setRunningActionId(null);
         void refreshActions();
+        // The action may have changed records server-side
+        invalidateAllQueries();
         window.dispatchEvent(new Event('dashboard-refresh'));
       });
   }, [refreshActions]);
@@ -290,6 +293,7 @@ export function ActionsProvider({ children }: { children: ReactNode }) {
       chatLoadingRef.current = false;
       setChatLoading(false);
       void refreshActions();
+      invalidateAllQueries();
       window.dispatchEvent(new Event('dashboard-refresh'));
     }
   }, [messages, threadId, refreshActions]);
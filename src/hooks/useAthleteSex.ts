@@ -0,0 +1,6 @@
+import { usePreference } from '@/hooks/usePreference';
+import { ATHLETE_SEX_PREFERENCE, DEFAULT_SEX, type Sex } from '@/lib/strength-scores';
+
+export function useAthleteSex() {
+  return usePreference<Sex>(ATHLETE_SEX_PREFERENCE, DEFAULT_SEX);
+}
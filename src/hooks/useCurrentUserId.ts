@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import { currentUserId, USER_CHANGE_EVENT } from '@/services/currentUser';
+
+/** The signed-in user's id, updated when the session changes */
+export function useCurrentUserId(): string | null {
+  const [userId, setUserId] = useState(currentUserId);
+
+  useEffect(() => {
+    const handleChange = () => setUserId(currentUserId());
+    window.addEventListener(USER_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(USER_CHANGE_EVENT, handleChange);
+  }, []);
+
+  return userId;
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import type { Uebungen, PrEintraege } from '@/types/app';
+import type { Uebungen, PrEintraege } from '@/types/app-extensions';
+import { APP_IDS } from '@/types/app';
 import { LivingAppsService } from '@/services/livingAppsService';
+import { useQueryRefresh } from '@/hooks/useQueryRefresh';
 
 export function useDashboardData() {
   const [uebungen, setUebungen] = useState<Uebungen[]>([]);
@@ -27,23 +29,27 @@ export function useDashboardData() {
   useEffect(() => { fetchAll(); }, [fetchAll]);
 
   // Silent background refresh (no loading state change → no flicker)
-  useEffect(() => {
-    async function silentRefresh() {
-      try {
-        const [uebungenData, prEintraegeData] = await Promise.all([
-          LivingAppsService.getUebungen(),
-          LivingAppsService.getPrEintraege(),
-        ]);
-        setUebungen(uebungenData);
-        setPrEintraege(prEintraegeData);
-      } catch {
-        // silently ignore — stale data is better than no data
-      }
+  const silentRefresh = useCallback(async () => {
+    try {
+      const [uebungenData, prEintraegeData] = await Promise.all([
+        LivingAppsService.getUebungen(),
+        LivingAppsService.getPrEintraege(),
+      ]);
+      setUebungen(uebungenData);
+      setPrEintraege(prEintraegeData);
+    } catch {
+      // silently ignore — stale data is better than no data
     }
+  }, []);
+
+  useEffect(() => {
     function handleRefresh() { void silentRefresh(); }
     window.addEventListener('dashboard-refresh', handleRefresh);
     return () => window.removeEventListener('dashboard-refresh', handleRefresh);
-  }, []);
+  }, [silentRefresh]);
+
+  // Stale cache data is shown first; pick up the revalidated lists when they arrive
+  useQueryRefresh([APP_IDS.UEBUNGEN, APP_IDS.PR_EINTRAEGE], silentRefresh);
 
   const uebungenMap = useMemo(() => {
     const m = new Map<string, Uebungen>();
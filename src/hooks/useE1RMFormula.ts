@@ -0,0 +1,8 @@
+import { usePreference } from '@/hooks/usePreference';
+import { useCurrentUserId } from '@/hooks/useCurrentUserId';
+import { DEFAULT_E1RM_FORMULA, e1rmFormulaPreference, type E1RMFormula } from '@/lib/strength';
+
+export function useE1RMFormula() {
+  const userId = useCurrentUserId();
+  return usePreference<E1RMFormula>(e1rmFormulaPreference(userId), DEFAULT_E1RM_FORMULA);
+}
@@ -0,0 +1,6 @@
+import { usePreference } from '@/hooks/usePreference';
+import { DEFAULT_EFFORT_SCALE, EFFORT_SCALE_PREFERENCE, type EffortScale } from '@/lib/rpe';
+
+export function useEffortScale() {
+  return usePreference<EffortScale>(EFFORT_SCALE_PREFERENCE, DEFAULT_EFFORT_SCALE);
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { BodyweightEntry, CardioSession, Goal, StreakFreeze, WorkoutSession } from '@/types/local';
+import { LocalRecordService } from '@/services/localRecordService';
+import { USER_CHANGE_EVENT } from '@/services/currentUser';
+import { analyzeCardioPR } from '@/lib/cardio';
+
+interface LocalRecordsOptions {
+  /** Cardio records */
+  onCelebrate: () => void;
+}
+
+/**
+ * The records kept on this device — sessions, cardio, bodyweight, goals and
+ * streak freezes — with their save handlers. The lists load on mount and
+ * are read again after every change; failures are reported here.
+ */
+export function useLocalRecords({ onCelebrate }: LocalRecordsOptions) {
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [cardioSessions, setCardioSessions] = useState<CardioSession[]>([]);
+  const [bodyweightEntries, setBodyweightEntries] = useState<BodyweightEntry[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [streakFreezes, setStreakFreezes] = useState<StreakFreeze[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      const [workoutSessions, cardio, bodyweight, savedGoals, freezes] = await Promise.all([
+        LocalRecordService.getWorkoutSessions(),
+        LocalRecordService.getCardioSessions(),
+        LocalRecordService.getBodyweightEntries(),
+        LocalRecordService.getGoals(),
+        LocalRecordService.getStreakFreezes(),
+      ]);
+      setSessions(workoutSessions);
+      setCardioSessions(cardio);
+      setBodyweightEntries(bodyweight);
+      setGoals(savedGoals);
+      setStreakFreezes(freezes);
+    } catch (error) {
+      console.error('Error loading local records:', error);
+      toast.error('Fehler beim Laden der Daten');
+    }
+  }, []);
+
+  useEffect(() => {
+    function handleChange() { void reload(); }
+    handleChange();
+    // Another user means other records
+    window.addEventListener(USER_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(USER_CHANGE_EVENT, handleChange);
+  }, [reload]);
+
+  async function reloadSessions() {
+    setSessions(await LocalRecordService.getWorkoutSessions());
+  }
+
+  async function reloadGoals() {
+    setGoals(await LocalRecordService.getGoals());
+  }
+
+  async function addCardioSession(fields: CardioSession['fields']) {
+    try {
+      const analysis = analyzeCardioPR(fields, cardioSessions);
+      await LocalRecordService.createCardioSessionEntry(fields);
+      const prTypes: string[] = [];
+      if (analysis.isDistancePR) prTypes.push('Distanz-PR');
+      if (analysis.isPacePR) prTypes.push('Tempo-PR');
+      analysis.benchmarkPRs.forEach((label) => prTypes.push(`${label}-PR`));
+
+      // The first session of an activity is trivially a record — only celebrate real improvements
+      const isFirst = !cardioSessions.some((c) => c.fields.activity === fields.activity);
+      if (prTypes.length > 0 && !isFirst) {
+        onCelebrate();
+        toast.success(`Neuer ${prTypes.join(' + ')}! 🎉`);
+      } else {
+        toast.success('Eingetragen!');
+      }
+      setCardioSessions(await LocalRecordService.getCardioSessions());
+    } catch (error) {
+      console.error('Error creating cardio session:', error);
+      toast.error('Fehler beim Speichern');
+    }
+  }
+
+  async function addBodyweightEntry(fields: BodyweightEntry['fields']) {
+    try {
+      await LocalRecordService.createBodyweightEntry(fields);
+      toast.success('Eingetragen!');
+      setBodyweightEntries(await LocalRecordService.getBodyweightEntries());
+    } catch (error) {
+      console.error('Error creating bodyweight entry:', error);
+      toast.error('Fehler beim Speichern');
+    }
+  }
+
+  async function deleteBodyweightEntry(entry: BodyweightEntry) {
+    try {
+      await LocalRecordService.deleteBodyweightEntry(entry.record_id);
+      setBodyweightEntries(await LocalRecordService.getBodyweightEntries());
+    } catch (error) {
+      console.error('Error deleting bodyweight entry:', error);
+      toast.error('Fehler beim Löschen');
+    }
+  }
+
+  /** Updates `goal`, or creates a new one without it */
+  async function saveGoal(goal: Goal | null, fields: Goal['fields']) {
+    try {
+      if (goal) {
+        await LocalRecordService.updateGoalEntry(goal.record_id, fields);
+      } else {
+        await LocalRecordService.createGoalEntry(fields);
+      }
+      toast.success(goal ? 'Ziel gespeichert' : 'Ziel angelegt');
+      setGoals(await LocalRecordService.getGoals());
+    } catch (error) {
+      console.error('Error saving goal:', error);
+      toast.error('Fehler beim Speichern');
+    }
+  }
+
+  async function deleteGoal(goal: Goal) {
+    try {
+      await LocalRecordService.deleteGoalEntry(goal.record_id);
+      setGoals(await LocalRecordService.getGoals());
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+      toast.error('Fehler beim Löschen');
+    }
+  }
+
+  async function addStreakFreeze(fields: StreakFreeze['fields']) {
+    try {
+      await LocalRecordService.createStreakFreeze(fields);
+      setStreakFreezes(await LocalRecordService.getStreakFreezes());
+    } catch (error) {
+      console.error('Error creating streak freeze:', error);
+      toast.error('Fehler beim Speichern');
+    }
+  }
+
+  async function deleteStreakFreeze(freeze: StreakFreeze) {
+    try {
+      await LocalRecordService.deleteStreakFreeze(freeze.record_id);
+      setStreakFreezes(await LocalRecordService.getStreakFreezes());
+    } catch (error) {
+      console.error('Error deleting streak freeze:', error);
+      toast.error('Fehler beim Löschen');
+    }
+  }
+
+  return {
+    sessions,
+    cardioSessions,
+    bodyweightEntries,
+    goals,
+    streakFreezes,
+    reloadSessions,
+    reloadGoals,
+    addCardioSession,
+    addBodyweightEntry,
+    deleteBodyweightEntry,
+    saveGoal,
+    deleteGoal,
+    addStreakFreeze,
+    deleteStreakFreeze,
+  };
+}
@@ -0,0 +1,132 @@
+import { useMemo, type Dispatch, type SetStateAction } from 'react';
+import { toast } from 'sonner';
+import { ApiError, NetworkError, ValidationError, validationMessage } from '@/services/apiErrors';
+
+interface ListRecord {
+  record_id: string;
+  createdat: string;
+  updatedat: string | null;
+  fields: object;
+}
+
+let placeholderCount = 0;
+
+export type OptimisticList<T extends ListRecord> = ReturnType<typeof useOptimisticList<T>>;
+
+/**
+ * Create/update/delete helpers for a record list held in state. Each change
+ * shows up in the list right away; the service call runs afterwards and a
+ * failure puts the affected records back and shows an error toast. Service
+ * calls of one list run one after another, also across separate calls, so
+ * the server sees them in the order they were made.
+ *
+ * create and update rethrow a ValidationError after the rollback instead, so
+ * the form that sent the fields can point at the one the server refused.
+ * remove never rejects.
+ */
+export function useOptimisticList<T extends ListRecord>(setRecords: Dispatch<SetStateAction<T[]>>) {
+  return useMemo(() => {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    function enqueue<R>(task: () => Promise<R>): Promise<R> {
+      const run = queue.then(task);
+      queue = run.catch(() => undefined);
+      return run;
+    }
+
+    function report(error: unknown, message: string) {
+      console.error(message, error);
+      if (error instanceof ValidationError) {
+        toast.error(message, { description: validationMessage(error) });
+      } else if (!(error instanceof ApiError) || error instanceof NetworkError) {
+        // Other server errors have already been reported through ErrorBus
+        toast.error(message);
+      }
+    }
+
+    function fail(error: unknown, message: string) {
+      if (error instanceof ValidationError) throw error;
+      report(error, message);
+    }
+
+    /** Resolves to the server ids of the new records, null where a create failed */
+    function create(
+      fieldsList: T['fields'][],
+      send: (fields: T['fields']) => Promise<{ id?: string } | undefined>,
+    ): Promise<(string | null)[]> {
+      const now = new Date().toISOString();
+      const placeholders = fieldsList.map(fields => ({
+        record_id: `optimistic-${++placeholderCount}`,
+        createdat: now,
+        updatedat: null,
+        fields,
+      }) as T);
+      setRecords(prev => [...prev, ...placeholders]);
+
+      return enqueue(async () => {
+        const ids: (string | null)[] = [];
+        let failed: unknown = null;
+        for (const placeholder of placeholders) {
+          try {
+            const result = await send(placeholder.fields);
+            const id = result?.id ?? placeholder.record_id;
+            setRecords(prev => prev.map(r => (r.record_id === placeholder.record_id ? { ...r, record_id: id } : r)));
+            ids.push(id);
+          } catch (error) {
+            setRecords(prev => prev.filter(r => r.record_id !== placeholder.record_id));
+            failed ??= error;
+            ids.push(null);
+          }
+        }
+        if (failed) fail(failed, 'Speichern fehlgeschlagen');
+        return ids;
+      });
+    }
+
+    /** Resolves to false when at least one update was rolled back */
+    function update(
+      records: T[],
+      fields: Partial<T['fields']>,
+      send: (id: string, fields: Partial<T['fields']>) => Promise<unknown>,
+    ): Promise<boolean> {
+      const ids = new Set(records.map(r => r.record_id));
+      setRecords(prev => prev.map(r => (ids.has(r.record_id) ? { ...r, fields: { ...r.fields, ...fields } } : r)));
+
+      return enqueue(async () => {
+        let failed: unknown = null;
+        for (const record of records) {
+          try {
+            await send(record.record_id, fields);
+          } catch (error) {
+            setRecords(prev => prev.map(r => (r.record_id === record.record_id ? record : r)));
+            failed ??= error;
+          }
+        }
+        if (failed) fail(failed, 'Speichern fehlgeschlagen');
+        return !failed;
+      });
+    }
+
+    /** Resolves to false when at least one record had to be restored */
+    function remove(records: T[], send: (id: string) => Promise<unknown>): Promise<boolean> {
+      const ids = new Set(records.map(r => r.record_id));
+      setRecords(prev => prev.filter(r => !ids.has(r.record_id)));
+
+      return enqueue(async () => {
+        let failed: unknown = null;
+        for (const record of records) {
+          try {
+            await send(record.record_id);
+          } catch (error) {
+            setRecords(prev => (prev.some(r => r.record_id === record.record_id) ? prev : [...prev, record]));
+            failed ??= error;
+          }
+        }
+        if (failed) report(failed, 'Löschen fehlgeschlagen');
+        return !failed;
+      });
+    }
+
+    return { create, update, remove };
+  }, [setRecords]);
+}
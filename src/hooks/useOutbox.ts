@@ -0,0 +1,33 @@
+import { useState, useEffect, useMemo } from 'react';
+import { listOutbox, pendingRecordIds, OUTBOX_EVENT, type OutboxOperation } from '@/services/outbox';
+import { USER_CHANGE_EVENT } from '@/services/currentUser';
+
+/** Queued offline writes and the browser's connectivity, kept live */
+export function useOutbox(): { operations: OutboxOperation[]; online: boolean } {
+  const [operations, setOperations] = useState<OutboxOperation[]>(listOutbox);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const handleChange = () => setOperations(listOutbox());
+    const handleConnectivity = () => setOnline(navigator.onLine);
+    window.addEventListener(OUTBOX_EVENT, handleChange);
+    // Another user means another queue
+    window.addEventListener(USER_CHANGE_EVENT, handleChange);
+    window.addEventListener('online', handleConnectivity);
+    window.addEventListener('offline', handleConnectivity);
+    return () => {
+      window.removeEventListener(OUTBOX_EVENT, handleChange);
+      window.removeEventListener(USER_CHANGE_EVENT, handleChange);
+      window.removeEventListener('online', handleConnectivity);
+      window.removeEventListener('offline', handleConnectivity);
+    };
+  }, []);
+
+  return { operations, online };
+}
+
+/** Ids of records in `appId` with unsent changes */
+export function usePendingRecordIds(appId: string): Set<string> {
+  const { operations } = useOutbox();
+  return useMemo(() => pendingRecordIds(appId, operations), [appId, operations]);
+}
@@ -0,0 +1,8 @@
+import { usePreference } from '@/hooks/usePreference';
+import { useCurrentUserId } from '@/hooks/useCurrentUserId';
+import { DEFAULT_PLATE_INVENTORY, plateInventoryPreference, type PlateInventory } from '@/lib/plates';
+
+export function usePlateInventory() {
+  const userId = useCurrentUserId();
+  return usePreference<PlateInventory>(plateInventoryPreference(userId), DEFAULT_PLATE_INVENTORY);
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { PrEintraege } from '@/types/app-extensions';
+import { APP_IDS } from '@/types/app';
+import type { BodyweightEntry, Goal, WorkoutSession } from '@/types/local';
+import { LivingAppsService, createRecordUrl } from '@/services/livingAppsService';
+import { LocalRecordService } from '@/services/localRecordService';
+import { ValidationError, validationMessage } from '@/services/apiErrors';
+import { useE1RMFormula } from '@/hooks/useE1RMFormula';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import type { OptimisticList } from '@/hooks/useOptimisticList';
+import { evaluateAchievements, newlyUnlocked, type AchievementStatus } from '@/lib/achievements';
+import { formatGoalValue, goalMetricLabel } from '@/lib/goals';
+import { serializeSets } from '@/lib/sets';
+import { summarizeTrackedSets, type TrackingType } from '@/lib/tracking';
+import { analyzePR, prLabels } from '@/lib/pr-analysis';
+import { rowsMissingInput, rowsToSets, type PRFormData } from '@/lib/set-rows';
+import type { ExerciseWithPRs } from '@/lib/exercise-history';
+
+interface PrSubmitOptions {
+  exercises: ExerciseWithPRs[];
+  entries: PrEintraege[];
+  goals: Goal[];
+  bodyweightEntries: BodyweightEntry[];
+  /** Current state, to tell which achievements the new entry unlocks */
+  achievements: AchievementStatus[];
+  activeSession: WorkoutSession | null;
+  optimisticEntries: OptimisticList<PrEintraege>;
+  /** Records, reached goals or unlocked achievements */
+  onCelebrate: () => void;
+}
+
+/**
+ * Saves the PR sheet. The entry is listed right away, but nothing is
+ * celebrated and no goal is marked reached until the server has it.
+ */
+export function usePrSubmit({
+  exercises,
+  entries,
+  goals,
+  bodyweightEntries,
+  achievements,
+  activeSession,
+  optimisticEntries,
+  onCelebrate,
+}: PrSubmitOptions) {
+  const [saving, setSaving] = useState(false);
+  const [unit] = useWeightUnit();
+  const [formula] = useE1RMFormula();
+
+  /** Resolves to true once the entry is saved; on false the form should keep its input */
+  async function submit(form: PRFormData, tracking: TrackingType): Promise<boolean> {
+    if (!form.exercise_id || rowsMissingInput(form.sets, tracking)) {
+      toast.error('Bitte fülle alle Pflichtfelder aus');
+      return false;
+    }
+
+    try {
+      const newSets = rowsToSets(form.sets, unit, tracking);
+      const exercise = exercises.find((ex) => ex.record_id === form.exercise_id);
+      const prAnalysis = exercise
+        ? analyzePR(newSets, exercise.prs, formula, tracking, goals.filter((g) => g.fields.exercise_id === form.exercise_id))
+        : null;
+
+      const data: PrEintraege['fields'] = {
+        exercise_id: createRecordUrl(APP_IDS.UEBUNGEN, form.exercise_id),
+        date: form.date,
+        ...summarizeTrackedSets(newSets, tracking),
+        set_details: serializeSets(newSets),
+        note: form.note || undefined,
+      };
+
+      setSaving(true);
+      const [createdId] = await optimisticEntries.create([data], (fields) => LivingAppsService.createPrEintraegeEntry(fields));
+      if (!createdId) return false;
+      if (activeSession) await LocalRecordService.addWorkoutEntryId(activeSession.record_id, createdId);
+
+      // Replay the history with the new entry to find milestones it unlocks
+      const unlocked = newlyUnlocked(
+        achievements,
+        evaluateAchievements({
+          entries: [...entries, { record_id: 'new', createdat: new Date().toISOString(), updatedat: null, fields: data }],
+          exercises,
+          bodyweight: bodyweightEntries,
+        })
+      );
+
+      if (prAnalysis) {
+        const prTypes = prLabels(prAnalysis);
+        if (prTypes.length > 0 || prAnalysis.goalsReached.length > 0 || unlocked.length > 0) onCelebrate();
+        if (prTypes.length > 0) {
+          toast.success(`Neuer ${prTypes.join(' + ')}! 🎉`);
+        } else if (prAnalysis.goalsReached.length === 0 && unlocked.length === 0) {
+          toast.success('Eingetragen!');
+        }
+        prAnalysis.goalsReached.forEach((goal) => {
+          toast.success(`Ziel erreicht: ${goalMetricLabel(goal.fields.metric)} ${formatGoalValue(goal.fields.target_value ?? 0, goal.fields.metric, unit)}! 🏆`);
+        });
+      } else {
+        toast.success('Eingetragen!');
+      }
+      unlocked.forEach(({ definition }) => {
+        toast.success(`${definition.emoji} Erfolg freigeschaltet: ${definition.title}`, { description: definition.description });
+      });
+
+      for (const goal of prAnalysis?.goalsReached ?? []) {
+        await LocalRecordService.updateGoalEntry(goal.record_id, { achieved_at: form.date });
+      }
+      return true;
+    } catch (error) {
+      console.error('Error creating PR:', error);
+      toast.error('Fehler beim Speichern', error instanceof ValidationError ? { description: validationMessage(error) } : undefined);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return { saving, submit };
+}
@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback } from 'react';
+import { readPreference, writePreference, PREFERENCE_EVENT } from '@/lib/preferences';
+
+/** `fallback` should be a constant or primitive; a new object each render resubscribes every time */
+export function usePreference<T>(key: string, fallback: T): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => readPreference(key, fallback));
+  const [readKey, setReadKey] = useState(key);
+
+  // A different key, e.g. after the user changed, has its own stored value
+  if (readKey !== key) {
+    setReadKey(key);
+    setValue(readPreference(key, fallback));
+  }
+
+  // Keep every consumer of the same key in sync
+  useEffect(() => {
+    function handleChange(e: Event) {
+      if ((e as CustomEvent<{ key: string }>).detail?.key === key) {
+        setValue(readPreference(key, fallback));
+      }
+    }
+    window.addEventListener(PREFERENCE_EVENT, handleChange);
+    return () => window.removeEventListener(PREFERENCE_EVENT, handleChange);
+  }, [key, fallback]);
+
+  const update = useCallback((next: T) => {
+    setValue(next);
+    writePreference(key, next);
+  }, [key]);
+
+  return [value, update];
+}
@@ -0,0 +1,11 @@
+import { usePreference } from '@/hooks/usePreference';
+import { useCurrentUserId } from '@/hooks/useCurrentUserId';
+import { progressionRulesPreference, type ProgressionRule } from '@/lib/progression';
+
+const NO_RULES: Record<string, ProgressionRule> = {};
+
+/** Progression rule per exercise id; exercises without one use the default rule */
+export function useProgressionRules() {
+  const userId = useCurrentUserId();
+  return usePreference(progressionRulesPreference(userId), NO_RULES);
+}
@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+import { subscribeQuery } from '@/services/recordCache';
+
+/** Calls `onRefresh` whenever fresh data for one of `keys` lands in the record cache */
+export function useQueryRefresh(keys: string[], onRefresh: () => void) {
+  const callback = useRef(onRefresh);
+  const joined = keys.join('|');
+
+  useEffect(() => {
+    callback.current = onRefresh;
+  });
+
+  useEffect(() => {
+    const unsubscribers = joined.split('|').map(key => subscribeQuery(key, () => callback.current()));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [joined]);
+}
@@ -0,0 +1,6 @@
+import { usePreference } from '@/hooks/usePreference';
+import { DEFAULT_STREAK_DEFINITION, STREAK_DEFINITION_PREFERENCE, type StreakDefinition } from '@/lib/streaks';
+
+export function useStreakDefinition() {
+  return usePreference<StreakDefinition>(STREAK_DEFINITION_PREFERENCE, DEFAULT_STREAK_DEFINITION);
+}
@@ -0,0 +1,6 @@
+import { usePreference } from '@/hooks/usePreference';
+import { DEFAULT_VOLUME_TARGETS, VOLUME_TARGETS_PREFERENCE, type VolumeTargets } from '@/lib/muscle-volume';
+
+export function useVolumeTargets() {
+  return usePreference<VolumeTargets>(VOLUME_TARGETS_PREFERENCE, DEFAULT_VOLUME_TARGETS);
+}
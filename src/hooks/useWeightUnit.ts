@@ -0,0 +1,8 @@
+import { usePreference } from '@/hooks/usePreference';
+import { useCurrentUserId } from '@/hooks/useCurrentUserId';
+import { DEFAULT_WEIGHT_UNIT, weightUnitPreference, type WeightUnit } from '@/lib/units';
+
+export function useWeightUnit() {
+  const userId = useCurrentUserId();
+  return usePreference<WeightUnit>(weightUnitPreference(userId), DEFAULT_WEIGHT_UNIT);
+}
@@ -0,0 +1,191 @@
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import type { BodyweightEntry } from '@/types/local';
+import { extractRecordId } from '@/services/livingAppsService';
+import { countedSets, getEntrySets, setsVolume } from '@/lib/sets';
+import { bodyweightOn } from '@/lib/bodyweight';
+import { mainLift, type MainLift } from '@/lib/strength-scores';
+import { streakPeriods } from '@/lib/streaks';
+
+export type AchievementCategory = 'meilensteine' | 'kraft' | 'konstanz' | 'volumen';
+
+export const ACHIEVEMENT_CATEGORIES: { key: AchievementCategory; label: string }[] = [
+  { key: 'meilensteine', label: 'Meilensteine' },
+  { key: 'kraft', label: 'Kraft' },
+  { key: 'konstanz', label: 'Konstanz' },
+  { key: 'volumen', label: 'Volumen' },
+];
+
+/** Everything an achievement may be judged on; entries in any order */
+export interface AchievementContext {
+  entries: PrEintraege[];
+  exercises: Uebungen[];
+  bodyweight: BodyweightEntry[];
+}
+
+/** `value` of `target`; `achievedAt` is the date of the entry that crossed the threshold */
+export interface AchievementProgress {
+  value: number;
+  achievedAt?: string;
+}
+
+export interface AchievementDefinition {
+  key: string;
+  title: string;
+  description: string;
+  category: AchievementCategory;
+  emoji: string;
+  target: number;
+  /** Formats progress values, e.g. as tonnes */
+  formatValue?: (value: number) => string;
+  evaluate: (history: AchievementHistory) => AchievementProgress;
+}
+
+export interface AchievementStatus {
+  definition: AchievementDefinition;
+  progress: AchievementProgress;
+  unlocked: boolean;
+}
+
+interface DatedEntry {
+  date: string;
+  exerciseId: string;
+  lift: MainLift | null;
+  entry: PrEintraege;
+}
+
+/** Dated entries oldest first, with the lookups the definitions need */
+export interface AchievementHistory {
+  entries: DatedEntry[];
+  bodyweight: BodyweightEntry[];
+}
+
+function buildHistory(ctx: AchievementContext): AchievementHistory {
+  const exercises = new Map(ctx.exercises.map(ex => [ex.record_id, ex]));
+  const entries = ctx.entries
+    .filter(e => e.fields.date)
+    .map(e => {
+      const exerciseId = extractRecordId(e.fields.exercise_id) ?? '';
+      return { date: e.fields.date!.slice(0, 10), exerciseId, lift: mainLift(exercises.get(exerciseId)), entry: e };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { entries, bodyweight: ctx.bodyweight };
+}
+
+function heaviestSet(entry: PrEintraege): number {
+  return Math.max(0, ...countedSets(getEntrySets(entry)).map(s => s.weight_kg));
+}
+
+/** Running total over the history; unlocked on the entry that pushes it past `target` */
+function cumulative(target: number, amount: (e: DatedEntry) => number) {
+  return (history: AchievementHistory): AchievementProgress => {
+    let value = 0;
+    let achievedAt: string | undefined;
+    for (const e of history.entries) {
+      value += amount(e);
+      if (!achievedAt && value >= target) achievedAt = e.date;
+    }
+    return { value, achievedAt };
+  };
+}
+
+/** Best single value over the history; unlocked on the first entry reaching `target` */
+function best(target: number, amount: (e: DatedEntry, history: AchievementHistory) => number) {
+  return (history: AchievementHistory): AchievementProgress => {
+    let value = 0;
+    let achievedAt: string | undefined;
+    for (const e of history.entries) {
+      const v = amount(e, history);
+      value = Math.max(value, v);
+      if (!achievedAt && v >= target) achievedAt = e.date;
+    }
+    return { value, achievedAt };
+  };
+}
+
+/** Longest run of consecutive ISO weeks with at least one entry */
+function weekStreak(target: number) {
+  return (history: AchievementHistory): AchievementProgress => {
+    const days = Array.from(new Set(history.entries.map(e => e.date)));
+    const periods = streakPeriods(days, { kind: 'weekly', minSessions: 1 });
+    const longest = Math.max(0, ...periods.map(p => p.run));
+    const achievedAt = periods.find(p => p.run >= target)?.hitOn;
+    return { value: longest, achievedAt };
+  };
+}
+
+/** Heaviest set of `lift` as a multiple of the bodyweight logged closest before it */
+function bodyweightMultiple(lift: MainLift) {
+  return (e: DatedEntry, history: AchievementHistory): number => {
+    if (e.lift !== lift) return 0;
+    const bw = bodyweightOn(history.bodyweight, e.date);
+    return bw ? heaviestSet(e.entry) / bw : 0;
+  };
+}
+
+/** Sum of the best squat, bench and deadlift so far, for the 1000-lb club */
+function powerliftingTotal(target: number) {
+  return (history: AchievementHistory): AchievementProgress => {
+    const bests: Partial<Record<MainLift, number>> = {};
+    let value = 0;
+    let achievedAt: string | undefined;
+    for (const e of history.entries) {
+      if (e.lift !== 'kniebeuge' && e.lift !== 'bankdruecken' && e.lift !== 'kreuzheben') continue;
+      bests[e.lift] = Math.max(bests[e.lift] ?? 0, heaviestSet(e.entry));
+      value = (bests.kniebeuge ?? 0) + (bests.bankdruecken ?? 0) + (bests.kreuzheben ?? 0);
+      if (!achievedAt && value >= target) achievedAt = e.date;
+    }
+    return { value, achievedAt };
+  };
+}
+
+function distinctExercises(target: number) {
+  return (history: AchievementHistory): AchievementProgress => {
+    const seen = new Set<string>();
+    let achievedAt: string | undefined;
+    for (const e of history.entries) {
+      seen.add(e.exerciseId);
+      if (!achievedAt && seen.size >= target) achievedAt = e.date;
+    }
+    return { value: seen.size, achievedAt };
+  };
+}
+
+const formatKg = (value: number) => `${Math.round(value).toLocaleString('de-DE')} kg`;
+const formatTonnes = (value: number) => `${(value / 1000).toLocaleString('de-DE', { maximumFractionDigits: 1 })} t`;
+const formatMultiple = (value: number) => `${value.toLocaleString('de-DE', { maximumFractionDigits: 2 })}×`;
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { key: 'first_entry', title: 'Der Anfang', description: 'Ersten Eintrag gespeichert', category: 'meilensteine', emoji: '🌱', target: 1, evaluate: cumulative(1, () => 1) },
+  { key: 'entries_100', title: 'Hundert', description: '100 Einträge', category: 'meilensteine', emoji: '💯', target: 100, evaluate: cumulative(100, () => 1) },
+  { key: 'entries_1000', title: 'Tausend', description: '1.000 Einträge', category: 'meilensteine', emoji: '🏛️', target: 1000, evaluate: cumulative(1000, () => 1) },
+  { key: 'variety_10', title: 'Allrounder', description: '10 verschiedene Übungen trainiert', category: 'meilensteine', emoji: '🧭', target: 10, evaluate: distinctExercises(10) },
+  { key: 'lift_100', title: 'Dreistellig', description: 'Erster Satz mit 100 kg', category: 'kraft', emoji: '🏋️', target: 100, formatValue: formatKg, evaluate: best(100, e => heaviestSet(e.entry)) },
+  { key: 'lift_200', title: 'Doppelzentner', description: 'Erster Satz mit 200 kg', category: 'kraft', emoji: '🦍', target: 200, formatValue: formatKg, evaluate: best(200, e => heaviestSet(e.entry)) },
+  { key: 'bw_bench', title: 'Eigengewicht gedrückt', description: 'Bankdrücken mit dem eigenen Körpergewicht', category: 'kraft', emoji: '🛋️', target: 1, formatValue: formatMultiple, evaluate: best(1, bodyweightMultiple('bankdruecken')) },
+  { key: 'bw_squat', title: 'Anderthalb', description: 'Kniebeuge mit dem 1,5-fachen Körpergewicht', category: 'kraft', emoji: '🦵', target: 1.5, formatValue: formatMultiple, evaluate: best(1.5, bodyweightMultiple('kniebeuge')) },
+  { key: 'bw_deadlift', title: 'Doppeltes Gewicht', description: 'Kreuzheben mit dem doppelten Körpergewicht', category: 'kraft', emoji: '⚓', target: 2, formatValue: formatMultiple, evaluate: best(2, bodyweightMultiple('kreuzheben')) },
+  { key: 'club_1000lb', title: '1000-lb-Club', description: 'Kniebeuge, Bankdrücken und Kreuzheben zusammen 453,6 kg', category: 'kraft', emoji: '🎖️', target: 453.6, formatValue: formatKg, evaluate: powerliftingTotal(453.6) },
+  { key: 'streak_4', title: 'Dranbleiben', description: '4 Wochen in Folge trainiert', category: 'konstanz', emoji: '🔥', target: 4, evaluate: weekStreak(4) },
+  { key: 'streak_10', title: 'Gewohnheit', description: '10 Wochen in Folge trainiert', category: 'konstanz', emoji: '📅', target: 10, evaluate: weekStreak(10) },
+  { key: 'streak_26', title: 'Halbes Jahr', description: '26 Wochen in Folge trainiert', category: 'konstanz', emoji: '🗓️', target: 26, evaluate: weekStreak(26) },
+  { key: 'tonnage_100k', title: '100 Tonnen', description: '100.000 kg Gesamttonnage', category: 'volumen', emoji: '🚛', target: 100_000, formatValue: formatTonnes, evaluate: cumulative(100_000, e => setsVolume(getEntrySets(e.entry))) },
+  { key: 'tonnage_1m', title: 'Millionär', description: '1.000.000 kg Gesamttonnage', category: 'volumen', emoji: '🏔️', target: 1_000_000, formatValue: formatTonnes, evaluate: cumulative(1_000_000, e => setsVolume(getEntrySets(e.entry))) },
+];
+
+export function evaluateAchievements(ctx: AchievementContext): AchievementStatus[] {
+  const history = buildHistory(ctx);
+  return ACHIEVEMENTS.map(definition => {
+    const progress = definition.evaluate(history);
+    return { definition, progress, unlocked: !!progress.achievedAt };
+  });
+}
+
+/** Achievements unlocked in `after` but not in `before` */
+export function newlyUnlocked(before: AchievementStatus[], after: AchievementStatus[]): AchievementStatus[] {
+  const unlockedBefore = new Set(before.filter(s => s.unlocked).map(s => s.definition.key));
+  return after.filter(s => s.unlocked && !unlockedBefore.has(s.definition.key));
+}
+
+export function formatAchievementValue(definition: AchievementDefinition, value: number): string {
+  return definition.formatValue ? definition.formatValue(value) : Math.floor(value).toLocaleString('de-DE');
+}
@@ -0,0 +1,60 @@
+import type { BodyweightEntry } from '@/types/local';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+/** Days the trailing average spans; smooths out water and glycogen swings */
+export const BODYWEIGHT_AVERAGE_DAYS = 7;
+
+export interface BodyweightPoint {
+  date: string;
+  weight_kg: number;
+  body_fat_percent?: number;
+  /** Mean of all weigh-ins within the trailing window, this one included */
+  average_kg: number;
+}
+
+/** Weigh-ins with date and weight, oldest first */
+export function sortedBodyweight(entries: BodyweightEntry[]): BodyweightEntry[] {
+  return entries
+    .filter(e => e.fields.date && e.fields.weight_kg)
+    .sort((a, b) => a.fields.date!.localeCompare(b.fields.date!));
+}
+
+export function bodyweightTrend(entries: BodyweightEntry[], windowDays = BODYWEIGHT_AVERAGE_DAYS): BodyweightPoint[] {
+  const sorted = sortedBodyweight(entries);
+  return sorted.map((entry, idx) => {
+    const day = parseISO(entry.fields.date!);
+    const window = sorted
+      .slice(0, idx + 1)
+      .filter(e => differenceInCalendarDays(day, parseISO(e.fields.date!)) < windowDays);
+    const average = window.reduce((sum, e) => sum + e.fields.weight_kg!, 0) / window.length;
+    return {
+      date: entry.fields.date!,
+      weight_kg: entry.fields.weight_kg!,
+      body_fat_percent: entry.fields.body_fat_percent,
+      average_kg: Math.round(average * 10) / 10,
+    };
+  });
+}
+
+/**
+ * Bodyweight on a given day: the last weigh-in on or before it, otherwise the
+ * first one after it. Null without any weigh-ins.
+ */
+export function bodyweightOn(entries: BodyweightEntry[], date: string | undefined): number | null {
+  const sorted = sortedBodyweight(entries);
+  if (sorted.length === 0) return null;
+  if (!date) return sorted[sorted.length - 1].fields.weight_kg!;
+  const day = date.slice(0, 10);
+  const before = sorted.filter(e => e.fields.date! <= day);
+  return (before.length > 0 ? before[before.length - 1] : sorted[0]).fields.weight_kg!;
+}
+
+/** Change of the trailing average over the last `days` days, null with too little data */
+export function bodyweightChange(trend: BodyweightPoint[], days: number): number | null {
+  if (trend.length < 2) return null;
+  const latest = trend[trend.length - 1];
+  const latestDay = parseISO(latest.date);
+  const reference = trend.filter(p => differenceInCalendarDays(latestDay, parseISO(p.date)) >= days).pop();
+  if (!reference) return null;
+  return Math.round((latest.average_kg - reference.average_kg) * 10) / 10;
+}
@@ -0,0 +1,141 @@
+import type { CardioSession } from '@/types/local';
+import { formatDistance, formatDuration } from '@/lib/tracking';
+
+export type CardioActivity = 'laufen' | 'rudern' | 'radfahren';
+
+export interface CardioActivityMeta {
+  key: CardioActivity;
+  label: string;
+  /** Distance the pace refers to: per km for running/cycling, per 500 m on the rower */
+  paceDistance: number;
+  /** Distances with a fastest-time record */
+  benchmarks: { distance: number; label: string }[];
+}
+
+export const CARDIO_ACTIVITIES: CardioActivityMeta[] = [
+  {
+    key: 'laufen',
+    label: 'Laufen',
+    paceDistance: 1000,
+    benchmarks: [
+      { distance: 1000, label: '1 km' },
+      { distance: 5000, label: '5 km' },
+      { distance: 10000, label: '10 km' },
+      { distance: 21097, label: 'Halbmarathon' },
+      { distance: 42195, label: 'Marathon' },
+    ],
+  },
+  {
+    key: 'rudern',
+    label: 'Rudern',
+    paceDistance: 500,
+    benchmarks: [
+      { distance: 500, label: '500 m' },
+      { distance: 2000, label: '2 km' },
+      { distance: 5000, label: '5 km' },
+      { distance: 10000, label: '10 km' },
+    ],
+  },
+  {
+    key: 'radfahren',
+    label: 'Radfahren',
+    paceDistance: 1000,
+    benchmarks: [
+      { distance: 10000, label: '10 km' },
+      { distance: 20000, label: '20 km' },
+      { distance: 40000, label: '40 km' },
+    ],
+  },
+];
+
+/** A session counts towards a benchmark if it is at most this much longer */
+const BENCHMARK_TOLERANCE = 0.05;
+
+export function cardioActivityMeta(activity: CardioActivity | undefined): CardioActivityMeta {
+  return CARDIO_ACTIVITIES.find(a => a.key === activity) ?? CARDIO_ACTIVITIES[0];
+}
+
+/** Seconds per pace distance (per km or per 500 m), null without distance or duration */
+export function cardioPace(session: CardioSession['fields']): number | null {
+  const { duration_seconds, distance_m } = session;
+  if (!duration_seconds || !distance_m) return null;
+  return (duration_seconds / distance_m) * cardioActivityMeta(session.activity).paceDistance;
+}
+
+/** "5:12 /km", "1:58 /500 m" or "28,4 km/h" for cycling */
+export function formatPace(session: CardioSession['fields']): string {
+  const pace = cardioPace(session);
+  if (pace == null) return '—';
+  if (session.activity === 'radfahren') {
+    const kmh = 3600 / pace;
+    return `${kmh.toLocaleString('de-DE', { maximumFractionDigits: 1 })} km/h`;
+  }
+  const meta = cardioActivityMeta(session.activity);
+  return `${formatDuration(pace)} /${meta.paceDistance === 1000 ? 'km' : formatDistance(meta.paceDistance)}`;
+}
+
+/** Time for `distance` at the session's average pace, if the session covers it */
+function benchmarkTime(session: CardioSession['fields'], distance: number): number | null {
+  const { duration_seconds, distance_m } = session;
+  if (!duration_seconds || !distance_m) return null;
+  if (distance_m < distance || distance_m > distance * (1 + BENCHMARK_TOLERANCE)) return null;
+  return (duration_seconds * distance) / distance_m;
+}
+
+export interface CardioRecords {
+  activity: CardioActivityMeta;
+  longest: CardioSession | null;
+  fastest: CardioSession | null;
+  benchmarks: { distance: number; label: string; seconds: number; session: CardioSession }[];
+}
+
+export function cardioRecords(sessions: CardioSession[], activity: CardioActivity): CardioRecords {
+  const meta = cardioActivityMeta(activity);
+  const own = sessions.filter(s => s.fields.activity === activity);
+  const longest = own.reduce<CardioSession | null>(
+    (best, s) => ((s.fields.distance_m ?? 0) > (best?.fields.distance_m ?? 0) ? s : best),
+    null,
+  );
+  const fastest = own.reduce<CardioSession | null>((best, s) => {
+    const pace = cardioPace(s.fields);
+    if (pace == null) return best;
+    const bestPace = best ? cardioPace(best.fields) : null;
+    return bestPace == null || pace < bestPace ? s : best;
+  }, null);
+  const benchmarks = meta.benchmarks.flatMap(b => {
+    let record: { seconds: number; session: CardioSession } | null = null;
+    for (const s of own) {
+      const seconds = benchmarkTime(s.fields, b.distance);
+      if (seconds != null && (!record || seconds < record.seconds)) record = { seconds, session: s };
+    }
+    return record ? [{ ...b, ...record }] : [];
+  });
+  return { activity: meta, longest, fastest, benchmarks };
+}
+
+export interface CardioPRAnalysis {
+  isDistancePR: boolean;
+  isPacePR: boolean;
+  /** Labels of benchmark distances with a new fastest time, e.g. "5 km" */
+  benchmarkPRs: string[];
+}
+
+/** Compares a new session against earlier sessions of the same activity */
+export function analyzeCardioPR(session: CardioSession['fields'], previous: CardioSession[]): CardioPRAnalysis {
+  const activity = session.activity ?? 'laufen';
+  const records = cardioRecords(previous, activity);
+  const pace = cardioPace(session);
+  const bestPace = records.fastest ? cardioPace(records.fastest.fields) : null;
+
+  return {
+    isDistancePR: (session.distance_m ?? 0) > (records.longest?.fields.distance_m ?? 0),
+    isPacePR: pace != null && (bestPace == null || pace < bestPace),
+    benchmarkPRs: cardioActivityMeta(activity).benchmarks
+      .filter(b => {
+        const seconds = benchmarkTime(session, b.distance);
+        const record = records.benchmarks.find(r => r.distance === b.distance);
+        return seconds != null && (!record || seconds < record.seconds);
+      })
+      .map(b => b.label),
+  };
+}
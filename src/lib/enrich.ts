@@ -1,5 +1,5 @@
 import type { EnrichedPrEintraege } from '@/types/enriched';
-import type { PrEintraege, Uebungen } from '@/types/app';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
 import { extractRecordId } from '@/services/livingAppsService';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,82 @@
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import { extractRecordId } from '@/services/livingAppsService';
+import { countedSets, getEntrySets } from '@/lib/sets';
+import { buildRepMaxTable, type RepMaxTable } from '@/lib/rep-max';
+
+export interface ExerciseWithPRs extends Uebungen {
+  prs: PrEintraege[];
+  bestKg?: number;
+  bestReps?: number;
+  lastPR?: PrEintraege;
+  repMaxes: RepMaxTable;
+}
+
+/** Exercises with their entries, newest first, and the bests derived from them */
+export function groupExercises(uebungen: Uebungen[], prEintraege: PrEintraege[]): ExerciseWithPRs[] {
+  return uebungen.map((ex) => {
+    const exercisePRs = prEintraege
+      .filter((pr) => {
+        const exId = extractRecordId(pr.fields.exercise_id);
+        return exId === ex.record_id;
+      })
+      .sort((a, b) => {
+        const dateA = a.fields.date ? new Date(a.fields.date).getTime() : 0;
+        const dateB = b.fields.date ? new Date(b.fields.date).getTime() : 0;
+        return dateB - dateA;
+      });
+
+    const allSets = exercisePRs.flatMap((pr) => countedSets(getEntrySets(pr)));
+    const bestKg = allSets.reduce((max, set) => Math.max(max, set.weight_kg), 0);
+    const bestReps = allSets.reduce((max, set) => Math.max(max, set.reps), 0);
+    const lastPR = exercisePRs[0];
+
+    return {
+      ...ex,
+      prs: exercisePRs,
+      bestKg: bestKg > 0 ? bestKg : undefined,
+      bestReps: bestReps > 0 ? bestReps : undefined,
+      lastPR,
+      repMaxes: buildRepMaxTable(exercisePRs),
+    };
+  });
+}
+
+/** Recent PRs for the hero carousel - sorted by creation time (when added to system) */
+export function latestEntries(uebungen: Uebungen[], prEintraege: PrEintraege[]): Array<PrEintraege & { exerciseName: string }> {
+  return [...prEintraege]
+    .sort((a, b) => {
+      const createdA = a.createdat ? new Date(a.createdat).getTime() : 0;
+      const createdB = b.createdat ? new Date(b.createdat).getTime() : 0;
+      return createdB - createdA;
+    })
+    .slice(0, 10)
+    .map((pr) => {
+      const exId = extractRecordId(pr.fields.exercise_id);
+      const exercise = uebungen.find((ex) => ex.record_id === exId);
+      return {
+        ...pr,
+        exerciseName: exercise?.fields.name || 'Unbekannte Übung',
+      };
+    });
+}
+
+/** Colored circle with a 2-letter abbreviation, stable per exercise name */
+export function getExerciseAvatar(name?: string): { color: string; letter: string } {
+  if (!name) return { color: 'hsl(0, 60%, 52%)', letter: '?' };
+  // Hash the full name for a stable unique value
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = name.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  // Distribute across full 360° hue spectrum → virtually no color collisions
+  const hue = Math.abs(hash) % 360;
+  const saturation = 55 + (Math.abs(hash >> 4) % 18); // 55–72%
+  const lightness = 46 + (Math.abs(hash >> 8) % 14);  // 46–59%
+  const color = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+  // 2-letter abbreviation: initials from first 2 words, or first 2 chars
+  const words = name.trim().split(/\s+/);
+  const letter = words.length >= 2
+    ? (words[0][0] + words[1][0]).toUpperCase()
+    : name.slice(0, 2).toUpperCase();
+  return { color, letter };
+}
@@ -0,0 +1,44 @@
+import type { LookupValue } from '@/types/app';
+import type { Uebungen } from '@/types/app-extensions';
+import { LOOKUP_OPTIONS } from '@/types/app-extensions';
+import { lookupKey, lookupKeys } from '@/lib/formatters';
+
+export type ExerciseLookupField = 'primary_muscles' | 'secondary_muscles' | 'equipment' | 'movement_pattern' | 'tracking_type';
+
+export const MUSCLE_GROUPS = LOOKUP_OPTIONS['uebungen'].primary_muscles;
+export const EQUIPMENT = LOOKUP_OPTIONS['uebungen'].equipment;
+export const MOVEMENT_PATTERNS = LOOKUP_OPTIONS['uebungen'].movement_pattern;
+export const TRACKING_TYPES = LOOKUP_OPTIONS['uebungen'].tracking_type;
+
+/** Filter by option keys; an empty value matches everything */
+export interface ExerciseFilter {
+  muscle: string;
+  equipment: string;
+  movement_pattern: string;
+}
+
+export const EMPTY_EXERCISE_FILTER: ExerciseFilter = { muscle: '', equipment: '', movement_pattern: '' };
+
+export function toLookupValue(field: ExerciseLookupField, key: string): LookupValue {
+  const option = LOOKUP_OPTIONS['uebungen'][field].find(o => o.key === key);
+  return { key, label: option?.label ?? key };
+}
+
+export function toLookupValues(field: ExerciseLookupField, keys: string[]): LookupValue[] {
+  return keys.map(k => toLookupValue(field, k));
+}
+
+export function isExerciseFilterActive(filter: ExerciseFilter): boolean {
+  return !!(filter.muscle || filter.equipment || filter.movement_pattern);
+}
+
+/** A muscle filter matches primary and secondary muscles alike */
+export function matchesExerciseFilter(exercise: Uebungen, filter: ExerciseFilter): boolean {
+  const { fields } = exercise;
+  if (filter.muscle
+    && !lookupKeys(fields.primary_muscles).includes(filter.muscle)
+    && !lookupKeys(fields.secondary_muscles).includes(filter.muscle)) return false;
+  if (filter.equipment && lookupKey(fields.equipment) !== filter.equipment) return false;
+  if (filter.movement_pattern && lookupKey(fields.movement_pattern) !== filter.movement_pattern) return false;
+  return true;
+}
@@ -0,0 +1,128 @@
+import { addDays, differenceInCalendarDays, parseISO, subDays } from 'date-fns';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { Goal } from '@/types/local';
+import { countedSets, getEntrySets, setsVolume, topSet, type WorkoutSet } from '@/lib/sets';
+import { setsE1RM, DEFAULT_E1RM_FORMULA, type E1RMFormula } from '@/lib/strength';
+import { formatWeight, type WeightUnit } from '@/lib/units';
+
+export type GoalMetric = 'weight' | 'e1rm' | 'reps' | 'volume';
+
+export const GOAL_METRICS: { key: GoalMetric; label: string }[] = [
+  { key: 'weight', label: 'Gewicht' },
+  { key: 'e1rm', label: 'e1RM' },
+  { key: 'reps', label: 'Wiederholungen' },
+  { key: 'volume', label: 'Volumen' },
+];
+
+/** Only this much recent history feeds the projection, so old progress does not flatter it */
+export const PROJECTION_WINDOW_DAYS = 120;
+/** Fewer sessions than this give no projection */
+export const MIN_PROJECTION_POINTS = 3;
+
+export function goalMetricLabel(metric: GoalMetric | undefined): string {
+  return GOAL_METRICS.find(m => m.key === metric)?.label ?? '';
+}
+
+/** Weight, e1RM and volume are kg; reps are a plain count */
+export function isWeightMetric(metric: GoalMetric | undefined): boolean {
+  return metric !== 'reps';
+}
+
+export function formatGoalValue(value: number, metric: GoalMetric | undefined, unit: WeightUnit): string {
+  return isWeightMetric(metric) ? formatWeight(value, unit) : `${Math.round(value)} Wdh.`;
+}
+
+/** Value one session reaches in `metric`; warm-ups never count */
+export function setsMetricValue(sets: WorkoutSet[], metric: GoalMetric, formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number {
+  switch (metric) {
+    case 'weight':
+      return topSet(sets)?.weight_kg ?? 0;
+    case 'e1rm':
+      return setsE1RM(sets, formula);
+    case 'reps':
+      return Math.max(0, ...countedSets(sets).map(s => s.reps));
+    case 'volume':
+      return setsVolume(sets);
+    default:
+      return 0;
+  }
+}
+
+export function entryMetricValue(entry: PrEintraege, metric: GoalMetric, formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number {
+  return setsMetricValue(getEntrySets(entry), metric, formula);
+}
+
+/** Open goals that a new session reaches */
+export function goalsReachedBy(sets: WorkoutSet[], goals: Goal[], formula: E1RMFormula = DEFAULT_E1RM_FORMULA): Goal[] {
+  return goals.filter(g =>
+    !g.fields.achieved_at
+    && g.fields.metric
+    && g.fields.target_value
+    && setsMetricValue(sets, g.fields.metric, formula) >= g.fields.target_value,
+  );
+}
+
+/** Least squares fit of y = slope · x + intercept */
+export function linearRegression(points: { x: number; y: number }[]): { slope: number; intercept: number } | null {
+  const n = points.length;
+  if (n < 2) return null;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+export type GoalStatus = 'achieved' | 'on-track' | 'behind' | 'no-trend' | 'overdue';
+
+export interface GoalProjection {
+  current: number;
+  /** 0–1 share of the target reached */
+  progress: number;
+  /** Date the trend line crosses the target, null without an upward trend */
+  projectedDate: Date | null;
+  status: GoalStatus;
+}
+
+/**
+ * Current best and a linear projection of when the target is reached, fitted
+ * to the sessions of the last PROJECTION_WINDOW_DAYS.
+ */
+export function projectGoal(
+  goal: Goal,
+  entries: PrEintraege[],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+  now: Date = new Date(),
+): GoalProjection {
+  const { metric, target_value: target = 0, deadline, achieved_at } = goal.fields;
+  const values = entries
+    .filter(e => e.fields.date)
+    .map(e => ({ date: parseISO(e.fields.date!), value: metric ? entryMetricValue(e, metric, formula) : 0 }))
+    .filter(p => p.value > 0);
+  const current = Math.max(0, ...values.map(p => p.value));
+  const progress = target > 0 ? Math.min(1, current / target) : 0;
+
+  if (achieved_at || (target > 0 && current >= target)) {
+    return { current, progress: 1, projectedDate: null, status: 'achieved' };
+  }
+
+  const windowStart = subDays(now, PROJECTION_WINDOW_DAYS);
+  const recent = values.filter(p => p.date >= windowStart);
+  const fit = recent.length >= MIN_PROJECTION_POINTS
+    ? linearRegression(recent.map(p => ({ x: differenceInCalendarDays(p.date, windowStart), y: p.value })))
+    : null;
+  const projectedDate = fit && fit.slope > 0
+    ? addDays(windowStart, Math.ceil((target - fit.intercept) / fit.slope))
+    : null;
+
+  const deadlineDate = deadline ? parseISO(deadline) : null;
+  let status: GoalStatus;
+  if (deadlineDate && differenceInCalendarDays(deadlineDate, now) < 0) status = 'overdue';
+  else if (!projectedDate) status = 'no-trend';
+  else if (deadlineDate && projectedDate > deadlineDate) status = 'behind';
+  else status = 'on-track';
+
+  return { current, progress, projectedDate: projectedDate && projectedDate < now ? now : projectedDate, status };
+}
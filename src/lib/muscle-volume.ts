@@ -0,0 +1,143 @@
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import { extractRecordId } from '@/services/livingAppsService';
+import { lookupKeys } from '@/lib/formatters';
+import { countedSets, getEntrySets } from '@/lib/sets';
+import { MUSCLE_GROUPS } from '@/lib/exercise-meta';
+import { addWeeks, endOfWeek, isWithinInterval, parseISO, startOfWeek } from 'date-fns';
+
+export interface MuscleMapping {
+  primary: string[];
+  secondary: string[];
+}
+
+/** Hard-set range per week; below `min` is undertrained, above `max` is junk volume */
+export interface VolumeTarget {
+  min: number;
+  max: number;
+}
+
+export type VolumeTargets = Record<string, VolumeTarget>;
+
+export const VOLUME_TARGETS_PREFERENCE = 'muscle-volume-targets';
+
+export const DEFAULT_VOLUME_TARGETS: VolumeTargets = {
+  brust: { min: 10, max: 20 },
+  ruecken: { min: 10, max: 20 },
+  schultern: { min: 8, max: 16 },
+  bizeps: { min: 8, max: 14 },
+  trizeps: { min: 6, max: 14 },
+  unterarme: { min: 4, max: 10 },
+  bauch: { min: 6, max: 16 },
+  unterer_ruecken: { min: 4, max: 10 },
+  quadrizeps: { min: 10, max: 20 },
+  beinbeuger: { min: 8, max: 16 },
+  gesaess: { min: 8, max: 16 },
+  waden: { min: 8, max: 16 },
+};
+
+/** A set counts fully for primary muscles and half for secondary muscles */
+export const SECONDARY_SET_FACTOR = 0.5;
+
+// Checked in order, so more specific names come before the generic ones they contain
+const DEFAULT_MUSCLE_MAP: { pattern: RegExp; muscles: MuscleMapping }[] = [
+  { pattern: /rumänisch|romanian|rdl|gestreckt|stiff/i, muscles: { primary: ['beinbeuger', 'gesaess'], secondary: ['unterer_ruecken'] } },
+  { pattern: /kreuzheben|deadlift/i, muscles: { primary: ['gesaess', 'beinbeuger', 'unterer_ruecken'], secondary: ['quadrizeps', 'ruecken', 'unterarme'] } },
+  { pattern: /frontkniebeuge|front squat/i, muscles: { primary: ['quadrizeps'], secondary: ['gesaess', 'bauch'] } },
+  { pattern: /kniebeuge|squat|beinpresse|leg press|hackenschmidt|hack/i, muscles: { primary: ['quadrizeps', 'gesaess'], secondary: ['beinbeuger', 'unterer_ruecken'] } },
+  { pattern: /ausfallschritt|lunge|split|step.?up/i, muscles: { primary: ['quadrizeps', 'gesaess'], secondary: ['beinbeuger'] } },
+  { pattern: /hip.?thrust|glute|hüftstreck/i, muscles: { primary: ['gesaess'], secondary: ['beinbeuger'] } },
+  { pattern: /beinbeuger|leg curl|hamstring/i, muscles: { primary: ['beinbeuger'], secondary: [] } },
+  { pattern: /beinstrecker|leg extension/i, muscles: { primary: ['quadrizeps'], secondary: [] } },
+  { pattern: /waden|calf|calves/i, muscles: { primary: ['waden'], secondary: [] } },
+  { pattern: /schrägbank|incline/i, muscles: { primary: ['brust', 'schultern'], secondary: ['trizeps'] } },
+  { pattern: /bankdrücken|bench|brustpresse|chest press|liegestütz|push.?up/i, muscles: { primary: ['brust'], secondary: ['trizeps', 'schultern'] } },
+  { pattern: /seitheben|lateral raise|frontheben|front raise|reverse fly|reverse butterfly|rear delt|face.?pull/i, muscles: { primary: ['schultern'], secondary: [] } },
+  { pattern: /fliegende|butterfly|fly|flye|cable cross/i, muscles: { primary: ['brust'], secondary: ['schultern'] } },
+  { pattern: /dips/i, muscles: { primary: ['brust', 'trizeps'], secondary: ['schultern'] } },
+  { pattern: /schulterdrücken|overhead|military|ohp|shoulder press|nackendrücken/i, muscles: { primary: ['schultern'], secondary: ['trizeps'] } },
+  { pattern: /klimmzug|pull.?up|chin.?up|latzug|lat pull|pulldown/i, muscles: { primary: ['ruecken'], secondary: ['bizeps', 'unterarme'] } },
+  { pattern: /rudern|row/i, muscles: { primary: ['ruecken'], secondary: ['bizeps', 'schultern'] } },
+  { pattern: /shrug|nacken/i, muscles: { primary: ['ruecken'], secondary: ['unterarme'] } },
+  { pattern: /hyperextension|rückenstrecker|back extension|good morning/i, muscles: { primary: ['unterer_ruecken'], secondary: ['gesaess', 'beinbeuger'] } },
+  { pattern: /hammer|reverse curl|unterarm|wrist/i, muscles: { primary: ['unterarme'], secondary: ['bizeps'] } },
+  { pattern: /bizeps|curl/i, muscles: { primary: ['bizeps'], secondary: ['unterarme'] } },
+  { pattern: /trizeps|triceps|french press|skull|pushdown|kickback/i, muscles: { primary: ['trizeps'], secondary: [] } },
+  { pattern: /crunch|plank|sit.?up|bauch|ab wheel|beinheben|leg raise/i, muscles: { primary: ['bauch'], secondary: [] } },
+];
+
+export function defaultMuscleMapping(name: string | undefined): MuscleMapping {
+  if (!name) return { primary: [], secondary: [] };
+  return DEFAULT_MUSCLE_MAP.find(m => m.pattern.test(name))?.muscles ?? { primary: [], secondary: [] };
+}
+
+/** Muscles assigned on the record win; unassigned exercises fall back to the name-based defaults */
+export function exerciseMuscles(exercise: Uebungen): MuscleMapping {
+  const primary = lookupKeys(exercise.fields.primary_muscles);
+  if (primary.length === 0) return defaultMuscleMapping(exercise.fields.name);
+  return { primary, secondary: lookupKeys(exercise.fields.secondary_muscles) };
+}
+
+export interface MuscleVolume {
+  muscle: string;
+  label: string;
+  /** Hard sets; secondary involvement counts as a fraction, so this may be fractional */
+  sets: number;
+  tonnage: number;
+  target: VolumeTarget;
+}
+
+export type VolumeStatus = 'below' | 'within' | 'above';
+
+export function volumeStatus(volume: MuscleVolume): VolumeStatus {
+  if (volume.sets < volume.target.min) return 'below';
+  if (volume.sets > volume.target.max) return 'above';
+  return 'within';
+}
+
+export function weekInterval(weekOffset: number, now: Date = new Date()): { start: Date; end: Date } {
+  const start = startOfWeek(addWeeks(now, weekOffset), { weekStartsOn: 1 });
+  return { start, end: endOfWeek(start, { weekStartsOn: 1 }) };
+}
+
+/**
+ * Hard sets (warm-ups excluded) and tonnage per muscle group for one week.
+ * Every muscle group is listed, even without volume, so gaps stay visible.
+ */
+export function weeklyMuscleVolume(
+  entries: PrEintraege[],
+  exercises: Uebungen[],
+  interval: { start: Date; end: Date },
+  targets: VolumeTargets = DEFAULT_VOLUME_TARGETS,
+): MuscleVolume[] {
+  const mappings = new Map(exercises.map(ex => [ex.record_id, exerciseMuscles(ex)]));
+  const totals = new Map<string, { sets: number; tonnage: number }>(MUSCLE_GROUPS.map(m => [m.key, { sets: 0, tonnage: 0 }]));
+
+  for (const entry of entries) {
+    if (!entry.fields.date) continue;
+    if (!isWithinInterval(parseISO(entry.fields.date), interval)) continue;
+    const mapping = mappings.get(extractRecordId(entry.fields.exercise_id) ?? '');
+    if (!mapping) continue;
+    const sets = countedSets(getEntrySets(entry));
+    // Assisted sets carry a negative weight; they count as sets but move no load
+    const tonnage = sets.reduce((sum, s) => sum + Math.max(0, s.weight_kg) * s.reps, 0);
+    const credit = (muscle: string, factor: number) => {
+      const total = totals.get(muscle);
+      if (!total) return;
+      total.sets += sets.length * factor;
+      total.tonnage += tonnage * factor;
+    };
+    mapping.primary.forEach(m => credit(m, 1));
+    mapping.secondary.forEach(m => credit(m, SECONDARY_SET_FACTOR));
+  }
+
+  return MUSCLE_GROUPS.map(({ key, label }) => {
+    const total = totals.get(key) ?? { sets: 0, tonnage: 0 };
+    return {
+      muscle: key,
+      label,
+      sets: Math.round(total.sets * 10) / 10,
+      tonnage: Math.round(total.tonnage),
+      target: targets[key] ?? DEFAULT_VOLUME_TARGETS[key] ?? { min: 0, max: 0 },
+    };
+  });
+}
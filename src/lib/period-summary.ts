@@ -0,0 +1,228 @@
+import { endOfMonth, endOfYear, format, parseISO, startOfMonth, startOfYear } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import type { StreakFreeze } from '@/types/local';
+import { extractRecordId } from '@/services/livingAppsService';
+import { entryVolume } from '@/lib/sets';
+import { entryE1RM, type E1RMFormula } from '@/lib/strength';
+import { entryBestSet, exerciseTrackingType, performanceValue, usesWeight } from '@/lib/tracking';
+import { streakPeriods, trainingDays, type StreakDefinition } from '@/lib/streaks';
+
+/** A calendar year, or one month of it when `month` (0-11) is set */
+export interface SummaryPeriod {
+  year: number;
+  month?: number;
+}
+
+export interface ExerciseGain {
+  exerciseId: string;
+  name: string;
+  /** Best e1RM before the period, or of its first entry when there is none */
+  from: number;
+  to: number;
+  percent: number;
+}
+
+export interface PeriodSummary {
+  period: SummaryPeriod;
+  label: string;
+  sessions: number;
+  entries: number;
+  tonnage: number;
+  prCount: number;
+  mostTrained: { exerciseId: string; name: string; sessions: number } | null;
+  biggestGains: ExerciseGain[];
+  /** Only for year periods */
+  bestMonth: { month: number; label: string; sessions: number; tonnage: number } | null;
+  longestStreak: number;
+  streakUnit: 'day' | 'week';
+  /** Entries per training day (YYYY-MM-DD) of the whole year, also for month periods */
+  dayCounts: Record<string, number>;
+}
+
+const MAX_GAINS = 3;
+
+export function periodBounds(period: SummaryPeriod): { start: Date; end: Date } {
+  if (period.month == null) {
+    const date = new Date(period.year, 0, 1);
+    return { start: startOfYear(date), end: endOfYear(date) };
+  }
+  const date = new Date(period.year, period.month, 1);
+  return { start: startOfMonth(date), end: endOfMonth(date) };
+}
+
+export function periodLabel(period: SummaryPeriod): string {
+  if (period.month == null) return `Jahresrückblick ${period.year}`;
+  return format(new Date(period.year, period.month, 1), 'MMMM yyyy', { locale: de });
+}
+
+/** Years with at least one entry, newest first; always includes the current year */
+export function availableYears(entries: PrEintraege[], now: Date = new Date()): number[] {
+  const years = new Set([now.getFullYear()]);
+  for (const e of entries) {
+    if (e.fields.date) years.add(parseInt(e.fields.date.slice(0, 4)));
+  }
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+/**
+ * Entries dated `from`–`to` that beat every earlier entry of their exercise,
+ * judged by the exercise's tracking type. `sorted` is the full history, oldest first.
+ */
+export function countPRs(sorted: PrEintraege[], exercises: Map<string, Uebungen>, from: string, to: string): number {
+  const best = new Map<string, number>();
+  let count = 0;
+  for (const e of sorted) {
+    const exerciseId = extractRecordId(e.fields.exercise_id);
+    if (!exerciseId) continue;
+    const type = exerciseTrackingType(exercises.get(exerciseId));
+    const value = performanceValue(entryBestSet(e, type), type);
+    const previous = best.get(exerciseId);
+    const date = e.fields.date!.slice(0, 10);
+    if (previous != null && value > previous && date >= from && date <= to) count++;
+    if (previous == null || value > previous) best.set(exerciseId, value);
+  }
+  return count;
+}
+
+function biggestGains(
+  sorted: PrEintraege[],
+  exercises: Map<string, Uebungen>,
+  from: string,
+  to: string,
+  formula: E1RMFormula,
+): ExerciseGain[] {
+  const before = new Map<string, number>();
+  const first = new Map<string, number>();
+  const best = new Map<string, number>();
+  for (const e of sorted) {
+    const exerciseId = extractRecordId(e.fields.exercise_id);
+    if (!exerciseId || !usesWeight(exerciseTrackingType(exercises.get(exerciseId)))) continue;
+    const e1rm = entryE1RM(e, formula);
+    if (e1rm <= 0) continue;
+    const date = e.fields.date!.slice(0, 10);
+    if (date < from) {
+      before.set(exerciseId, Math.max(before.get(exerciseId) ?? 0, e1rm));
+    } else if (date <= to) {
+      if (!first.has(exerciseId)) first.set(exerciseId, e1rm);
+      best.set(exerciseId, Math.max(best.get(exerciseId) ?? 0, e1rm));
+    }
+  }
+
+  const gains: ExerciseGain[] = [];
+  for (const [exerciseId, to] of best) {
+    const from = before.get(exerciseId) ?? first.get(exerciseId)!;
+    if (to <= from) continue;
+    gains.push({
+      exerciseId,
+      name: exercises.get(exerciseId)?.fields.name ?? 'Unbekannt',
+      from,
+      to,
+      percent: ((to - from) / from) * 100,
+    });
+  }
+  return gains.sort((a, b) => b.percent - a.percent).slice(0, MAX_GAINS);
+}
+
+/** Aggregates the PR history for a year or month; streaks follow the user's definition */
+export function summarizePeriod(
+  allEntries: PrEintraege[],
+  exerciseList: Uebungen[],
+  period: SummaryPeriod,
+  formula: E1RMFormula,
+  streakDefinition: StreakDefinition,
+  freezes: StreakFreeze[] = [],
+  now: Date = new Date(),
+): PeriodSummary {
+  const exercises = new Map(exerciseList.map(ex => [ex.record_id, ex]));
+  const { start, end } = periodBounds(period);
+  const from = format(start, 'yyyy-MM-dd');
+  const to = format(end, 'yyyy-MM-dd');
+
+  const sorted = allEntries
+    .filter(e => e.fields.date)
+    .sort((a, b) => a.fields.date!.localeCompare(b.fields.date!));
+  const inPeriod = sorted.filter(e => {
+    const date = e.fields.date!.slice(0, 10);
+    return date >= from && date <= to;
+  });
+
+  // The heatmap shows the whole year and only highlights the period
+  const yearPrefix = `${period.year}-`;
+  const dayCounts: Record<string, number> = {};
+  for (const e of sorted) {
+    const date = e.fields.date!.slice(0, 10);
+    if (date.startsWith(yearPrefix)) dayCounts[date] = (dayCounts[date] ?? 0) + 1;
+  }
+
+  const periodDays = new Set<string>();
+  const exerciseDays = new Map<string, Set<string>>();
+  const months = new Map<number, { days: Set<string>; tonnage: number }>();
+  let tonnage = 0;
+  for (const e of inPeriod) {
+    const date = e.fields.date!.slice(0, 10);
+    const volume = entryVolume(e);
+    periodDays.add(date);
+    tonnage += volume;
+
+    const exerciseId = extractRecordId(e.fields.exercise_id);
+    if (exerciseId) {
+      if (!exerciseDays.has(exerciseId)) exerciseDays.set(exerciseId, new Set());
+      exerciseDays.get(exerciseId)!.add(date);
+    }
+
+    const month = parseISO(date).getMonth();
+    if (!months.has(month)) months.set(month, { days: new Set(), tonnage: 0 });
+    const bucket = months.get(month)!;
+    bucket.days.add(date);
+    bucket.tonnage += volume;
+  }
+
+  let mostTrained: PeriodSummary['mostTrained'] = null;
+  for (const [exerciseId, days] of exerciseDays) {
+    if (!mostTrained || days.size > mostTrained.sessions) {
+      mostTrained = { exerciseId, name: exercises.get(exerciseId)?.fields.name ?? 'Unbekannt', sessions: days.size };
+    }
+  }
+
+  let bestMonth: PeriodSummary['bestMonth'] = null;
+  if (period.month == null) {
+    for (const [month, bucket] of months) {
+      const better = !bestMonth
+        || bucket.days.size > bestMonth.sessions
+        || (bucket.days.size === bestMonth.sessions && bucket.tonnage > bestMonth.tonnage);
+      if (better) {
+        bestMonth = {
+          month,
+          label: format(new Date(period.year, month, 1), 'MMMM', { locale: de }),
+          sessions: bucket.days.size,
+          tonnage: bucket.tonnage,
+        };
+      }
+    }
+  }
+
+  // Only the period's own training counts towards its longest streak
+  const streakExerciseId = streakDefinition.kind === 'exercise' ? streakDefinition.exerciseId : undefined;
+  const periods = streakPeriods(
+    trainingDays(inPeriod, streakExerciseId),
+    streakDefinition,
+    freezes,
+    end < now ? end : now,
+  );
+
+  return {
+    period,
+    label: periodLabel(period),
+    sessions: periodDays.size,
+    entries: inPeriod.length,
+    tonnage,
+    prCount: countPRs(sorted, exercises, from, to),
+    mostTrained,
+    biggestGains: biggestGains(sorted, exercises, from, to, formula),
+    bestMonth,
+    longestStreak: Math.max(0, ...periods.map(p => p.run)),
+    streakUnit: streakDefinition.kind === 'daily' ? 'day' : 'week',
+    dayCounts,
+  };
+}
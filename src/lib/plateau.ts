@@ -0,0 +1,89 @@
+import { differenceInCalendarWeeks, subWeeks } from 'date-fns';
+import type { PrEintraege } from '@/types/app-extensions';
+import { entryTopSet } from '@/lib/sets';
+import { entryE1RM, DEFAULT_E1RM_FORMULA, type E1RMFormula } from '@/lib/strength';
+import { formatWeight, roundKgToIncrement, DEFAULT_WEIGHT_UNIT, type WeightUnit } from '@/lib/units';
+
+/** Weeks without a new e1RM best before an exercise counts as stalled */
+export const PLATEAU_WEEKS = 4;
+/** e1RM drop (in percent of the previous best) that counts as regression */
+export const REGRESSION_THRESHOLD_PERCENT = 5;
+/** Deload recommendation: this share of the recent top-set weight */
+export const DELOAD_FACTOR = 0.9;
+
+export type PlateauKind = 'stagnation' | 'regression';
+
+export interface PlateauAlert {
+  kind: PlateauKind;
+  /** Best e1RM before the observation window */
+  previousBest: number;
+  /** Best e1RM inside the observation window */
+  recentBest: number;
+  changePercent: number;
+  weeksSinceBest: number;
+  deloadWeight: number;
+}
+
+export interface PlateauOptions {
+  weeks?: number;
+  thresholdPercent?: number;
+  formula?: E1RMFormula;
+  /** Unit whose plate increments the deload weight is rounded to */
+  unit?: WeightUnit;
+  now?: Date;
+}
+
+/**
+ * Compares the last `weeks` of an exercise against everything before.
+ * Regression: the recent best e1RM is clearly below the earlier best.
+ * Stagnation: trained at least twice in the window without beating the earlier best.
+ * Returns null when the exercise is progressing, untrained lately or lacks history.
+ */
+export function detectPlateau(entries: PrEintraege[], options: PlateauOptions = {}): PlateauAlert | null {
+  const {
+    weeks = PLATEAU_WEEKS,
+    thresholdPercent = REGRESSION_THRESHOLD_PERCENT,
+    formula = DEFAULT_E1RM_FORMULA,
+    unit = DEFAULT_WEIGHT_UNIT,
+    now = new Date(),
+  } = options;
+  const windowStart = subWeeks(now, weeks);
+
+  const dated = entries
+    .filter(e => e.fields.date)
+    .map(e => ({ entry: e, date: new Date(e.fields.date!), e1rm: entryE1RM(e, formula) }))
+    .filter(e => e.e1rm > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const before = dated.filter(e => e.date < windowStart);
+  const recent = dated.filter(e => e.date >= windowStart);
+  if (before.length === 0 || recent.length === 0) return null;
+
+  const previousPeak = before.reduce((best, e) => (e.e1rm > best.e1rm ? e : best));
+  const recentPeak = recent.reduce((best, e) => (e.e1rm > best.e1rm ? e : best));
+  if (recentPeak.e1rm > previousPeak.e1rm) return null;
+
+  const changePercent = Math.round(((recentPeak.e1rm - previousPeak.e1rm) / previousPeak.e1rm) * 1000) / 10;
+  const isRegression = -changePercent >= thresholdPercent;
+  if (!isRegression && recent.length < 2) return null;
+
+  const latestTop = entryTopSet(recent[recent.length - 1].entry);
+  return {
+    kind: isRegression ? 'regression' : 'stagnation',
+    previousBest: previousPeak.e1rm,
+    recentBest: recentPeak.e1rm,
+    changePercent,
+    weeksSinceBest: differenceInCalendarWeeks(now, previousPeak.date, { weekStartsOn: 1 }),
+    deloadWeight: roundKgToIncrement((latestTop?.weight_kg ?? 0) * DELOAD_FACTOR, unit),
+  };
+}
+
+export function describePlateau(alert: PlateauAlert): string {
+  return alert.kind === 'regression'
+    ? `e1RM ${alert.changePercent}% unter deinem Bestwert`
+    : `Seit ${alert.weeksSinceBest} Wochen kein neuer e1RM-Bestwert`;
+}
+
+export function describeDeload(alert: PlateauAlert, unit: WeightUnit = DEFAULT_WEIGHT_UNIT): string {
+  return `Deload: eine Woche mit ${formatWeight(alert.deloadWeight, unit)} und halbem Volumen, danach wieder steigern.`;
+}
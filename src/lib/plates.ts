@@ -0,0 +1,134 @@
+import { KG_PER_LB, type WeightUnit } from '@/lib/units';
+
+export type PlateUnit = WeightUnit;
+
+export interface PlateStock {
+  weight: number;
+  unit: PlateUnit;
+  /** Pairs available (one plate per side) */
+  pairs: number;
+}
+
+export interface PlateInventory {
+  barWeight: number; // kg
+  plates: PlateStock[];
+}
+
+export const PLATE_INVENTORY_PREFERENCE = 'plate-inventory';
+
+/** Each user has their own gym; without a known user the shared key is used */
+export function plateInventoryPreference(userId: string | null): string {
+  return userId ? `${PLATE_INVENTORY_PREFERENCE}:${userId}` : PLATE_INVENTORY_PREFERENCE;
+}
+
+export const DEFAULT_PLATE_INVENTORY: PlateInventory = {
+  barWeight: 20,
+  plates: [
+    { weight: 25, unit: 'kg', pairs: 4 },
+    { weight: 20, unit: 'kg', pairs: 2 },
+    { weight: 15, unit: 'kg', pairs: 2 },
+    { weight: 10, unit: 'kg', pairs: 2 },
+    { weight: 5, unit: 'kg', pairs: 2 },
+    { weight: 2.5, unit: 'kg', pairs: 2 },
+    { weight: 1.25, unit: 'kg', pairs: 2 },
+    { weight: 45, unit: 'lb', pairs: 0 },
+    { weight: 35, unit: 'lb', pairs: 0 },
+    { weight: 25, unit: 'lb', pairs: 0 },
+    { weight: 10, unit: 'lb', pairs: 0 },
+    { weight: 5, unit: 'lb', pairs: 0 },
+    { weight: 2.5, unit: 'lb', pairs: 0 },
+  ],
+};
+
+export function plateKg(plate: Pick<PlateStock, 'weight' | 'unit'>): number {
+  return plate.unit === 'lb' ? plate.weight * KG_PER_LB : plate.weight;
+}
+
+export function plateLabel(plate: Pick<PlateStock, 'weight' | 'unit'>): string {
+  return `${String(plate.weight).replace('.', ',')}${plate.unit === 'lb' ? ' lb' : ''}`;
+}
+
+export interface PlateLoad {
+  /** Plates for one side, heaviest first */
+  perSide: PlateStock[];
+  /** Weight actually on the bar in kg */
+  total: number;
+  /** Target minus loaded weight in kg (> 0 when the target cannot be matched) */
+  remainder: number;
+}
+
+// Float noise from lb conversions must not block a plate that fits
+const EPSILON = 0.001;
+
+/** Greedy loading, heaviest plate first, limited by the available pairs */
+export function calculatePlates(target: number, inventory: PlateInventory): PlateLoad {
+  const perSide: PlateStock[] = [];
+  let side = Math.max(0, (target - inventory.barWeight) / 2);
+
+  const stock = inventory.plates
+    .filter(p => p.pairs > 0 && p.weight > 0)
+    .sort((a, b) => plateKg(b) - plateKg(a));
+
+  for (const plate of stock) {
+    let left = plate.pairs;
+    while (left > 0 && plateKg(plate) <= side + EPSILON) {
+      perSide.push({ weight: plate.weight, unit: plate.unit, pairs: 1 });
+      side -= plateKg(plate);
+      left--;
+    }
+  }
+
+  const loadedSide = perSide.reduce((sum, p) => sum + plateKg(p), 0);
+  const total = Math.round((inventory.barWeight + loadedSide * 2) * 100) / 100;
+  return { perSide, total, remainder: Math.round((target - total) * 100) / 100 };
+}
+
+/** Plates grouped for display, e.g. [{ plate: 20 kg, count: 2 }] */
+export function groupPlates(perSide: PlateStock[]): { plate: PlateStock; count: number }[] {
+  const groups: { plate: PlateStock; count: number }[] = [];
+  for (const plate of perSide) {
+    const last = groups[groups.length - 1];
+    if (last && last.plate.weight === plate.weight && last.plate.unit === plate.unit) last.count++;
+    else groups.push({ plate, count: 1 });
+  }
+  return groups;
+}
+
+export interface WarmupStep {
+  percent: number;
+  reps: number;
+}
+
+export const DEFAULT_WARMUP_RAMP: WarmupStep[] = [
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 2 },
+];
+
+export interface WarmupSet {
+  percent: number;
+  reps: number;
+  /** Loadable weight in kg, never below the empty bar */
+  weight_kg: number;
+  load: PlateLoad;
+}
+
+/**
+ * Warm-up ramp towards `target`. Each step is rounded down to what the
+ * inventory can load; steps that would repeat the previous weight are dropped.
+ */
+export function generateWarmup(
+  target: number,
+  inventory: PlateInventory,
+  ramp: WarmupStep[] = DEFAULT_WARMUP_RAMP
+): WarmupSet[] {
+  if (target <= inventory.barWeight) return [];
+  const sets: WarmupSet[] = [];
+  for (const step of ramp) {
+    const load = calculatePlates(Math.max(inventory.barWeight, (target * step.percent) / 100), inventory);
+    if (load.total >= target) continue;
+    if (sets.length > 0 && sets[sets.length - 1].weight_kg >= load.total) continue;
+    sets.push({ percent: step.percent, reps: step.reps, weight_kg: load.total, load });
+  }
+  return sets;
+}
@@ -0,0 +1,122 @@
+import type { PrEintraege } from '@/types/app-extensions';
+import type { Goal } from '@/types/local';
+import { countedSets, entryVolume, getEntrySets, setsVolume, topSet, type WorkoutSet } from '@/lib/sets';
+import { bestE1RM, setsE1RM, DEFAULT_E1RM_FORMULA, type E1RMFormula } from '@/lib/strength';
+import { buildRepMaxTable, findSetsRepMaxPR } from '@/lib/rep-max';
+import { goalsReachedBy } from '@/lib/goals';
+import { analyzeTrackedPR, bestSet, usesWeight, DEFAULT_TRACKING_TYPE, type TrackingType } from '@/lib/tracking';
+
+export interface PRAnalysis {
+  isWeightPR: boolean;
+  isRepPR: boolean;
+  isVolumePR: boolean;
+  isE1RMPR: boolean;
+  /** Rep count of a new rep-max (e.g. 5 for a new 5RM), null if none */
+  repMaxPR: number | null;
+  isDurationPR: boolean;
+  isDistancePR: boolean;
+  isPacePR: boolean;
+  /** Open goals of the exercise this entry reaches */
+  goalsReached: Goal[];
+  previousBest: {
+    weight: number;
+    reps: number;
+    volume: number;
+    e1rm: number;
+  };
+}
+
+// PR-Analyse — compares the counted sets of a new entry against all previous sets
+export function analyzePR(
+  newSets: WorkoutSet[],
+  previousEntries: PrEintraege[],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+  tracking: TrackingType = DEFAULT_TRACKING_TYPE,
+  goals: Goal[] = []
+): PRAnalysis {
+  const goalsReached = goalsReachedBy(newSets, goals, formula);
+  if (tracking !== 'gewicht') return { ...analyzeNonLoadPR(newSets, previousEntries, tracking), goalsReached };
+
+  const newWeight = topSet(newSets)?.weight_kg ?? 0;
+  const newVolume = setsVolume(newSets);
+  const newE1RM = setsE1RM(newSets, formula);
+  const repMaxPR = findSetsRepMaxPR(newSets, buildRepMaxTable(previousEntries));
+
+  if (previousEntries.length === 0) {
+    return {
+      isWeightPR: true,
+      isRepPR: true,
+      isVolumePR: true,
+      isE1RMPR: true,
+      repMaxPR,
+      isDurationPR: false,
+      isDistancePR: false,
+      isPacePR: false,
+      goalsReached,
+      previousBest: { weight: 0, reps: 0, volume: 0, e1rm: 0 },
+    };
+  }
+
+  const previousSets = previousEntries.flatMap((e) => countedSets(getEntrySets(e)));
+  const maxWeight = Math.max(0, ...previousSets.map((s) => s.weight_kg));
+  const maxVolume = Math.max(0, ...previousEntries.map(entryVolume));
+
+  // Rep-PR bei gleichem Gewicht
+  const sameWeight = previousSets.filter((s) => s.weight_kg === newWeight);
+  const maxRepsAtWeight = sameWeight.length > 0
+    ? Math.max(...sameWeight.map((s) => s.reps))
+    : 0;
+  const newRepsAtWeight = Math.max(0, ...countedSets(newSets).filter((s) => s.weight_kg === newWeight).map((s) => s.reps));
+
+  // e1RM-PR: a heavier set for fewer reps is not automatically stronger
+  const maxE1RM = bestE1RM(previousEntries, formula);
+
+  return {
+    isWeightPR: newWeight > maxWeight,
+    isRepPR: newRepsAtWeight > maxRepsAtWeight && sameWeight.length > 0,
+    isVolumePR: newVolume > maxVolume,
+    isE1RMPR: newE1RM > maxE1RM,
+    repMaxPR,
+    isDurationPR: false,
+    isDistancePR: false,
+    isPacePR: false,
+    goalsReached,
+    previousBest: { weight: maxWeight, reps: maxRepsAtWeight, volume: maxVolume, e1rm: maxE1RM },
+  };
+}
+
+// Bodyweight, assisted, timed and distance exercises — no e1RM or rep-max table
+function analyzeNonLoadPR(newSets: WorkoutSet[], previousEntries: PrEintraege[], tracking: TrackingType): Omit<PRAnalysis, 'goalsReached'> {
+  const tracked = analyzeTrackedPR(newSets, previousEntries, tracking);
+  const newBest = bestSet(newSets, tracking);
+  const prev = tracked.previousBest;
+  const loaded = usesWeight(tracking);
+  const isWeightPR = loaded && !!newBest && (!prev || newBest.weight_kg > prev.weight_kg);
+  const isSameLoadRepPR = loaded && !!newBest && !!prev && newBest.weight_kg === prev.weight_kg && newBest.reps > prev.reps;
+
+  return {
+    isWeightPR,
+    isRepPR: tracking === 'koerpergewicht' ? tracked.isBestPR : isSameLoadRepPR,
+    isVolumePR: tracked.isVolumePR,
+    isE1RMPR: false,
+    repMaxPR: null,
+    isDurationPR: tracking === 'zeit' && tracked.isBestPR,
+    isDistancePR: (tracking === 'distanz' || tracking === 'zeit_distanz') && tracked.isBestPR,
+    isPacePR: tracked.isPacePR,
+    previousBest: { weight: prev?.weight_kg ?? 0, reps: prev?.reps ?? 0, volume: 0, e1rm: 0 },
+  };
+}
+
+/** Badge labels for the records an entry set, e.g. "Gewichts-PR" */
+export function prLabels(analysis: PRAnalysis): string[] {
+  const labels: string[] = [];
+  if (analysis.isWeightPR) labels.push('Gewichts-PR');
+  if (analysis.isVolumePR) labels.push('Volumen-PR');
+  if (analysis.isE1RMPR && !analysis.isWeightPR) labels.push('e1RM-PR');
+  if (analysis.isRepPR) labels.push('Rep-PR');
+  if (analysis.repMaxPR) labels.push(`${analysis.repMaxPR}RM-PR`);
+  if (analysis.isDurationPR) labels.push('Zeit-PR');
+  if (analysis.isDistancePR) labels.push('Distanz-PR');
+  if (analysis.isPacePR) labels.push('Tempo-PR');
+  return labels;
+}
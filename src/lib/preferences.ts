@@ -0,0 +1,18 @@
+// Client settings, persisted in localStorage (like 'developer-mode'). Settings
+// that belong to one user are stored under a key with their id.
+const PREFIX = 'pr-tracker:';
+export const PREFERENCE_EVENT = 'preference-change';
+
+export function readPreference<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw == null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function writePreference<T>(key: string, value: T): void {
+  try { localStorage.setItem(PREFIX + key, JSON.stringify(value)); } catch { /* storage unavailable */ }
+  window.dispatchEvent(new CustomEvent(PREFERENCE_EVENT, { detail: { key } }));
+}
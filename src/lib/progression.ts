@@ -0,0 +1,73 @@
+import type { PrEintraege } from '@/types/app-extensions';
+import { countedSets, getEntrySets, topSet } from '@/lib/sets';
+import { bestE1RM, weightForReps, DEFAULT_E1RM_FORMULA, type E1RMFormula } from '@/lib/strength';
+import { incrementKg, roundKgToIncrement, DEFAULT_WEIGHT_UNIT, type WeightUnit } from '@/lib/units';
+
+export type ProgressionRule = 'linear' | 'double' | 'rpe';
+
+export const PROGRESSION_RULES: { key: ProgressionRule; label: string; description: string }[] = [
+  { key: 'linear', label: 'Linear', description: 'Jedes Training eine Scheibenstufe mehr bei gleichen Wiederholungen' },
+  { key: 'double', label: 'Doppelt', description: 'Erst Wiederholungen bis zum Bereichsende, dann mehr Gewicht' },
+  { key: 'rpe', label: 'RPE 8', description: 'Gewicht aus dem e1RM mit 2 Wiederholungen Reserve' },
+];
+
+export const DEFAULT_PROGRESSION_RULE: ProgressionRule = 'double';
+/** Preference key holding a Record<exerciseId, ProgressionRule> */
+export const PROGRESSION_RULE_PREFERENCE = 'progression-rules';
+
+/** Rules belong to the user's own exercises, so each user has a key */
+export function progressionRulesPreference(userId: string | null): string {
+  return userId ? `${PROGRESSION_RULE_PREFERENCE}:${userId}` : PROGRESSION_RULE_PREFERENCE;
+}
+
+/** Rep range used by double progression */
+export const DOUBLE_PROGRESSION_RANGE = { min: 8, max: 12 };
+
+export interface ProgressionSuggestion {
+  weight_kg: number;
+  reps: number;
+  sets: number;
+  rule: ProgressionRule;
+}
+
+function latestEntry(entries: PrEintraege[]): PrEintraege | undefined {
+  return [...entries].sort((a, b) => (b.fields.date ?? '').localeCompare(a.fields.date ?? ''))[0];
+}
+
+/**
+ * Next target for an exercise, derived from the top set of the most recent entry.
+ * Jumps and rounding follow the plate increments of `unit` (2.5 kg / 5 lb).
+ * Returns null without usable history.
+ */
+export function suggestNextTarget(
+  entries: PrEintraege[],
+  rule: ProgressionRule = DEFAULT_PROGRESSION_RULE,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+  unit: WeightUnit = DEFAULT_WEIGHT_UNIT
+): ProgressionSuggestion | null {
+  const latest = latestEntry(entries);
+  if (!latest) return null;
+  const sets = getEntrySets(latest);
+  const top = topSet(sets);
+  if (!top || top.reps <= 0) return null;
+  const setCount = Math.max(1, countedSets(sets).length);
+  const step = incrementKg(unit);
+
+  switch (rule) {
+    case 'linear':
+      return { weight_kg: roundKgToIncrement(top.weight_kg + step, unit), reps: top.reps, sets: setCount, rule };
+    case 'double': {
+      const { min, max } = DOUBLE_PROGRESSION_RANGE;
+      if (top.reps >= max) {
+        return { weight_kg: roundKgToIncrement(top.weight_kg + step, unit), reps: min, sets: setCount, rule };
+      }
+      return { weight_kg: top.weight_kg, reps: Math.max(min, top.reps + 1), sets: setCount, rule };
+    }
+    case 'rpe': {
+      const weight = roundKgToIncrement(weightForReps(bestE1RM(entries, formula), top.reps, 2, formula), unit);
+      return weight > 0 ? { weight_kg: weight, reps: top.reps, sets: setCount, rule } : null;
+    }
+    default:
+      return null;
+  }
+}
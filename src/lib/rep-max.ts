@@ -0,0 +1,56 @@
+import type { PrEintraege } from '@/types/app-extensions';
+import { countedSets, getEntrySets, type WorkoutSet } from '@/lib/sets';
+
+export const REP_MAX_RANGE = 12;
+
+export interface RepMaxRecord {
+  reps: number;
+  weight: number;
+  date?: string;
+  entryId: string;
+  /** Reps actually performed in the source entry (may exceed `reps`) */
+  actualReps: number;
+}
+
+/** Index 0 holds the 1RM, index 11 the 12RM. */
+export type RepMaxTable = (RepMaxRecord | null)[];
+
+/**
+ * Heaviest weight lifted for at least N reps, N = 1…12.
+ * A 100kg × 8 set also counts as a 100kg 5RM, so the table never increases with N.
+ */
+export function buildRepMaxTable(entries: PrEintraege[]): RepMaxTable {
+  const table: RepMaxTable = Array.from({ length: REP_MAX_RANGE }, () => null);
+  for (const entry of entries) {
+    for (const { weight_kg: weight, reps } of countedSets(getEntrySets(entry))) {
+      if (weight <= 0 || reps <= 0) continue;
+      for (let n = 1; n <= Math.min(reps, REP_MAX_RANGE); n++) {
+        const current = table[n - 1];
+        const isBetter = !current
+          || weight > current.weight
+          // Same weight: keep the earlier date as the record holder
+          || (weight === current.weight && (entry.fields.date ?? '') < (current.date ?? ''));
+        if (isBetter) {
+          table[n - 1] = { reps: n, weight, date: entry.fields.date, entryId: entry.record_id, actualReps: reps };
+        }
+      }
+    }
+  }
+  return table;
+}
+
+/** Rep count whose rep-max the new set beats, or null. Sets beyond 12 reps compete for the 12RM. */
+export function findRepMaxPR(weight: number, reps: number, table: RepMaxTable): number | null {
+  if (weight <= 0 || reps <= 0) return null;
+  const n = Math.min(reps, REP_MAX_RANGE);
+  const current = table[n - 1];
+  return !current || weight > current.weight ? n : null;
+}
+
+/** Highest rep count beaten by any counted set of a new entry */
+export function findSetsRepMaxPR(sets: WorkoutSet[], table: RepMaxTable): number | null {
+  return countedSets(sets).reduce<number | null>((best, s) => {
+    const n = findRepMaxPR(s.weight_kg, s.reps, table);
+    return n != null && (best == null || n > best) ? n : best;
+  }, null);
+}
@@ -0,0 +1,48 @@
+import type { PrEintraege } from '@/types/app-extensions';
+import type { PlannedExercise, RoutineItem, RoutineTemplate } from '@/types/local';
+import { extractRecordId } from '@/services/livingAppsService';
+import { entryTopSet } from '@/lib/sets';
+import { bestE1RM, DEFAULT_E1RM_FORMULA, type E1RMFormula } from '@/lib/strength';
+import { roundKgToIncrement, DEFAULT_WEIGHT_UNIT, type WeightUnit } from '@/lib/units';
+
+/**
+ * Working weight for a template item: a percentage of the best e1RM when set,
+ * otherwise the top-set weight of the most recent entry. 0 if there is no history.
+ */
+export function targetWeight(
+  item: RoutineItem,
+  exerciseEntries: PrEintraege[],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+  unit: WeightUnit = DEFAULT_WEIGHT_UNIT
+): number {
+  if (item.percent_1rm) {
+    return roundKgToIncrement((bestE1RM(exerciseEntries, formula) * item.percent_1rm) / 100, unit);
+  }
+  const latest = [...exerciseEntries].sort((a, b) => (b.fields.date ?? '').localeCompare(a.fields.date ?? ''))[0];
+  return latest ? entryTopSet(latest)?.weight_kg ?? 0 : 0;
+}
+
+export function entriesForExercise(entries: PrEintraege[], exerciseId: string): PrEintraege[] {
+  return entries.filter(e => extractRecordId(e.fields.exercise_id) === exerciseId);
+}
+
+/** Turns a template into per-exercise set prescriptions for a new session */
+export function planRoutine(
+  template: RoutineTemplate,
+  entries: PrEintraege[],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+  unit: WeightUnit = DEFAULT_WEIGHT_UNIT
+): PlannedExercise[] {
+  return (template.fields.items ?? []).map(item => {
+    const weight = targetWeight(item, entriesForExercise(entries, item.exercise_id), formula, unit);
+    return {
+      exercise_id: item.exercise_id,
+      sets: Array.from({ length: Math.max(1, item.sets) }, () => ({ weight_kg: weight, reps: item.reps, type: 'working' as const })),
+    };
+  });
+}
+
+export function describeRoutineItem(item: RoutineItem): string {
+  const scheme = `${item.sets} × ${item.reps}`;
+  return item.percent_1rm ? `${scheme} @ ${item.percent_1rm}%` : scheme;
+}
@@ -0,0 +1,82 @@
+import type { PrEintraege } from '@/types/app-extensions';
+import { countedSets, entryTopSet, getEntrySets, type WorkoutSet } from '@/lib/sets';
+import { roundE1RM } from '@/lib/strength';
+
+/** How effort is entered and shown; stored as RPE either way */
+export type EffortScale = 'rpe' | 'rir';
+
+export const EFFORT_SCALES: { key: EffortScale; label: string }[] = [
+  { key: 'rpe', label: 'RPE' },
+  { key: 'rir', label: 'RIR' },
+];
+
+export const DEFAULT_EFFORT_SCALE: EffortScale = 'rpe';
+export const EFFORT_SCALE_PREFERENCE = 'effort-scale';
+
+export const MIN_RPE = 6;
+export const MAX_RPE = 10;
+
+/** 6, 6.5, … 10 */
+export const RPE_VALUES: number[] = Array.from({ length: (MAX_RPE - MIN_RPE) * 2 + 1 }, (_, i) => MIN_RPE + i / 2);
+
+/** Rep counts covered by the percentage table */
+export const RPE_TABLE_REPS: number[] = Array.from({ length: 12 }, (_, i) => i + 1);
+
+// RTS chart (Tuchscherer). Each half RPE step below 10 shifts a rep count by
+// half a rep, so the whole table is one sequence indexed by 2 × (reps − 1 + RIR).
+const RTS_PERCENTAGES = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1, 79.9, 78.6, 77.4,
+  76.2, 75.1, 73.9, 72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 59.9, 58.6, 57.2,
+];
+
+export function isValidRPE(rpe: number | undefined): rpe is number {
+  return rpe != null && rpe >= MIN_RPE && rpe <= MAX_RPE && Number.isInteger(rpe * 2);
+}
+
+export function rpeToRir(rpe: number): number {
+  return MAX_RPE - rpe;
+}
+
+export function rirToRpe(rir: number): number {
+  return MAX_RPE - rir;
+}
+
+/** "@8" or "2 RIR" */
+export function formatEffort(rpe: number, scale: EffortScale = DEFAULT_EFFORT_SCALE): string {
+  return scale === 'rir'
+    ? `${rpeToRir(rpe).toLocaleString('de-DE')} RIR`
+    : `@${rpe.toLocaleString('de-DE')}`;
+}
+
+/** Percent of 1RM for `reps` at `rpe`; null outside the table */
+export function rpePercentage(reps: number, rpe: number): number | null {
+  if (!Number.isInteger(reps) || reps < 1 || reps > RPE_TABLE_REPS.length || !isValidRPE(rpe)) return null;
+  return RTS_PERCENTAGES[2 * (reps - 1) + 2 * rpeToRir(rpe)] ?? null;
+}
+
+/** e1RM from the percentage table; a set without a valid RPE has none */
+export function setRpeE1RM(set: WorkoutSet): number {
+  if (set.weight_kg <= 0 || !isValidRPE(set.rpe)) return 0;
+  const percent = rpePercentage(set.reps, set.rpe);
+  return percent ? roundE1RM((set.weight_kg * 100) / percent) : 0;
+}
+
+export function setsRpeE1RM(sets: WorkoutSet[]): number {
+  return countedSets(sets).reduce((max, s) => Math.max(max, setRpeE1RM(s)), 0);
+}
+
+export function entryRpeE1RM(entry: PrEintraege): number {
+  return setsRpeE1RM(getEntrySets(entry));
+}
+
+/** Effort of the heaviest counted set, falling back to the entry-level value */
+export function entryRPE(entry: PrEintraege): number | null {
+  const rpe = entryTopSet(entry)?.rpe ?? entry.fields.rpe;
+  return isValidRPE(rpe) ? rpe : null;
+}
+
+/** Load in kg for a target of `reps` @ `rpe`, unrounded; 0 outside the table */
+export function loadForTarget(oneRepMax: number, reps: number, rpe: number): number {
+  const percent = rpePercentage(reps, rpe);
+  return percent && oneRepMax > 0 ? (oneRepMax * percent) / 100 : 0;
+}
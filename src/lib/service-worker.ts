@@ -0,0 +1,51 @@
+// Registers the service worker built from src/sw.js and reports when a newer
+// build is waiting. Only production builds ship a worker.
+export const SW_UPDATE_EVENT = 'sw-update-available';
+
+let registration: ServiceWorkerRegistration | null = null;
+
+function watchInstalling(worker: ServiceWorker | null) {
+  worker?.addEventListener('statechange', () => {
+    // An installed worker next to an active one is an update, not the first install
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      window.dispatchEvent(new CustomEvent(SW_UPDATE_EVENT));
+    }
+  });
+}
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        window.dispatchEvent(new CustomEvent(SW_UPDATE_EVENT));
+      }
+      registration.addEventListener('updatefound', () => watchInstalling(registration!.installing));
+    } catch (error) {
+      console.warn('Service worker registration failed:', error);
+    }
+  });
+}
+
+export function hasServiceWorkerUpdate(): boolean {
+  return !!registration?.waiting && !!navigator.serviceWorker.controller;
+}
+
+/** Asks the server for a newer sw.js, e.g. right after a deploy */
+export async function checkForServiceWorkerUpdate() {
+  try {
+    await registration?.update();
+  } catch { /* offline; the browser retries on its own */ }
+}
+
+/** Activates the waiting worker and reloads once it has taken over */
+export function applyServiceWorkerUpdate() {
+  const waiting = registration?.waiting;
+  if (!waiting) {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'SKIP_WAITING' });
+}
@@ -0,0 +1,74 @@
+import { differenceInMinutes, format } from 'date-fns';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { PlannedExercise, WorkoutSession } from '@/types/local';
+import { extractRecordId } from '@/services/livingAppsService';
+
+export const ACTIVE_SESSION_PREFERENCE = 'active-session';
+
+export interface SessionGroup<T extends PrEintraege = PrEintraege> {
+  /** null for entries logged outside a session */
+  session: WorkoutSession | null;
+  entries: T[];
+}
+
+export function defaultSessionName(date: Date = new Date()): string {
+  return `Training ${format(date, 'dd.MM.yyyy')}`;
+}
+
+/** Duration in minutes; running sessions are measured up to `now` */
+export function sessionDurationMinutes(session: WorkoutSession, now: Date = new Date()): number {
+  const { started_at, ended_at } = session.fields;
+  if (!started_at) return 0;
+  return Math.max(0, differenceInMinutes(ended_at ? new Date(ended_at) : now, new Date(started_at)));
+}
+
+export function formatSessionDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
+
+/**
+ * Groups entries by the session that lists them, in the session's entry order.
+ * Sessions come in start order, standalone entries last.
+ */
+export function groupEntriesBySession<T extends PrEintraege>(entries: T[], sessions: WorkoutSession[]): SessionGroup<T>[] {
+  const byId = new Map(entries.map(e => [e.record_id, e]));
+  const assigned = new Set<string>();
+  const groups: SessionGroup<T>[] = [];
+
+  const ordered = [...sessions].sort((a, b) => (a.fields.started_at ?? '').localeCompare(b.fields.started_at ?? ''));
+  for (const session of ordered) {
+    const sessionEntries = (session.fields.entry_ids ?? [])
+      .map(id => byId.get(id))
+      .filter((e): e is T => !!e && !assigned.has(e.record_id));
+    if (sessionEntries.length === 0) continue;
+    sessionEntries.forEach(e => assigned.add(e.record_id));
+    groups.push({ session, entries: sessionEntries });
+  }
+
+  const rest = entries.filter(e => !assigned.has(e.record_id));
+  if (rest.length > 0) groups.push({ session: null, entries: rest });
+  return groups;
+}
+
+/** Exercise ids already logged in a session */
+export function loggedExerciseIds(session: WorkoutSession, entries: PrEintraege[]): Set<string> {
+  const ids = new Set(session.fields.entry_ids ?? []);
+  return new Set(
+    entries
+      .filter(e => ids.has(e.record_id))
+      .map(e => extractRecordId(e.fields.exercise_id))
+      .filter((id): id is string => !!id)
+  );
+}
+
+/** First planned exercise not yet logged, skipping `extraLogged` (e.g. the entry just saved) */
+export function nextPlannedExercise(
+  session: WorkoutSession,
+  entries: PrEintraege[],
+  extraLogged?: string
+): PlannedExercise | null {
+  const logged = loggedExerciseIds(session, entries);
+  if (extraLogged) logged.add(extraLogged);
+  return (session.fields.plan ?? []).find(p => !logged.has(p.exercise_id)) ?? null;
+}
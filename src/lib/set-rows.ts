@@ -0,0 +1,80 @@
+import type { PrEintraege } from '@/types/app-extensions';
+import type { PlannedExercise } from '@/types/local';
+import { getEntrySets, type SetType, type WorkoutSet } from '@/lib/sets';
+import { fromDisplayWeight, toDisplayWeight, type WeightUnit } from '@/lib/units';
+import { DEFAULT_TRACKING_TYPE, formatDuration, parseDuration, trackingInputs, type TrackingType } from '@/lib/tracking';
+
+// Set rows of the PR sheet — strings while typing, parsed on submit
+export interface SetFormRow {
+  /** In the selected display unit */
+  weight: string;
+  reps: string;
+  type: SetType;
+  /** Seconds or m:ss */
+  duration: string;
+  /** Metres */
+  distance: string;
+  /** Always stored as RPE, empty when not rated */
+  rpe: string;
+}
+
+export interface PRFormData {
+  exercise_id: string;
+  date: string;
+  sets: SetFormRow[];
+  note: string;
+}
+
+export const EMPTY_SET_ROW: SetFormRow = { weight: '', reps: '', type: 'working', duration: '', distance: '', rpe: '' };
+
+export function rowsFromEntry(entry: PrEintraege | undefined, unit: WeightUnit): SetFormRow[] {
+  const sets = entry ? getEntrySets(entry) : [];
+  if (sets.length === 0) return [{ ...EMPTY_SET_ROW }];
+  return sets.map((s) => ({
+    weight: String(toDisplayWeight(s.weight_kg, unit)),
+    reps: String(s.reps),
+    type: s.type,
+    duration: s.duration_s != null ? formatDuration(s.duration_s) : '',
+    distance: s.distance_m != null ? String(s.distance_m) : '',
+    rpe: s.rpe != null ? String(s.rpe) : '',
+  }));
+}
+
+export function rowsFromPlan(planned: PlannedExercise, unit: WeightUnit): SetFormRow[] {
+  if (planned.sets.length === 0) return [{ ...EMPTY_SET_ROW }];
+  return planned.sets.map((s) => ({
+    weight: s.weight_kg ? String(toDisplayWeight(s.weight_kg, unit)) : '',
+    reps: String(s.reps),
+    type: s.type,
+    duration: '',
+    distance: '',
+    rpe: '',
+  }));
+}
+
+/** Parses the rows back into canonical kilograms; inputs the tracking type does not use stay 0/unset */
+export function rowsToSets(rows: SetFormRow[], unit: WeightUnit, tracking: TrackingType = DEFAULT_TRACKING_TYPE): WorkoutSet[] {
+  const inputs = trackingInputs(tracking);
+  return rows
+    .map((r, i) => ({
+      index: i + 1,
+      weight_kg: inputs.weight ? fromDisplayWeight(parseFloat(r.weight), unit) : 0,
+      reps: inputs.reps ? parseInt(r.reps) : 0,
+      type: r.type,
+      ...(inputs.duration && { duration_s: parseDuration(r.duration) }),
+      ...(inputs.distance && { distance_m: parseFloat(r.distance) }),
+      ...(r.rpe && { rpe: parseFloat(r.rpe) }),
+    }))
+    .filter((s) => !isNaN(s.weight_kg) && !isNaN(s.reps) && !Number.isNaN(s.duration_s) && !Number.isNaN(s.distance_m));
+}
+
+/** True when a row lacks an input the tracking type needs */
+export function rowsMissingInput(rows: SetFormRow[], tracking: TrackingType): boolean {
+  const inputs = trackingInputs(tracking);
+  return rows.some((row) =>
+    (inputs.weight && !row.weight) ||
+    (inputs.reps && !row.reps) ||
+    (inputs.duration && isNaN(parseDuration(row.duration))) ||
+    (inputs.distance && !row.distance)
+  );
+}
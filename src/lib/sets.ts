@@ -0,0 +1,130 @@
+import type { PrEintraege } from '@/types/app-extensions';
+
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure';
+
+export const SET_TYPES: { key: SetType; label: string; short: string }[] = [
+  { key: 'warmup', label: 'Aufwärmsatz', short: 'W' },
+  { key: 'working', label: 'Arbeitssatz', short: '' },
+  { key: 'drop', label: 'Drop-Satz', short: 'D' },
+  { key: 'failure', label: 'Bis Muskelversagen', short: 'F' },
+];
+
+export interface WorkoutSet {
+  index: number;
+  weight_kg: number;
+  reps: number;
+  type: SetType;
+  /** Only for timed tracking types */
+  duration_s?: number;
+  /** Only for distance tracking types */
+  distance_m?: number;
+  /** Rate of perceived exertion, 6–10 in half steps (10 − reps in reserve) */
+  rpe?: number;
+}
+
+export function setTypeMeta(type: SetType): { key: SetType; label: string; short: string } {
+  return SET_TYPES.find(t => t.key === type) ?? SET_TYPES[1];
+}
+
+function isSetType(v: unknown): v is SetType {
+  return SET_TYPES.some(t => t.key === v);
+}
+
+/** Parse the JSON stored in `set_details`. Returns null for missing or malformed data. */
+export function parseSetDetails(raw: string | undefined): WorkoutSet[] | null {
+  if (!raw) return null;
+  try {
+    const data: unknown = JSON.parse(raw);
+    if (!Array.isArray(data)) return null;
+    return data
+      .filter((s): s is Record<string, unknown> => typeof s === 'object' && s !== null)
+      .map((s, i) => ({
+        index: i + 1,
+        weight_kg: Number(s.weight_kg) || 0,
+        reps: Number(s.reps) || 0,
+        type: isSetType(s.type) ? s.type : 'working',
+        ...(s.duration_s != null && { duration_s: Number(s.duration_s) || 0 }),
+        ...(s.distance_m != null && { distance_m: Number(s.distance_m) || 0 }),
+        ...(s.rpe != null && Number(s.rpe) > 0 && { rpe: Number(s.rpe) }),
+      }));
+  } catch {
+    return null;
+  }
+}
+
+export function serializeSets(sets: WorkoutSet[]): string {
+  return JSON.stringify(sets.map((s, i) => ({
+    index: i + 1,
+    weight_kg: s.weight_kg,
+    reps: s.reps,
+    type: s.type,
+    ...(s.duration_s != null && { duration_s: s.duration_s }),
+    ...(s.distance_m != null && { distance_m: s.distance_m }),
+    ...(s.rpe != null && { rpe: s.rpe }),
+  })));
+}
+
+/**
+ * Individual sets of an entry. Entries logged before per-set tracking only have
+ * the weight/reps/sets triple and expand to `sets` identical working sets.
+ */
+export function getEntrySets(entry: PrEintraege): WorkoutSet[] {
+  return getFieldSets(entry.fields);
+}
+
+export function getFieldSets(fields: Partial<PrEintraege['fields']>): WorkoutSet[] {
+  const parsed = parseSetDetails(fields.set_details);
+  if (parsed) return parsed;
+  const { weight_kg, reps, sets, duration_seconds, distance_m, rpe } = fields;
+  if (weight_kg == null && reps == null && duration_seconds == null && distance_m == null) return [];
+  return Array.from({ length: Math.max(1, sets || 1) }, (_, i) => ({
+    index: i + 1,
+    weight_kg: weight_kg || 0,
+    reps: reps || 0,
+    type: 'working' as SetType,
+    ...(duration_seconds != null && { duration_s: duration_seconds }),
+    ...(distance_m != null && { distance_m }),
+    ...(rpe != null && { rpe }),
+  }));
+}
+
+/** Warm-up sets never count towards PRs or volume */
+export function isCountedSet(set: WorkoutSet): boolean {
+  return set.type !== 'warmup';
+}
+
+export function countedSets(sets: WorkoutSet[]): WorkoutSet[] {
+  return sets.filter(isCountedSet);
+}
+
+/** Heaviest counted set; more reps wins a tie */
+export function topSet(sets: WorkoutSet[]): WorkoutSet | null {
+  return countedSets(sets).reduce<WorkoutSet | null>((best, s) => {
+    if (!best || s.weight_kg > best.weight_kg) return s;
+    if (s.weight_kg === best.weight_kg && s.reps > best.reps) return s;
+    return best;
+  }, null);
+}
+
+export function setsVolume(sets: WorkoutSet[]): number {
+  return countedSets(sets).reduce((sum, s) => sum + s.weight_kg * s.reps, 0);
+}
+
+export function entryTopSet(entry: PrEintraege): WorkoutSet | null {
+  return topSet(getEntrySets(entry));
+}
+
+export function entryVolume(entry: PrEintraege): number {
+  return setsVolume(getEntrySets(entry));
+}
+
+/** Legacy summary fields (top set + working set count) kept in sync for tables and forms */
+export function summarizeSets(sets: WorkoutSet[]): Pick<PrEintraege['fields'], 'weight_kg' | 'reps' | 'sets' | 'rpe'> {
+  const top = topSet(sets) ?? sets[0];
+  return {
+    weight_kg: top?.weight_kg,
+    reps: top?.reps,
+    sets: Math.max(1, countedSets(sets).length),
+    rpe: top?.rpe,
+  };
+}
@@ -0,0 +1,588 @@
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfISOWeek,
+  format,
+  getISODay,
+  getISOWeek,
+  getISOWeekYear,
+  parseISO,
+  startOfISOWeek,
+} from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import { extractRecordId } from '@/services/livingAppsService';
+import { countedSets, entryVolume, getEntrySets, topSet } from '@/lib/sets';
+import { entryE1RM, roundE1RM, type E1RMFormula } from '@/lib/strength';
+import { formatTonnage, toDisplayWeight, type WeightUnit } from '@/lib/units';
+import { formatStreakUnit } from '@/lib/streaks';
+import { countPRs, periodBounds, type PeriodSummary } from '@/lib/period-summary';
+
+/** Colours of the dashboard's dark theme and its share card overlay */
+export const SHARE_CARD_THEME = {
+  background: ['#1a1a24', '#0a0a0f', '#0d0d14', '#141419'],
+  accent: '#ff8fa8',
+  accentRgb: '255, 143, 168',
+  text: '#ffffff',
+  surface: '#1c1c24',
+  font: "'Space Grotesk', system-ui, sans-serif",
+};
+
+export type ShareCardLayout = 'pr' | 'week' | 'chart';
+
+export const SHARE_CARD_LAYOUTS: { key: ShareCardLayout; label: string }[] = [
+  { key: 'pr', label: 'Einzel-PR' },
+  { key: 'week', label: 'Woche' },
+  { key: 'chart', label: 'Verlauf' },
+];
+
+export type ShareCardFormat = 'square' | 'story';
+
+/** Instagram story size */
+export const STORY_SIZE = { width: 1080, height: 1920 };
+
+export const SHARE_CARD_FORMATS: { key: ShareCardFormat; label: string; width: number; height: number }[] = [
+  { key: 'square', label: 'Quadrat 1:1', width: 1080, height: 1080 },
+  { key: 'story', label: 'Story 9:16', ...STORY_SIZE },
+];
+
+/** Replaces absolute weights with relative changes on every card */
+export const SHARE_HIDE_WEIGHTS_PREFERENCE = 'share-hide-weights';
+
+export interface PrCardData {
+  layout: 'pr';
+  exerciseName: string;
+  date: string;
+  weight: number;
+  reps: number;
+  sets: number;
+  isPR?: boolean;
+  totalPRs?: number;
+  /** e1RM gain over the best earlier entry, in percent */
+  improvement: number | null;
+}
+
+export interface WeekCardData {
+  layout: 'week';
+  weekStart: string;
+  sessions: number;
+  sets: number;
+  tonnage: number;
+  prs: number;
+  /** Most-trained exercises of the week with their working sets */
+  exercises: { name: string; sets: number }[];
+}
+
+export interface ChartCardData {
+  layout: 'chart';
+  exerciseName: string;
+  /** Best e1RM per training day, oldest first */
+  points: { date: string; value: number }[];
+}
+
+export type ShareCardData = PrCardData | WeekCardData | ChartCardData;
+
+export interface ShareCardOptions {
+  format: ShareCardFormat;
+  unit: WeightUnit;
+  hideWeights: boolean;
+}
+
+const PADDING = 80;
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return [canvas, canvas.getContext('2d')!];
+}
+
+function glow(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, alpha: number) {
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+  gradient.addColorStop(0, `rgba(${SHARE_CARD_THEME.accentRgb}, ${alpha})`);
+  gradient.addColorStop(1, `rgba(${SHARE_CARD_THEME.accentRgb}, 0)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+/** The overlay's 165° gradient with its three accent glows */
+function paintBackground(ctx: CanvasRenderingContext2D) {
+  const { width, height } = ctx.canvas;
+  const gradient = ctx.createLinearGradient(0, 0, width * 0.5, height);
+  const stops = [0, 0.4, 0.6, 1];
+  SHARE_CARD_THEME.background.forEach((color, i) => gradient.addColorStop(stops[i], color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  glow(ctx, width, 0, width * 0.6, 0.15);
+  glow(ctx, 0, height, width * 0.5, 0.1);
+  glow(ctx, width / 2, height / 2, width * 0.7, 0.05);
+}
+
+function text(
+  ctx: CanvasRenderingContext2D,
+  value: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { weight?: number; color?: string; align?: CanvasTextAlign; alpha?: number } = {},
+) {
+  ctx.save();
+  ctx.font = `${options.weight ?? 400} ${size}px ${SHARE_CARD_THEME.font}`;
+  ctx.fillStyle = options.color ?? SHARE_CARD_THEME.text;
+  ctx.globalAlpha = options.alpha ?? 1;
+  ctx.textAlign = options.align ?? 'left';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(value, x, y);
+  ctx.restore();
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  ctx.beginPath();
+  ctx.roundRect(x, y, w, h, r);
+  ctx.fill();
+}
+
+function paintBranding(ctx: CanvasRenderingContext2D) {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.letterSpacing = '8px';
+  text(ctx, 'PR TRACKER', width / 2, height - PADDING, 28, { weight: 500, align: 'center', alpha: 0.25 });
+  ctx.restore();
+}
+
+/** Heat levels as in the dashboard calendar: 1–2, 3–4 and 5+ entries a day */
+function heatAlpha(count: number): number {
+  if (count === 0) return 0;
+  if (count <= 2) return 0.2;
+  if (count <= 4) return 0.4;
+  return 0.6;
+}
+
+/** GitHub-style grid: one column per ISO week, Monday on top */
+function paintHeatmap(ctx: CanvasRenderingContext2D, summary: PeriodSummary, y: number, maxHeight: number) {
+  const { start, end } = periodBounds(summary.period);
+  const firstWeek = startOfISOWeek(start);
+  const days = eachDayOfInterval({ start, end });
+  const columns = Math.ceil((days.length + getISODay(start) - 1) / 7);
+  const gap = summary.period.month == null ? 3 : 10;
+  const width = ctx.canvas.width - PADDING * 2;
+  const cell = Math.min((width - gap * (columns - 1)) / columns, (maxHeight - gap * 6) / 7);
+  const x = (ctx.canvas.width - (columns * cell + (columns - 1) * gap)) / 2;
+
+  for (let column = 0; column < columns; column++) {
+    for (let row = 0; row < 7; row++) {
+      const day = addDays(firstWeek, column * 7 + row);
+      if (day < start || day > end) continue;
+      const count = summary.dayCounts[format(day, 'yyyy-MM-dd')] ?? 0;
+      ctx.fillStyle = count > 0
+        ? `rgba(${SHARE_CARD_THEME.accentRgb}, ${heatAlpha(count)})`
+        : SHARE_CARD_THEME.surface;
+      roundedRect(ctx, x + column * (cell + gap), y + row * (cell + gap), cell, cell, cell * 0.2);
+    }
+  }
+}
+
+/** Story-format recap card for a year or month */
+export function renderPeriodCard(summary: PeriodSummary, unit: WeightUnit): HTMLCanvasElement {
+  const [canvas, ctx] = createCanvas(STORY_SIZE.width, STORY_SIZE.height);
+  const { width } = canvas;
+  const inner = width - PADDING * 2;
+  paintBackground(ctx);
+
+  ctx.save();
+  ctx.letterSpacing = '4px';
+  text(ctx, summary.label.toUpperCase(), width / 2, 220, 40, { weight: 700, color: SHARE_CARD_THEME.accent, align: 'center' });
+  ctx.restore();
+
+  // Hero: training days
+  ctx.save();
+  ctx.shadowColor = `rgba(${SHARE_CARD_THEME.accentRgb}, 0.6)`;
+  ctx.shadowBlur = 60;
+  text(ctx, String(summary.sessions), width / 2, 470, 240, { weight: 700, color: SHARE_CARD_THEME.accent, align: 'center' });
+  ctx.restore();
+  text(ctx, 'Trainingstage', width / 2, 540, 44, { align: 'center', alpha: 0.5 });
+
+  // 2×2 stat grid
+  const tiles: [string, string][] = [
+    [formatTonnage(summary.tonnage, unit), 'Tonnage'],
+    [String(summary.prCount), 'PRs'],
+    [String(summary.longestStreak), `${formatStreakUnit(summary.longestStreak, summary.streakUnit)} Streak`],
+    [String(summary.entries), 'Einträge'],
+  ];
+  const tileGap = 24;
+  const tileWidth = (inner - tileGap) / 2;
+  const tileHeight = 170;
+  tiles.forEach(([value, label], i) => {
+    const x = PADDING + (i % 2) * (tileWidth + tileGap);
+    const y = 620 + Math.floor(i / 2) * (tileHeight + tileGap);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+    roundedRect(ctx, x, y, tileWidth, tileHeight, 28);
+    text(ctx, value, x + 36, y + 90, 64, { weight: 700 });
+    text(ctx, label, x + 36, y + 136, 30, { alpha: 0.45 });
+  });
+
+  let y = 620 + 2 * tileHeight + tileGap + 90;
+  const highlights: [string, string][] = [];
+  if (summary.mostTrained) highlights.push(['Meisttrainiert', summary.mostTrained.name]);
+  if (summary.bestMonth) highlights.push(['Bester Monat', summary.bestMonth.label]);
+  if (summary.biggestGains[0]) {
+    const gain = summary.biggestGains[0];
+    highlights.push(['Größter Sprung', `${gain.name} +${Math.round(gain.percent)} %`]);
+  }
+  for (const [label, value] of highlights) {
+    text(ctx, label, PADDING, y, 30, { alpha: 0.45 });
+    text(ctx, value, width - PADDING, y, 36, { weight: 600, align: 'right' });
+    y += 70;
+  }
+
+  paintHeatmap(ctx, summary, y + 30, canvas.height - y - 30 - PADDING * 2);
+  paintBranding(ctx);
+  return canvas;
+}
+
+const MAX_WEEK_EXERCISES = 5;
+const MAX_CHART_POINTS = 30;
+
+function byDate(entries: PrEintraege[]): PrEintraege[] {
+  return entries.filter(e => e.fields.date).sort((a, b) => a.fields.date!.localeCompare(b.fields.date!));
+}
+
+/** `entry` as a single-PR card; `exerciseEntries` are all entries of its exercise */
+export function buildPrCard(
+  entry: PrEintraege,
+  exerciseName: string,
+  exerciseEntries: PrEintraege[],
+  formula: E1RMFormula,
+  extra: { isPR?: boolean; totalPRs?: number } = {},
+): PrCardData {
+  const sets = countedSets(getEntrySets(entry));
+  const top = topSet(sets);
+  const date = entry.fields.date ?? '';
+  const previousBest = Math.max(
+    0,
+    ...exerciseEntries
+      .filter(e => e.record_id !== entry.record_id && (e.fields.date ?? '') < date)
+      .map(e => entryE1RM(e, formula)),
+  );
+  const e1rm = entryE1RM(entry, formula);
+  return {
+    layout: 'pr',
+    exerciseName,
+    date,
+    weight: top?.weight_kg ?? entry.fields.weight_kg ?? 0,
+    reps: top?.reps ?? entry.fields.reps ?? 0,
+    sets: sets.length || entry.fields.sets || 1,
+    improvement: previousBest > 0 && e1rm > previousBest ? ((e1rm - previousBest) / previousBest) * 100 : null,
+    ...extra,
+  };
+}
+
+/** The ISO week around `date` across all exercises */
+export function buildWeekCard(date: string, allEntries: PrEintraege[], exerciseList: Uebungen[]): WeekCardData {
+  const start = startOfISOWeek(parseISO(date));
+  const from = format(start, 'yyyy-MM-dd');
+  const to = format(endOfISOWeek(start), 'yyyy-MM-dd');
+  const exercises = new Map(exerciseList.map(ex => [ex.record_id, ex]));
+  const sorted = byDate(allEntries);
+  const inWeek = sorted.filter(e => e.fields.date!.slice(0, 10) >= from && e.fields.date!.slice(0, 10) <= to);
+
+  const perExercise = new Map<string, number>();
+  let sets = 0;
+  for (const e of inWeek) {
+    const count = countedSets(getEntrySets(e)).length;
+    const name = exercises.get(extractRecordId(e.fields.exercise_id) ?? '')?.fields.name ?? 'Unbekannt';
+    perExercise.set(name, (perExercise.get(name) ?? 0) + count);
+    sets += count;
+  }
+
+  return {
+    layout: 'week',
+    weekStart: from,
+    sessions: new Set(inWeek.map(e => e.fields.date!.slice(0, 10))).size,
+    sets,
+    tonnage: inWeek.reduce((sum, e) => sum + entryVolume(e), 0),
+    prs: countPRs(sorted, exercises, from, to),
+    exercises: Array.from(perExercise, ([name, count]) => ({ name, sets: count }))
+      .sort((a, b) => b.sets - a.sets)
+      .slice(0, MAX_WEEK_EXERCISES),
+  };
+}
+
+/** e1RM history of one exercise, limited to the latest training days */
+export function buildChartCard(exerciseName: string, exerciseEntries: PrEintraege[], formula: E1RMFormula): ChartCardData {
+  const perDay = new Map<string, number>();
+  for (const e of byDate(exerciseEntries)) {
+    const day = e.fields.date!.slice(0, 10);
+    perDay.set(day, Math.max(perDay.get(day) ?? 0, entryE1RM(e, formula)));
+  }
+  const points = Array.from(perDay, ([date, value]) => ({ date, value }))
+    .filter(p => p.value > 0)
+    .slice(-MAX_CHART_POINTS);
+  return { layout: 'chart', exerciseName, points };
+}
+
+interface Block {
+  height: number;
+  paint: (y: number) => void;
+}
+
+/** Paints blocks top to bottom, centred vertically between the top padding and the branding */
+function paintStack(ctx: CanvasRenderingContext2D, blocks: Block[], gap: number) {
+  const total = blocks.reduce((sum, b) => sum + b.height, 0) + gap * (blocks.length - 1);
+  let y = Math.max(PADDING, (ctx.canvas.height - PADDING - total) / 2);
+  for (const block of blocks) {
+    block.paint(y);
+    y += block.height + gap;
+  }
+}
+
+function pill(ctx: CanvasRenderingContext2D, label: string, y: number) {
+  const { width } = ctx.canvas;
+  ctx.save();
+  ctx.font = `700 34px ${SHARE_CARD_THEME.font}`;
+  const pillWidth = ctx.measureText(label).width + 80;
+  ctx.fillStyle = `rgba(${SHARE_CARD_THEME.accentRgb}, 0.2)`;
+  roundedRect(ctx, (width - pillWidth) / 2, y, pillWidth, 72, 36);
+  ctx.restore();
+  text(ctx, label, width / 2, y + 48, 34, { weight: 700, color: SHARE_CARD_THEME.accent, align: 'center' });
+}
+
+function hero(ctx: CanvasRenderingContext2D, value: string, suffix: string, y: number, size: number) {
+  const { width } = ctx.canvas;
+  ctx.save();
+  ctx.font = `700 ${size}px ${SHARE_CARD_THEME.font}`;
+  const valueWidth = ctx.measureText(value).width;
+  ctx.font = `500 ${size * 0.3}px ${SHARE_CARD_THEME.font}`;
+  const suffixWidth = suffix ? ctx.measureText(suffix).width + 24 : 0;
+  ctx.restore();
+  const x = (width - valueWidth - suffixWidth) / 2;
+  ctx.save();
+  ctx.shadowColor = `rgba(${SHARE_CARD_THEME.accentRgb}, 0.6)`;
+  ctx.shadowBlur = 60;
+  text(ctx, value, x, y + size * 0.8, size, { weight: 700, color: SHARE_CARD_THEME.accent });
+  ctx.restore();
+  if (suffix) text(ctx, suffix, x + valueWidth + 24, y + size * 0.8, size * 0.3, { weight: 500, alpha: 0.5 });
+}
+
+function formatPercent(value: number): string {
+  return `+${value.toLocaleString('de-DE', { maximumFractionDigits: 1 })} %`;
+}
+
+function paintPrCard(ctx: CanvasRenderingContext2D, data: PrCardData, options: ShareCardOptions) {
+  const { width } = ctx.canvas;
+  const showGain = options.hideWeights && data.improvement != null;
+  const blocks: Block[] = [];
+  if (data.isPR) blocks.push({ height: 72, paint: y => pill(ctx, 'NEW PR', y) });
+  blocks.push({
+    height: 130,
+    paint: y => {
+      text(ctx, data.exerciseName, width / 2, y + 64, 72, { weight: 700, align: 'center' });
+      if (data.date) {
+        text(ctx, format(parseISO(data.date), 'dd. MMMM yyyy', { locale: de }), width / 2, y + 124, 36, { align: 'center', alpha: 0.4 });
+      }
+    },
+  });
+  if (!options.hideWeights || showGain) {
+    blocks.push({
+      height: 230,
+      paint: y => showGain
+        ? hero(ctx, formatPercent(data.improvement!), 'e1RM', y, 180)
+        : hero(ctx, String(toDisplayWeight(data.weight, options.unit)), options.unit, y, 230),
+    });
+  }
+  blocks.push({
+    height: 70,
+    paint: y => text(ctx, `${data.reps} reps × ${data.sets} sets`, width / 2, y + 56, 56, { weight: 600, align: 'center', alpha: 0.7 }),
+  });
+  if (!options.hideWeights && data.improvement != null) {
+    blocks.push({
+      height: 44,
+      paint: y => text(ctx, `${formatPercent(data.improvement!)} e1RM`, width / 2, y + 36, 36, { color: SHARE_CARD_THEME.accent, align: 'center' }),
+    });
+  }
+  if (data.totalPRs && data.totalPRs > 1) {
+    blocks.push({ height: 44, paint: y => text(ctx, `${data.totalPRs} PRs total`, width / 2, y + 36, 36, { align: 'center', alpha: 0.4 }) });
+  }
+  paintStack(ctx, blocks, 56);
+}
+
+function paintWeekCard(ctx: CanvasRenderingContext2D, data: WeekCardData, options: ShareCardOptions) {
+  const { width } = ctx.canvas;
+  const inner = width - PADDING * 2;
+  const start = parseISO(data.weekStart);
+  const tiles: [string, string][] = [
+    [String(data.sets), 'Sätze'],
+    [String(data.prs), 'PRs'],
+  ];
+  if (!options.hideWeights) tiles.push([formatTonnage(data.tonnage, options.unit), 'Tonnage']);
+
+  const blocks: Block[] = [
+    {
+      height: 100,
+      paint: y => {
+        ctx.save();
+        ctx.letterSpacing = '4px';
+        text(ctx, `KW ${getISOWeek(start)} · ${getISOWeekYear(start)}`, width / 2, y + 40, 40, { weight: 700, color: SHARE_CARD_THEME.accent, align: 'center' });
+        ctx.restore();
+        text(
+          ctx,
+          `${format(start, 'dd.MM.')} – ${format(endOfISOWeek(start), 'dd.MM.yyyy')}`,
+          width / 2, y + 92, 32, { align: 'center', alpha: 0.4 },
+        );
+      },
+    },
+    { height: 200, paint: y => hero(ctx, String(data.sessions), data.sessions === 1 ? 'Trainingstag' : 'Trainingstage', y, 200) },
+    {
+      height: 150,
+      paint: y => {
+        const gap = 24;
+        const tileWidth = (inner - gap * (tiles.length - 1)) / tiles.length;
+        tiles.forEach(([value, label], i) => {
+          const x = PADDING + i * (tileWidth + gap);
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+          roundedRect(ctx, x, y, tileWidth, 150, 28);
+          text(ctx, value, x + tileWidth / 2, y + 78, 56, { weight: 700, align: 'center' });
+          text(ctx, label, x + tileWidth / 2, y + 122, 28, { align: 'center', alpha: 0.45 });
+        });
+      },
+    },
+  ];
+  // The square format only has room for the top three
+  const rows = data.exercises.slice(0, options.format === 'story' ? MAX_WEEK_EXERCISES : 3);
+  if (rows.length > 0) {
+    blocks.push({
+      height: rows.length * 60,
+      paint: y => rows.forEach((ex, i) => {
+        text(ctx, ex.name, PADDING, y + 44 + i * 60, 36, { weight: 500 });
+        text(ctx, `${ex.sets} Sätze`, width - PADDING, y + 44 + i * 60, 32, { align: 'right', alpha: 0.45 });
+      }),
+    });
+  }
+  paintStack(ctx, blocks, 56);
+}
+
+function paintChartCard(ctx: CanvasRenderingContext2D, data: ChartCardData, options: ShareCardOptions) {
+  const { width, height } = ctx.canvas;
+  const inner = width - PADDING * 2;
+  const first = data.points[0]?.value ?? 0;
+  const last = data.points[data.points.length - 1]?.value ?? 0;
+  const change = first > 0 ? ((last - first) / first) * 100 : 0;
+  const chartHeight = Math.round(height * 0.35);
+
+  const blocks: Block[] = [
+    {
+      height: 130,
+      paint: y => {
+        text(ctx, data.exerciseName, width / 2, y + 64, 72, { weight: 700, align: 'center' });
+        const range = data.points.length > 1
+          ? `${format(parseISO(data.points[0].date), 'MMM yyyy', { locale: de })} – ${format(parseISO(data.points[data.points.length - 1].date), 'MMM yyyy', { locale: de })}`
+          : 'e1RM-Verlauf';
+        text(ctx, range, width / 2, y + 124, 36, { align: 'center', alpha: 0.4 });
+      },
+    },
+    {
+      height: 200,
+      paint: y => options.hideWeights
+        ? hero(ctx, change > 0 ? formatPercent(change) : `${Math.round(change)} %`, 'e1RM', y, 180)
+        : hero(ctx, String(toDisplayWeight(roundE1RM(last), options.unit)), `${options.unit} e1RM`, y, 200),
+    },
+    {
+      height: chartHeight,
+      paint: y => {
+        if (data.points.length < 2) return;
+        const values = data.points.map(p => p.value);
+        const min = Math.min(...values) * 0.95;
+        const max = Math.max(...values) * 1.02;
+        const px = (i: number) => PADDING + (i / (data.points.length - 1)) * inner;
+        const py = (v: number) => y + chartHeight - ((v - min) / (max - min || 1)) * chartHeight;
+
+        const area = ctx.createLinearGradient(0, y, 0, y + chartHeight);
+        area.addColorStop(0, `rgba(${SHARE_CARD_THEME.accentRgb}, 0.35)`);
+        area.addColorStop(1, `rgba(${SHARE_CARD_THEME.accentRgb}, 0)`);
+        ctx.beginPath();
+        ctx.moveTo(px(0), y + chartHeight);
+        data.points.forEach((p, i) => ctx.lineTo(px(i), py(p.value)));
+        ctx.lineTo(px(data.points.length - 1), y + chartHeight);
+        ctx.closePath();
+        ctx.fillStyle = area;
+        ctx.fill();
+
+        ctx.save();
+        ctx.beginPath();
+        data.points.forEach((p, i) => (i === 0 ? ctx.moveTo(px(i), py(p.value)) : ctx.lineTo(px(i), py(p.value))));
+        ctx.strokeStyle = SHARE_CARD_THEME.accent;
+        ctx.lineWidth = 8;
+        ctx.lineJoin = 'round';
+        ctx.shadowColor = `rgba(${SHARE_CARD_THEME.accentRgb}, 0.6)`;
+        ctx.shadowBlur = 24;
+        ctx.stroke();
+        ctx.restore();
+
+        if (!options.hideWeights) {
+          text(ctx, String(toDisplayWeight(roundE1RM(first), options.unit)), PADDING, y + chartHeight + 48, 30, { alpha: 0.4 });
+          text(ctx, String(toDisplayWeight(roundE1RM(last), options.unit)), width - PADDING, y + chartHeight + 48, 30, { align: 'right', alpha: 0.4 });
+        }
+      },
+    },
+  ];
+  paintStack(ctx, blocks, 56);
+}
+
+export function renderShareCard(data: ShareCardData, options: ShareCardOptions): HTMLCanvasElement {
+  const size = SHARE_CARD_FORMATS.find(f => f.key === options.format) ?? SHARE_CARD_FORMATS[0];
+  const [canvas, ctx] = createCanvas(size.width, size.height);
+  paintBackground(ctx);
+  switch (data.layout) {
+    case 'pr':
+      paintPrCard(ctx, data, options);
+      break;
+    case 'week':
+      paintWeekCard(ctx, data, options);
+      break;
+    case 'chart':
+      paintChartCard(ctx, data, options);
+      break;
+  }
+  paintBranding(ctx);
+  return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Bild konnte nicht erzeugt werden'))), 'image/png');
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+export function canCopyImage(): boolean {
+  return typeof ClipboardItem !== 'undefined' && !!navigator.clipboard?.write;
+}
+
+export async function copyImage(blob: Blob) {
+  await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+}
+
+export function canShareFiles(): boolean {
+  const probe = new File([], 'probe.png', { type: 'image/png' });
+  return !!navigator.canShare?.({ files: [probe] });
+}
+
+/** Native share sheet with the image where supported, download otherwise */
+export async function shareImage(blob: Blob, filename: string, title: string): Promise<'shared' | 'downloaded'> {
+  const file = new File([blob], filename, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], title });
+    return 'shared';
+  }
+  downloadBlob(blob, filename);
+  return 'downloaded';
+}
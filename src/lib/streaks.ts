@@ -0,0 +1,177 @@
+import {
+  addDays,
+  addWeeks,
+  differenceInCalendarDays,
+  differenceInCalendarISOWeeks,
+  eachDayOfInterval,
+  format,
+  parseISO,
+  startOfDay,
+  startOfISOWeek,
+} from 'date-fns';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { StreakFreeze } from '@/types/local';
+import { extractRecordId } from '@/services/livingAppsService';
+
+export type StreakKind = 'weekly' | 'daily' | 'exercise';
+
+export const STREAK_KINDS: { key: StreakKind; label: string; description: string }[] = [
+  { key: 'weekly', label: 'Wöchentlich', description: 'Jede ISO-Woche mindestens N Trainingstage' },
+  { key: 'daily', label: 'Täglich', description: 'Jeden Tag trainiert' },
+  { key: 'exercise', label: 'Pro Übung', description: 'Jede Woche mindestens N Tage mit einer bestimmten Übung' },
+];
+
+export interface StreakDefinition {
+  kind: StreakKind;
+  /** Training days per week for 'weekly' and 'exercise' */
+  minSessions: number;
+  /** Uebungen record_id for 'exercise' */
+  exerciseId?: string;
+}
+
+export const DEFAULT_STREAK_DEFINITION: StreakDefinition = { kind: 'weekly', minSessions: 1 };
+export const STREAK_DEFINITION_PREFERENCE = 'streak-definition';
+
+export type FreezeReason = 'ruhetag' | 'krankheit' | 'urlaub';
+
+export const FREEZE_REASONS: { key: FreezeReason; label: string }[] = [
+  { key: 'ruhetag', label: 'Geplante Pause' },
+  { key: 'krankheit', label: 'Krankheit' },
+  { key: 'urlaub', label: 'Urlaub' },
+];
+
+/**
+ * hit: requirement met, extends the streak. bridged: frozen and not missed,
+ * keeps the streak without extending it. missed: breaks it. open: the current
+ * period, which can still be met and so never breaks the streak.
+ */
+export type PeriodStatus = 'hit' | 'bridged' | 'missed' | 'open';
+
+export interface StreakPeriod {
+  start: Date;
+  status: PeriodStatus;
+  /** Streak length after this period */
+  run: number;
+  /** Training day on which the requirement was met */
+  hitOn?: string;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  unit: 'day' | 'week';
+  /** The running period still needs training to count */
+  pending: boolean;
+}
+
+/** Unique training days (YYYY-MM-DD), oldest first; restricted to one exercise if given */
+export function trainingDays(entries: PrEintraege[], exerciseId?: string): string[] {
+  const days = new Set<string>();
+  for (const e of entries) {
+    if (!e.fields.date) continue;
+    if (exerciseId && extractRecordId(e.fields.exercise_id) !== exerciseId) continue;
+    days.add(e.fields.date.slice(0, 10));
+  }
+  return Array.from(days).sort();
+}
+
+/** Every frozen day as YYYY-MM-DD */
+export function frozenDays(freezes: StreakFreeze[]): Set<string> {
+  const days = new Set<string>();
+  for (const f of freezes) {
+    if (!f.fields.start_date) continue;
+    const start = parseISO(f.fields.start_date);
+    const end = f.fields.end_date ? parseISO(f.fields.end_date) : start;
+    if (end < start) continue;
+    eachDayOfInterval({ start, end }).forEach(d => days.add(format(d, 'yyyy-MM-dd')));
+  }
+  return days;
+}
+
+function dailyPeriods(days: string[], frozen: Set<string>, now: Date): StreakPeriod[] {
+  const trained = new Set(days);
+  const today = startOfDay(now);
+  const periods: StreakPeriod[] = [];
+  let run = 0;
+  for (let day = parseISO(days[0]); day <= today; day = addDays(day, 1)) {
+    const key = format(day, 'yyyy-MM-dd');
+    let status: PeriodStatus;
+    if (trained.has(key)) status = 'hit';
+    else if (frozen.has(key)) status = 'bridged';
+    else status = differenceInCalendarDays(today, day) === 0 ? 'open' : 'missed';
+    if (status === 'hit') run++;
+    if (status === 'missed') run = 0;
+    periods.push({ start: day, status, run, hitOn: status === 'hit' ? key : undefined });
+  }
+  return periods;
+}
+
+/**
+ * Weeks run Monday to Sunday on the ISO week-year, so years with 53 weeks and
+ * the turn of the year need no special casing. Frozen days lower the week's
+ * requirement in proportion; a fully frozen week is bridged.
+ */
+function weeklyPeriods(days: string[], minSessions: number, frozen: Set<string>, now: Date): StreakPeriod[] {
+  const byWeek = new Map<number, string[]>();
+  const firstWeek = startOfISOWeek(parseISO(days[0]));
+  for (const day of days) {
+    const index = differenceInCalendarISOWeeks(parseISO(day), firstWeek);
+    byWeek.set(index, [...(byWeek.get(index) ?? []), day]);
+  }
+
+  const currentIndex = differenceInCalendarISOWeeks(now, firstWeek);
+  const periods: StreakPeriod[] = [];
+  let run = 0;
+  for (let index = 0; index <= currentIndex; index++) {
+    const start = addWeeks(firstWeek, index);
+    const trained = byWeek.get(index) ?? [];
+    const frozenCount = Array.from({ length: 7 }, (_, i) => format(addDays(start, i), 'yyyy-MM-dd'))
+      .filter(d => frozen.has(d) && !trained.includes(d)).length;
+    const required = Math.ceil((minSessions * (7 - frozenCount)) / 7);
+
+    let status: PeriodStatus;
+    if (trained.length >= minSessions) status = 'hit';
+    else if (frozenCount > 0 && trained.length >= required) status = 'bridged';
+    else status = index === currentIndex ? 'open' : 'missed';
+    if (status === 'hit') run++;
+    if (status === 'missed') run = 0;
+    periods.push({ start, status, run, hitOn: status === 'hit' ? trained[minSessions - 1] : undefined });
+  }
+  return periods;
+}
+
+/** One period per day or ISO week from the first training day up to `now` */
+export function streakPeriods(
+  days: string[],
+  definition: StreakDefinition,
+  freezes: StreakFreeze[] = [],
+  now: Date = new Date(),
+): StreakPeriod[] {
+  if (days.length === 0) return [];
+  const frozen = frozenDays(freezes);
+  return definition.kind === 'daily'
+    ? dailyPeriods(days, frozen, now)
+    : weeklyPeriods(days, Math.max(1, definition.minSessions), frozen, now);
+}
+
+export function summarizeStreak(
+  entries: PrEintraege[],
+  definition: StreakDefinition,
+  freezes: StreakFreeze[] = [],
+  now: Date = new Date(),
+): StreakSummary {
+  const days = trainingDays(entries, definition.kind === 'exercise' ? definition.exerciseId : undefined);
+  const periods = streakPeriods(days, definition, freezes, now);
+  const last = periods[periods.length - 1];
+  return {
+    current: last?.run ?? 0,
+    longest: Math.max(0, ...periods.map(p => p.run)),
+    unit: definition.kind === 'daily' ? 'day' : 'week',
+    pending: last?.status === 'open',
+  };
+}
+
+export function formatStreakUnit(count: number, unit: 'day' | 'week'): string {
+  if (unit === 'day') return count === 1 ? 'Tag' : 'Tage';
+  return count === 1 ? 'Woche' : 'Wochen';
+}
@@ -0,0 +1,100 @@
+import type { Uebungen } from '@/types/app-extensions';
+
+export type Sex = 'm' | 'f';
+
+export const SEXES: { key: Sex; label: string }[] = [
+  { key: 'm', label: 'Männlich' },
+  { key: 'f', label: 'Weiblich' },
+];
+
+export const DEFAULT_SEX: Sex = 'm';
+export const ATHLETE_SEX_PREFERENCE = 'athlete-sex';
+
+export type MainLift = 'kniebeuge' | 'bankdruecken' | 'kreuzheben' | 'schulterdruecken';
+
+// Variations (front squat, RDL, incline …) are not scored against the competition lifts
+const MAIN_LIFTS: { key: MainLift; label: string; pattern: RegExp; exclude?: RegExp }[] = [
+  { key: 'kniebeuge', label: 'Kniebeuge', pattern: /kniebeuge|squat/i, exclude: /front|goblet|split|hack|bulgar/i },
+  { key: 'bankdruecken', label: 'Bankdrücken', pattern: /bankdrücken|bench/i, exclude: /schräg|incline|decline|negativ|eng|close/i },
+  { key: 'kreuzheben', label: 'Kreuzheben', pattern: /kreuzheben|deadlift/i, exclude: /rumänisch|romanian|rdl|gestreckt|stiff/i },
+  { key: 'schulterdruecken', label: 'Schulterdrücken', pattern: /schulterdrücken|overhead|military|ohp/i, exclude: /kurzhantel|dumbbell|maschine|machine/i },
+];
+
+export function mainLift(exercise: Uebungen | undefined): MainLift | null {
+  const name = exercise?.fields.name;
+  if (!name) return null;
+  return MAIN_LIFTS.find(l => l.pattern.test(name) && !l.exclude?.test(name))?.key ?? null;
+}
+
+export function mainLiftLabel(lift: MainLift): string {
+  return MAIN_LIFTS.find(l => l.key === lift)?.label ?? lift;
+}
+
+function polynomial(coefficients: number[], x: number): number {
+  return coefficients.reduce((sum, c, power) => sum + c * Math.pow(x, power), 0);
+}
+
+const WILKS_COEFFICIENTS: Record<Sex, number[]> = {
+  m: [-216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8],
+  f: [594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913, 4.731582e-5, -9.054e-8],
+};
+
+const WILKS_BODYWEIGHT: Record<Sex, [number, number]> = { m: [40, 201.9], f: [26.51, 154.53] };
+
+const DOTS_COEFFICIENTS: Record<Sex, number[]> = {
+  m: [-307.75076, 24.0900756, -0.1918759221, 0.0007391293, -0.000001093],
+  f: [-57.96288, 13.6175032, -0.1126655495, 0.0005158568, -0.0000010706],
+};
+
+const DOTS_BODYWEIGHT: Record<Sex, [number, number]> = { m: [40, 210], f: [40, 150] };
+
+// IPF GL (2020), classic/raw. Only full power and bench-only are defined.
+const IPF_GL_COEFFICIENTS: Record<'total' | 'bench', Record<Sex, [number, number, number]>> = {
+  total: { m: [1199.72839, 1025.18162, 0.00921], f: [610.32796, 1045.59282, 0.03048] },
+  bench: { m: [320.98041, 281.40258, 0.01008], f: [142.40398, 442.52671, 0.04724] },
+};
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function roundPoints(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function wilksPoints(liftedKg: number, bodyweightKg: number, sex: Sex): number {
+  if (liftedKg <= 0 || bodyweightKg <= 0) return 0;
+  const bw = clamp(bodyweightKg, WILKS_BODYWEIGHT[sex]);
+  return roundPoints((liftedKg * 500) / polynomial(WILKS_COEFFICIENTS[sex], bw));
+}
+
+export function dotsPoints(liftedKg: number, bodyweightKg: number, sex: Sex): number {
+  if (liftedKg <= 0 || bodyweightKg <= 0) return 0;
+  const bw = clamp(bodyweightKg, DOTS_BODYWEIGHT[sex]);
+  return roundPoints((liftedKg * 500) / polynomial(DOTS_COEFFICIENTS[sex], bw));
+}
+
+/** IPF Goodlift points; the formula is undefined below 35 kg bodyweight */
+export function ipfGlPoints(liftedKg: number, bodyweightKg: number, sex: Sex, event: 'total' | 'bench'): number {
+  if (liftedKg <= 0 || bodyweightKg < 35) return 0;
+  const [a, b, c] = IPF_GL_COEFFICIENTS[event][sex];
+  return roundPoints((liftedKg * 100) / (a - b * Math.exp(-c * bodyweightKg)));
+}
+
+export interface StrengthScores {
+  /** Lift as a multiple of bodyweight */
+  multiple: number;
+  wilks: number;
+  dots: number;
+  /** Only bench press has a single-lift IPF GL formula */
+  ipfGl: number | null;
+}
+
+export function strengthScores(lift: MainLift, liftedKg: number, bodyweightKg: number, sex: Sex): StrengthScores {
+  return {
+    multiple: bodyweightKg > 0 ? Math.round((liftedKg / bodyweightKg) * 100) / 100 : 0,
+    wilks: wilksPoints(liftedKg, bodyweightKg, sex),
+    dots: dotsPoints(liftedKg, bodyweightKg, sex),
+    ipfGl: lift === 'bankdruecken' ? ipfGlPoints(liftedKg, bodyweightKg, sex, 'bench') : null,
+  };
+}
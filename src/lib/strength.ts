@@ -0,0 +1,79 @@
+import type { PrEintraege } from '@/types/app-extensions';
+import { countedSets, getEntrySets, type WorkoutSet } from '@/lib/sets';
+
+export type E1RMFormula = 'epley' | 'brzycki' | 'lombardi' | 'wathan';
+
+export const E1RM_FORMULAS: { key: E1RMFormula; label: string }[] = [
+  { key: 'epley', label: 'Epley' },
+  { key: 'brzycki', label: 'Brzycki' },
+  { key: 'lombardi', label: 'Lombardi' },
+  { key: 'wathan', label: 'Wathan' },
+];
+
+export const DEFAULT_E1RM_FORMULA: E1RMFormula = 'epley';
+export const E1RM_FORMULA_PREFERENCE = 'e1rm-formula';
+
+/** Users pick their own formula; the shared key covers the time before sign-in */
+export function e1rmFormulaPreference(userId: string | null): string {
+  return userId ? `${E1RM_FORMULA_PREFERENCE}:${userId}` : E1RM_FORMULA_PREFERENCE;
+}
+
+/** Estimated one-rep max for a set of `reps` with `weight`. A single rep is its own 1RM. */
+export function estimateOneRepMax(weight: number, reps: number, formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1) return weight;
+  switch (formula) {
+    case 'epley':
+      return weight * (1 + reps / 30);
+    case 'brzycki':
+      // Denominator hits zero at 37 reps
+      return (weight * 36) / (37 - Math.min(reps, 36));
+    case 'lombardi':
+      return weight * Math.pow(reps, 0.1);
+    case 'wathan':
+      return (100 * weight) / (48.8 + 53.8 * Math.exp(-0.075 * reps));
+    default:
+      return weight;
+  }
+}
+
+/** Inverse of `formula`: weight that leaves `reserve` reps in the tank at `reps` */
+export function weightForReps(
+  oneRepMax: number,
+  reps: number,
+  reserve = 0,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+): number {
+  if (oneRepMax <= 0 || reps <= 0) return 0;
+  const total = reps + reserve;
+  if (total <= 1) return oneRepMax;
+  switch (formula) {
+    case 'epley':
+      return oneRepMax / (1 + total / 30);
+    case 'brzycki':
+      return (oneRepMax * (37 - Math.min(total, 36))) / 36;
+    case 'lombardi':
+      return oneRepMax / Math.pow(total, 0.1);
+    case 'wathan':
+      return (oneRepMax * (48.8 + 53.8 * Math.exp(-0.075 * total))) / 100;
+    default:
+      return oneRepMax;
+  }
+}
+
+export function roundE1RM(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Best e1RM over the counted sets (warm-ups excluded) */
+export function setsE1RM(sets: WorkoutSet[], formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number {
+  return roundE1RM(countedSets(sets).reduce((max, s) => Math.max(max, estimateOneRepMax(s.weight_kg, s.reps, formula)), 0));
+}
+
+export function entryE1RM(entry: PrEintraege, formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number {
+  return setsE1RM(getEntrySets(entry), formula);
+}
+
+export function bestE1RM(entries: PrEintraege[], formula: E1RMFormula = DEFAULT_E1RM_FORMULA): number {
+  return entries.reduce((max, e) => Math.max(max, entryE1RM(e, formula)), 0);
+}
@@ -0,0 +1,222 @@
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
+import { lookupKey } from '@/lib/formatters';
+import { countedSets, getEntrySets, type WorkoutSet } from '@/lib/sets';
+import { formatWeight, type WeightUnit } from '@/lib/units';
+
+/** Keys of LOOKUP_OPTIONS['uebungen'].tracking_type */
+export type TrackingType =
+  | 'gewicht'
+  | 'koerpergewicht'
+  | 'zusatzgewicht'
+  | 'unterstuetzt'
+  | 'zeit'
+  | 'distanz'
+  | 'zeit_distanz';
+
+/** Exercises without a tracking type are plain weight × reps, like every entry before tracking types existed */
+export const DEFAULT_TRACKING_TYPE: TrackingType = 'gewicht';
+
+const TRACKING_TYPE_KEYS: TrackingType[] = ['gewicht', 'koerpergewicht', 'zusatzgewicht', 'unterstuetzt', 'zeit', 'distanz', 'zeit_distanz'];
+
+export interface TrackingInputs {
+  weight: boolean;
+  reps: boolean;
+  duration: boolean;
+  distance: boolean;
+  /** Label of the weight input; assisted loads are entered as negative values */
+  weightLabel: string;
+}
+
+export function exerciseTrackingType(exercise: Uebungen | undefined): TrackingType {
+  const key = lookupKey(exercise?.fields.tracking_type);
+  return TRACKING_TYPE_KEYS.find(t => t === key) ?? DEFAULT_TRACKING_TYPE;
+}
+
+export function trackingInputs(type: TrackingType): TrackingInputs {
+  switch (type) {
+    case 'koerpergewicht':
+      return { weight: false, reps: true, duration: false, distance: false, weightLabel: '' };
+    case 'zusatzgewicht':
+      return { weight: true, reps: true, duration: false, distance: false, weightLabel: 'Zusatzgewicht' };
+    case 'unterstuetzt':
+      return { weight: true, reps: true, duration: false, distance: false, weightLabel: 'Unterstützung (negativ)' };
+    case 'zeit':
+      return { weight: false, reps: false, duration: true, distance: false, weightLabel: '' };
+    case 'distanz':
+      return { weight: false, reps: false, duration: false, distance: true, weightLabel: '' };
+    case 'zeit_distanz':
+      return { weight: false, reps: false, duration: true, distance: true, weightLabel: '' };
+    default:
+      return { weight: true, reps: true, duration: false, distance: false, weightLabel: 'Gewicht' };
+  }
+}
+
+/** Weight × reps types; e1RM, plates and rep-maxes only make sense for external load */
+export function usesWeight(type: TrackingType): boolean {
+  return type === 'gewicht' || type === 'zusatzgewicht' || type === 'unterstuetzt';
+}
+
+/** Positive if `a` is the better performance */
+export function compareSets(a: WorkoutSet, b: WorkoutSet, type: TrackingType): number {
+  switch (type) {
+    case 'koerpergewicht':
+      return a.reps - b.reps;
+    case 'zeit':
+      return (a.duration_s ?? 0) - (b.duration_s ?? 0);
+    case 'distanz':
+      return (a.distance_m ?? 0) - (b.distance_m ?? 0);
+    case 'zeit_distanz':
+      // Further wins; over the same distance the faster one
+      return (a.distance_m ?? 0) - (b.distance_m ?? 0) || (b.duration_s ?? 0) - (a.duration_s ?? 0);
+    default:
+      // Assisted loads are negative, so less assistance is the higher weight
+      return a.weight_kg - b.weight_kg || a.reps - b.reps;
+  }
+}
+
+export function bestSet(sets: WorkoutSet[], type: TrackingType): WorkoutSet | null {
+  return countedSets(sets).reduce<WorkoutSet | null>((best, s) => (!best || compareSets(s, best, type) > 0 ? s : best), null);
+}
+
+/** Summary fields of an entry, taken from its best set */
+export function summarizeTrackedSets(
+  sets: WorkoutSet[],
+  type: TrackingType,
+): Pick<PrEintraege['fields'], 'weight_kg' | 'reps' | 'sets' | 'duration_seconds' | 'distance_m' | 'rpe'> {
+  const best = bestSet(sets, type) ?? sets[0];
+  return {
+    weight_kg: best?.weight_kg,
+    reps: best?.reps,
+    sets: Math.max(1, countedSets(sets).length),
+    duration_seconds: best?.duration_s,
+    distance_m: best?.distance_m,
+    rpe: best?.rpe,
+  };
+}
+
+export function entryBestSet(entry: PrEintraege, type: TrackingType): WorkoutSet | null {
+  return bestSet(getEntrySets(entry), type);
+}
+
+/** The number a chart of this type plots: kg, reps, seconds or metres */
+export function performanceValue(set: WorkoutSet | null, type: TrackingType): number {
+  if (!set) return 0;
+  switch (type) {
+    case 'koerpergewicht':
+      return set.reps;
+    case 'zeit':
+      return set.duration_s ?? 0;
+    case 'distanz':
+    case 'zeit_distanz':
+      return set.distance_m ?? 0;
+    default:
+      return set.weight_kg;
+  }
+}
+
+export function performanceLabel(type: TrackingType): string {
+  switch (type) {
+    case 'koerpergewicht':
+      return 'Wiederholungen';
+    case 'zeit':
+      return 'Zeit';
+    case 'distanz':
+    case 'zeit_distanz':
+      return 'Distanz';
+    default:
+      return 'Gewicht';
+  }
+}
+
+/** 95 → "1:35" */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** Accepts plain seconds ("90") as well as "m:ss" and "h:mm:ss"; NaN for anything else */
+export function parseDuration(text: string): number {
+  const trimmed = text.trim();
+  if (!trimmed) return NaN;
+  const parts = trimmed.split(':').map(p => Number(p.replace(',', '.')));
+  if (parts.length > 3 || parts.some(p => isNaN(p) || p < 0)) return NaN;
+  return Math.round(parts.reduce((total, p) => total * 60 + p, 0));
+}
+
+export function formatDistance(metres: number): string {
+  return metres >= 1000
+    ? `${(metres / 1000).toLocaleString('de-DE', { maximumFractionDigits: 2 })} km`
+    : `${Math.round(metres)} m`;
+}
+
+export function formatPerformanceValue(value: number, type: TrackingType, unit: WeightUnit): string {
+  switch (type) {
+    case 'koerpergewicht':
+      return `${value} Wdh.`;
+    case 'zeit':
+      return formatDuration(value);
+    case 'distanz':
+    case 'zeit_distanz':
+      return formatDistance(value);
+    default:
+      return formatWeight(value, unit);
+  }
+}
+
+export function formatSetPerformance(set: WorkoutSet, type: TrackingType, unit: WeightUnit): string {
+  switch (type) {
+    case 'koerpergewicht':
+      return `${set.reps} Wdh.`;
+    case 'zusatzgewicht':
+      return `+${formatWeight(set.weight_kg, unit)} × ${set.reps}`;
+    case 'zeit':
+      return formatDuration(set.duration_s ?? 0);
+    case 'distanz':
+      return formatDistance(set.distance_m ?? 0);
+    case 'zeit_distanz':
+      return `${formatDistance(set.distance_m ?? 0)} in ${formatDuration(set.duration_s ?? 0)}`;
+    default:
+      return `${formatWeight(set.weight_kg, unit)} × ${set.reps}`;
+  }
+}
+
+export function formatEntryPerformance(entry: PrEintraege, type: TrackingType, unit: WeightUnit): string {
+  const best = entryBestSet(entry, type);
+  return best ? formatSetPerformance(best, type, unit) : '—';
+}
+
+export interface TrackedPRAnalysis {
+  /** Better best set than ever before (heavier, more reps, longer, further) */
+  isBestPR: boolean;
+  /** koerpergewicht: more total reps in one entry than ever before */
+  isVolumePR: boolean;
+  /** zeit_distanz: faster average pace than ever before */
+  isPacePR: boolean;
+  previousBest: WorkoutSet | null;
+}
+
+function pace(set: WorkoutSet): number {
+  return set.distance_m && set.duration_s ? set.duration_s / set.distance_m : Infinity;
+}
+
+/** PR check for the types without a meaningful e1RM */
+export function analyzeTrackedPR(newSets: WorkoutSet[], previousEntries: PrEintraege[], type: TrackingType): TrackedPRAnalysis {
+  const newBest = bestSet(newSets, type);
+  const previousSets = previousEntries.flatMap(e => countedSets(getEntrySets(e)));
+  const previousBest = bestSet(previousSets, type);
+  const totalReps = (sets: WorkoutSet[]) => countedSets(sets).reduce((sum, s) => sum + s.reps, 0);
+  const bestPace = (sets: WorkoutSet[]) => Math.min(Infinity, ...countedSets(sets).map(pace));
+
+  return {
+    isBestPR: !!newBest && (!previousBest || compareSets(newBest, previousBest, type) > 0),
+    isVolumePR: type === 'koerpergewicht'
+      && totalReps(newSets) > Math.max(0, ...previousEntries.map(e => totalReps(getEntrySets(e)))),
+    isPacePR: type === 'zeit_distanz'
+      && bestPace(newSets) < Infinity
+      && bestPace(newSets) < bestPace(previousSets),
+    previousBest,
+  };
+}
@@ -0,0 +1,103 @@
+import { differenceInDays } from 'date-fns';
+import type { PrEintraege } from '@/types/app-extensions';
+import type { StreakFreeze } from '@/types/local';
+import { extractRecordId } from '@/services/livingAppsService';
+import { entryTopSet } from '@/lib/sets';
+import { summarizeStreak, type StreakDefinition, type StreakSummary } from '@/lib/streaks';
+import type { ExerciseWithPRs } from '@/lib/exercise-history';
+
+export interface TrainingStats {
+  totalSessions: number;
+  /** One decimal, as shown */
+  sessionsPerWeek: string;
+  /** Average gain of the top set from the first entry to the best, per exercise */
+  strengthGainPercent: number;
+  streak: StreakSummary;
+  topExercises: ExerciseWithPRs[];
+}
+
+/** Overview numbers of the stats tab; null without any entries */
+export function trainingStats(
+  allPrEntries: PrEintraege[],
+  exercises: ExerciseWithPRs[],
+  streakDefinition: StreakDefinition,
+  streakFreezes: StreakFreeze[],
+  now: Date = new Date(),
+): TrainingStats | null {
+  if (allPrEntries.length === 0) return null;
+
+  // Unique training days
+  const uniqueDates = new Set(allPrEntries.map((pr) => pr.fields.date?.split('T')[0]).filter(Boolean));
+  const totalSessions = uniqueDates.size;
+
+  // Sessions per week
+  const sortedDates = Array.from(uniqueDates).sort();
+  const firstDate = sortedDates[0] ? new Date(sortedDates[0]) : now;
+  const daysSinceFirst = Math.max(1, differenceInDays(now, firstDate));
+  const weeksActive = Math.max(1, Math.ceil(daysSinceFirst / 7));
+  const sessionsPerWeek = (totalSessions / weeksActive).toFixed(1);
+
+  // Top 3-5 exercises by frequency
+  const exerciseFrequency: Record<string, number> = {};
+  allPrEntries.forEach((pr) => {
+    const exId = extractRecordId(pr.fields.exercise_id);
+    if (exId) {
+      exerciseFrequency[exId] = (exerciseFrequency[exId] || 0) + 1;
+    }
+  });
+
+  const topExerciseIds = Object.entries(exerciseFrequency)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([id]) => id);
+
+  const topExercises = exercises.filter((ex) => topExerciseIds.includes(ex.record_id));
+
+  // Strength Gain % - Compare first PR weight to current best weight for each exercise
+  const entriesByExercise: Record<string, PrEintraege[]> = {};
+  allPrEntries.forEach((pr) => {
+    const exId = extractRecordId(pr.fields.exercise_id);
+    if (exId) {
+      if (!entriesByExercise[exId]) entriesByExercise[exId] = [];
+      entriesByExercise[exId].push(pr);
+    }
+  });
+
+  let totalGainPercent = 0;
+  let exercisesWithGain = 0;
+
+  Object.values(entriesByExercise).forEach((entries) => {
+    if (entries.length < 2) return; // Need at least 2 entries to compare
+
+    // Sort by date (oldest first)
+    const sorted = entries.sort((a, b) => {
+      const dateA = a.fields.date ? new Date(a.fields.date).getTime() : 0;
+      const dateB = b.fields.date ? new Date(b.fields.date).getTime() : 0;
+      return dateA - dateB;
+    });
+
+    const firstWeight = entryTopSet(sorted[0])?.weight_kg || 0;
+    const currentBestWeight = Math.max(...entries.map(e => entryTopSet(e)?.weight_kg || 0));
+
+    if (firstWeight > 0 && currentBestWeight > firstWeight) {
+      const gainPercent = ((currentBestWeight - firstWeight) / firstWeight) * 100;
+      totalGainPercent += gainPercent;
+      exercisesWithGain++;
+    }
+  });
+
+  const strengthGainPercent = exercisesWithGain > 0
+    ? Math.round(totalGainPercent / exercisesWithGain * 10) / 10
+    : 0;
+
+  // Consistency streak on ISO weeks (or days), bridged by planned breaks
+  const streak = summarizeStreak(allPrEntries, streakDefinition, streakFreezes, now);
+
+  return {
+    totalSessions,
+    sessionsPerWeek,
+    strengthGainPercent,
+    streak,
+    topExercises,
+  };
+}
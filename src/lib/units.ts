@@ -0,0 +1,55 @@
+// Weights are always stored in kilograms; the unit preference only affects display and input.
+export type WeightUnit = 'kg' | 'lb';
+
+export const WEIGHT_UNITS: { key: WeightUnit; label: string }[] = [
+  { key: 'kg', label: 'Kilogramm' },
+  { key: 'lb', label: 'Pfund' },
+];
+
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = 'kg';
+export const WEIGHT_UNIT_PREFERENCE = 'weight-unit';
+
+/** kg or lb is a personal choice; signed-out the shared key applies */
+export function weightUnitPreference(userId: string | null): string {
+  return userId ? `${WEIGHT_UNIT_PREFERENCE}:${userId}` : WEIGHT_UNIT_PREFERENCE;
+}
+
+export const KG_PER_LB = 0.45359237;
+
+/** Smallest realistic jump per unit: a pair of 1.25 kg or 2.5 lb plates */
+export const PLATE_INCREMENT: Record<WeightUnit, number> = { kg: 2.5, lb: 5 };
+
+/** kg → display unit, one decimal */
+export function toDisplayWeight(kg: number, unit: WeightUnit): number {
+  const value = unit === 'lb' ? kg / KG_PER_LB : kg;
+  return Math.round(value * 10) / 10;
+}
+
+/** Display unit → kg, two decimals so a lb value round-trips exactly */
+export function fromDisplayWeight(value: number, unit: WeightUnit): number {
+  const kg = unit === 'lb' ? value * KG_PER_LB : value;
+  return Math.round(kg * 100) / 100;
+}
+
+/** Plate increment of `unit`, expressed in kg */
+export function incrementKg(unit: WeightUnit): number {
+  return fromDisplayWeight(PLATE_INCREMENT[unit], unit);
+}
+
+/** Rounds a kg value to the nearest loadable weight in `unit` and returns kg */
+export function roundKgToIncrement(kg: number, unit: WeightUnit = DEFAULT_WEIGHT_UNIT): number {
+  const step = PLATE_INCREMENT[unit];
+  const display = unit === 'lb' ? kg / KG_PER_LB : kg;
+  return fromDisplayWeight(Math.round(display / step) * step, unit);
+}
+
+export function formatWeight(kg: number, unit: WeightUnit): string {
+  return `${toDisplayWeight(kg, unit)} ${unit}`;
+}
+
+/** Large volumes: tonnes for kg, thousands of pounds for lb */
+export function formatTonnage(kg: number, unit: WeightUnit): string {
+  const value = (unit === 'lb' ? kg / KG_PER_LB : kg) / 1000;
+  const text = value.toLocaleString('de-DE', { maximumFractionDigits: 1 });
+  return unit === 'lb' ? `${text}k lb` : `${text} t`;
+}
@@ -2,6 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/service-worker'
+import { watchUserSession } from './services/currentUser'
+
+registerServiceWorker()
+watchUserSession()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
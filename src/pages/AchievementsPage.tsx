@@ -0,0 +1,90 @@
+import { useState, useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { IconLock } from '@tabler/icons-react';
+import { PageShell } from '@/components/PageShell';
+import { useDashboardData } from '@/hooks/useDashboardData';
+import { LocalRecordService } from '@/services/localRecordService';
+import type { BodyweightEntry } from '@/types/local';
+import {
+  ACHIEVEMENT_CATEGORIES,
+  evaluateAchievements,
+  formatAchievementValue,
+  type AchievementStatus,
+} from '@/lib/achievements';
+
+function AchievementBadge({ status }: { status: AchievementStatus }) {
+  const { definition, progress, unlocked } = status;
+  const share = Math.min(1, progress.value / definition.target);
+
+  return (
+    <div className={`rounded-2xl border p-4 flex flex-col items-center text-center gap-2 ${unlocked ? 'bg-card' : 'bg-muted/40'}`}>
+      <div className={`relative w-14 h-14 rounded-full flex items-center justify-center text-3xl ${unlocked ? 'bg-primary/10' : 'bg-muted grayscale opacity-50'}`}>
+        {definition.emoji}
+        {!unlocked && (
+          <IconLock size={14} className="absolute -bottom-0.5 -right-0.5 text-muted-foreground" />
+        )}
+      </div>
+      <div>
+        <p className="font-semibold text-sm">{definition.title}</p>
+        <p className="text-xs text-muted-foreground">{definition.description}</p>
+      </div>
+      {unlocked ? (
+        <p className="text-xs text-primary mt-auto">
+          {format(parseISO(progress.achievedAt!), 'dd. MMM yyyy', { locale: de })}
+        </p>
+      ) : (
+        <div className="w-full mt-auto space-y-1">
+          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className="h-full rounded-full bg-primary/60" style={{ width: `${share * 100}%` }} />
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {formatAchievementValue(definition, progress.value)} / {formatAchievementValue(definition, definition.target)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AchievementsPage() {
+  const { uebungen, prEintraege, loading } = useDashboardData();
+  const [bodyweight, setBodyweight] = useState<BodyweightEntry[]>([]);
+
+  useEffect(() => {
+    LocalRecordService.getBodyweightEntries().then(setBodyweight);
+  }, []);
+
+  const statuses = useMemo(
+    () => evaluateAchievements({ entries: prEintraege, exercises: uebungen, bodyweight }),
+    [prEintraege, uebungen, bodyweight],
+  );
+  const unlockedCount = statuses.filter(s => s.unlocked).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-32">
+        <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <PageShell title="Erfolge" subtitle={`${unlockedCount} von ${statuses.length} freigeschaltet`}>
+      {ACHIEVEMENT_CATEGORIES.map(category => {
+        const inCategory = statuses.filter(s => s.definition.category === category.key);
+        if (inCategory.length === 0) return null;
+        return (
+          <section key={category.key} className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">{category.label}</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+              {inCategory.map(status => (
+                <AchievementBadge key={status.definition.key} status={status} />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </PageShell>
+  );
+}
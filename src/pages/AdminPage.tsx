@@ -1,7 +1,11 @@
 import { useState, useMemo, useCallback } from 'react';
 import { useDashboardData } from '@/hooks/useDashboardData';
-import type { Uebungen, PrEintraege } from '@/types/app';
-import { LivingAppsService, extractRecordId, cleanFieldsForApi } from '@/services/livingAppsService';
+import { useOptimisticList, type OptimisticList } from '@/hooks/useOptimisticList';
+import type { Uebungen, PrEintraege } from '@/types/app-extensions';
+import { LOOKUP_OPTIONS } from '@/types/app-extensions';
+import { LivingAppsService, extractRecordId } from '@/services/livingAppsService';
+import { cleanRecordFields } from '@/services/recordFields';
+import { ValidationError, validationMessage } from '@/services/apiErrors';
 import { UebungenDialog } from '@/components/dialogs/UebungenDialog';
 import { UebungenViewDialog } from '@/components/dialogs/UebungenViewDialog';
 import { PrEintraegeDialog } from '@/components/dialogs/PrEintraegeDialog';
@@ -25,6 +29,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { IconPencil, IconTrash, IconPlus, IconFilter, IconX, IconArrowsUpDown, IconArrowUp, IconArrowDown, IconSearch, IconCopy } from '@tabler/icons-react';
 import { format, parseISO } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { toast } from 'sonner';
 
 function fmtDate(d?: string) {
   if (!d) return '—';
@@ -35,6 +40,11 @@ function fmtDate(d?: string) {
 const UEBUNGEN_FIELDS = [
   { key: 'name', label: 'Übungsname', type: 'string/text' },
   { key: 'created_at', label: 'Erstellt am', type: 'date/date' },
+  { key: 'primary_muscles', label: 'Primäre Muskelgruppen', type: 'multiplelookup/checkbox', options: LOOKUP_OPTIONS['uebungen']?.primary_muscles },
+  { key: 'secondary_muscles', label: 'Sekundäre Muskelgruppen', type: 'multiplelookup/checkbox', options: LOOKUP_OPTIONS['uebungen']?.secondary_muscles },
+  { key: 'equipment', label: 'Equipment', type: 'lookup/select', options: LOOKUP_OPTIONS['uebungen']?.equipment },
+  { key: 'movement_pattern', label: 'Bewegungsmuster', type: 'lookup/select', options: LOOKUP_OPTIONS['uebungen']?.movement_pattern },
+  { key: 'tracking_type', label: 'Erfassungsart', type: 'lookup/select', options: LOOKUP_OPTIONS['uebungen']?.tracking_type },
 ];
 const PREINTRAEGE_FIELDS = [
   { key: 'exercise_id', label: 'Übung', type: 'applookup/select', targetEntity: 'uebungen', targetAppId: 'UEBUNGEN', displayField: 'name' },
@@ -71,7 +81,6 @@ export default function AdminPage() {
   const [deleteTargets, setDeleteTargets] = useState<{ entity: EntityKey; ids: string[] } | null>(null);
   const [bulkEditOpen, setBulkEditOpen] = useState<EntityKey | null>(null);
   const [viewState, setViewState] = useState<{ entity: EntityKey; record: any } | null>(null);
-  const [bulkLoading, setBulkLoading] = useState(false);
   const [sortKey, setSortKey] = useState('');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
   const [search, setSearch] = useState('');
@@ -203,6 +212,17 @@ export default function AdminPage() {
     setSelectedIds(prev => ({ ...prev, [entity]: new Set() }));
   }, []);
 
+  // Mutations show up in the table right away and roll back on failure
+  const optimisticUebungen = useOptimisticList(data.setUebungen);
+  const optimisticPrEintraege = useOptimisticList(data.setPrEintraege);
+
+  function getOptimistic(entity: EntityKey): OptimisticList<Uebungen | PrEintraege> {
+    switch (entity) {
+      case 'uebungen': return optimisticUebungen as OptimisticList<Uebungen | PrEintraege>;
+      case 'pr_eintraege': return optimisticPrEintraege as OptimisticList<Uebungen | PrEintraege>;
+    }
+  }
+
   const getServiceMethods = useCallback((entity: EntityKey) => {
     switch (entity) {
       case 'uebungen': return {
@@ -219,76 +239,58 @@ export default function AdminPage() {
     }
   }, []);
 
+  // The dialog closes itself once the server has accepted the fields
   async function handleCreate(entity: EntityKey, fields: any) {
     const svc = getServiceMethods(entity);
-    if (!svc) return;
-    await svc.create(fields);
-    fetchAll();
-    setCreateEntity(null);
+    if (!svc) return false;
+    const [id] = await getOptimistic(entity).create([fields], svc.create);
+    return id !== null;
   }
 
   async function handleUpdate(fields: any) {
-    if (!dialogState) return;
+    if (!dialogState) return false;
     const svc = getServiceMethods(dialogState.entity);
-    if (!svc) return;
-    await svc.update(dialogState.record.record_id, fields);
-    fetchAll();
-    setDialogState(null);
+    if (!svc) return false;
+    return getOptimistic(dialogState.entity).update([dialogState.record], fields, svc.update);
+  }
+
+  // Bulk changes have no form field to point at
+  function reportValidationError(error: unknown) {
+    if (!(error instanceof ValidationError)) throw error;
+    toast.error('Speichern fehlgeschlagen', { description: validationMessage(error) });
   }
 
   async function handleBulkDelete() {
     if (!deleteTargets) return;
     const svc = getServiceMethods(deleteTargets.entity);
     if (!svc) return;
-    setBulkLoading(true);
-    try {
-      for (const id of deleteTargets.ids) {
-        await svc.remove(id);
-      }
-      clearSelection(deleteTargets.entity);
-      fetchAll();
-    } finally {
-      setBulkLoading(false);
-      setDeleteTargets(null);
-    }
+    const { entity, ids } = deleteTargets;
+    const targets = getRecords(entity).filter(r => ids.includes(r.record_id));
+    clearSelection(entity);
+    setDeleteTargets(null);
+    void getOptimistic(entity).remove(targets, svc.remove);
   }
 
   async function handleBulkClone() {
     const svc = getServiceMethods(activeTab);
     if (!svc) return;
-    setBulkLoading(true);
-    try {
-      const records = getRecords(activeTab);
-      const ids = Array.from(selectedIds[activeTab]);
-      for (const id of ids) {
-        const rec = records.find((r: any) => r.record_id === id);
-        if (!rec) continue;
-        const clean = cleanFieldsForApi(rec.fields, activeTab);
-        await svc.create(clean as any);
-      }
-      clearSelection(activeTab);
-      fetchAll();
-    } finally {
-      setBulkLoading(false);
-    }
+    const ids = selectedIds[activeTab];
+    const copies = getRecords(activeTab)
+      .filter(r => ids.has(r.record_id))
+      .map(r => cleanRecordFields(r.fields, activeTab));
+    clearSelection(activeTab);
+    void getOptimistic(activeTab).create(copies, svc.create).catch(reportValidationError);
   }
 
   async function handleBulkEdit(fieldKey: string, value: any) {
     if (!bulkEditOpen) return;
     const svc = getServiceMethods(bulkEditOpen);
     if (!svc) return;
-    setBulkLoading(true);
-    try {
-      const ids = Array.from(selectedIds[bulkEditOpen]);
-      for (const id of ids) {
-        await svc.update(id, { [fieldKey]: value });
-      }
-      clearSelection(bulkEditOpen);
-      fetchAll();
-    } finally {
-      setBulkLoading(false);
-      setBulkEditOpen(null);
-    }
+    const ids = selectedIds[bulkEditOpen];
+    const targets = getRecords(bulkEditOpen).filter(r => ids.has(r.record_id));
+    clearSelection(bulkEditOpen);
+    setBulkEditOpen(null);
+    void getOptimistic(bulkEditOpen).update(targets, { [fieldKey]: value }, svc.update).catch(reportValidationError);
   }
 
   function updateFilter(entity: EntityKey, fieldKey: string, value: string) {
@@ -587,7 +589,6 @@ export default function AdminPage() {
         onApply={handleBulkEdit}
         fields={bulkEditOpen ? getFieldMeta(bulkEditOpen) : []}
         selectedCount={bulkEditOpen ? selectedIds[bulkEditOpen].size : 0}
-        loading={bulkLoading}
         lookupLists={bulkEditOpen ? getLookupLists(bulkEditOpen) : {}}
       />
 
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { LivingAppsService, extractRecordId, createRecordUrl } from '@/services/livingAppsService';
-import type { PrEintraege, Uebungen } from '@/types/app';
+import type { PrEintraege, Uebungen } from '@/types/app-extensions';
 import { APP_IDS } from '@/types/app';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,6 +16,12 @@ import { PageShell } from '@/components/PageShell';
 import { AI_PHOTO_SCAN, AI_PHOTO_LOCATION } from '@/config/ai-features';
 import { format, parseISO } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { useQueryRefresh } from '@/hooks/useQueryRefresh';
+import { usePendingRecordIds } from '@/hooks/useOutbox';
+import { useOptimisticList } from '@/hooks/useOptimisticList';
+import { PendingBadge } from '@/components/PendingBadge';
+import { toDisplayWeight } from '@/lib/units';
 
 function formatDate(d?: string) {
   if (!d) return '—';
@@ -33,11 +39,15 @@ export default function PrEintraegePage() {
   const [sortKey, setSortKey] = useState('');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
   const [uebungenList, setUebungenList] = useState<Uebungen[]>([]);
+  const [weightUnit] = useWeightUnit();
 
   useEffect(() => { loadData(); }, []);
+  const pendingIds = usePendingRecordIds(APP_IDS.PR_EINTRAEGE);
+  const optimistic = useOptimisticList(setRecords);
+  useQueryRefresh([APP_IDS.PR_EINTRAEGE, APP_IDS.UEBUNGEN], () => loadData(true));
 
-  async function loadData() {
-    setLoading(true);
+  async function loadData(silent = false) {
+    if (!silent) setLoading(true);
     try {
       const [mainData, uebungenData] = await Promise.all([
         LivingAppsService.getPrEintraege(),
@@ -50,24 +60,21 @@ export default function PrEintraegePage() {
     }
   }
 
+  // The dialog stays open until the server answers so a refused field can be shown there
   async function handleCreate(fields: PrEintraege['fields']) {
-    await LivingAppsService.createPrEintraegeEntry(fields);
-    await loadData();
-    setDialogOpen(false);
+    const [id] = await optimistic.create([fields], f => LivingAppsService.createPrEintraegeEntry(f));
+    return id !== null;
   }
 
   async function handleUpdate(fields: PrEintraege['fields']) {
-    if (!editingRecord) return;
-    await LivingAppsService.updatePrEintraegeEntry(editingRecord.record_id, fields);
-    await loadData();
-    setEditingRecord(null);
+    if (!editingRecord) return false;
+    return optimistic.update([editingRecord], fields, (id, f) => LivingAppsService.updatePrEintraegeEntry(id, f));
   }
 
   async function handleDelete() {
     if (!deleteTarget) return;
-    await LivingAppsService.deletePrEintraegeEntry(deleteTarget.record_id);
-    setRecords(prev => prev.filter(r => r.record_id !== deleteTarget.record_id));
     setDeleteTarget(null);
+    void optimistic.remove([deleteTarget], id => LivingAppsService.deletePrEintraegeEntry(id));
   }
 
   function getUebungenDisplayName(url?: unknown) {
@@ -153,7 +160,7 @@ export default function PrEintraegePage() {
               </TableHead>
               <TableHead className="uppercase text-xs font-semibold text-secondary-foreground tracking-wider px-6 cursor-pointer select-none hover:text-foreground transition-colors" onClick={() => toggleSort('weight_kg')}>
                 <span className="inline-flex items-center gap-1">
-                  Gewicht (kg)
+                  Gewicht ({weightUnit})
                   {sortKey === 'weight_kg' ? (sortDir === 'asc' ? <IconArrowUp size={14} /> : <IconArrowDown size={14} />) : <IconArrowsUpDown size={14} className="opacity-30" />}
                 </span>
               </TableHead>
@@ -182,8 +189,11 @@ export default function PrEintraegePage() {
             {sortRecords(filtered).map(record => (
               <TableRow key={record.record_id} className="hover:bg-muted/50 transition-colors cursor-pointer" onClick={(e) => { if ((e.target as HTMLElement).closest('button, [role="checkbox"]')) return; setViewingRecord(record); }}>
                 <TableCell><span className="inline-flex items-center bg-secondary border border-[#bfdbfe] text-[#2563eb] rounded-[10px] px-2 py-1 text-sm font-medium">{getUebungenDisplayName(record.fields.exercise_id)}</span></TableCell>
-                <TableCell className="text-muted-foreground">{formatDate(record.fields.date)}</TableCell>
-                <TableCell>{record.fields.weight_kg ?? '—'}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {formatDate(record.fields.date)}
+                  {pendingIds.has(record.record_id) && <PendingBadge className="ml-2" />}
+                </TableCell>
+                <TableCell>{record.fields.weight_kg != null ? toDisplayWeight(record.fields.weight_kg, weightUnit) : '—'}</TableCell>
                 <TableCell>{record.fields.reps ?? '—'}</TableCell>
                 <TableCell>{record.fields.sets ?? '—'}</TableCell>
                 <TableCell className="max-w-xs"><span className="truncate block">{record.fields.note ?? '—'}</span></TableCell>
@@ -0,0 +1,202 @@
+import { useState, useEffect, useMemo } from 'react';
+import { addDays, eachDayOfInterval, format, getISODay, startOfISOWeek } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { IconBarbell, IconCalendar, IconFlame, IconPhoto, IconTrophy } from '@tabler/icons-react';
+import { PageShell } from '@/components/PageShell';
+import { StatCard } from '@/components/StatCard';
+import { Button } from '@/components/ui/button';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { useDashboardData } from '@/hooks/useDashboardData';
+import { useE1RMFormula } from '@/hooks/useE1RMFormula';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { useStreakDefinition } from '@/hooks/useStreakDefinition';
+import { LocalRecordService } from '@/services/localRecordService';
+import type { StreakFreeze } from '@/types/local';
+import { formatTonnage, formatWeight } from '@/lib/units';
+import { formatStreakUnit } from '@/lib/streaks';
+import { availableYears, periodBounds, summarizePeriod, type PeriodSummary, type SummaryPeriod } from '@/lib/period-summary';
+import { canvasToBlob, renderPeriodCard, shareImage } from '@/lib/share-card';
+
+const WHOLE_YEAR = 'year';
+
+const HEAT_CLASSES = ['bg-muted', 'bg-primary/25', 'bg-primary/50', 'bg-primary/80'];
+
+function heatLevel(count: number): number {
+  if (count === 0) return 0;
+  if (count <= 2) return 1;
+  if (count <= 4) return 2;
+  return 3;
+}
+
+/** Full-year grid with one column per ISO week; days outside the selected month are faded */
+function YearHeatmap({ period, dayCounts }: { period: SummaryPeriod; dayCounts: PeriodSummary['dayCounts'] }) {
+  const year = periodBounds({ year: period.year });
+  const selected = periodBounds(period);
+  const days = eachDayOfInterval(year);
+  const firstWeek = startOfISOWeek(year.start);
+  const columns = Math.ceil((days.length + getISODay(year.start) - 1) / 7);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid grid-rows-7 grid-flow-col gap-[3px] w-max">
+        {Array.from({ length: columns * 7 }, (_, i) => {
+          const day = addDays(firstWeek, i);
+          if (day < year.start || day > year.end) return <div key={i} className="w-3 h-3" />;
+          const dateStr = format(day, 'yyyy-MM-dd');
+          const count = dayCounts[dateStr] ?? 0;
+          const inPeriod = day >= selected.start && day <= selected.end;
+          return (
+            <div
+              key={i}
+              title={`${format(day, 'dd.MM.yyyy')}: ${count} Einträge`}
+              className={`w-3 h-3 rounded-[3px] ${HEAT_CLASSES[heatLevel(count)]} ${inPeriod ? '' : 'opacity-30'}`}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewPage() {
+  const { uebungen, prEintraege, loading } = useDashboardData();
+  const [unit] = useWeightUnit();
+  const [formula] = useE1RMFormula();
+  const [streakDefinition] = useStreakDefinition();
+  const [freezes, setFreezes] = useState<StreakFreeze[]>([]);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [month, setMonth] = useState<string>(WHOLE_YEAR);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    LocalRecordService.getStreakFreezes().then(setFreezes);
+  }, []);
+
+  const period = useMemo<SummaryPeriod>(
+    () => ({ year, month: month === WHOLE_YEAR ? undefined : parseInt(month) }),
+    [year, month],
+  );
+  const summary = useMemo(
+    () => summarizePeriod(prEintraege, uebungen, period, formula, streakDefinition, freezes),
+    [prEintraege, uebungen, period, formula, streakDefinition, freezes],
+  );
+  const years = useMemo(() => availableYears(prEintraege), [prEintraege]);
+
+  async function handleExport() {
+    setExporting(true);
+    try {
+      const blob = await canvasToBlob(renderPeriodCard(summary, unit));
+      const result = await shareImage(blob, `rueckblick-${year}${period.month == null ? '' : `-${period.month + 1}`}.png`, summary.label);
+      if (result === 'downloaded') toast.success('Bild gespeichert');
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      console.error('Error exporting review:', error);
+      toast.error('Bild konnte nicht erstellt werden');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-32">
+        <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <PageShell
+      title={summary.label}
+      subtitle={`${summary.sessions} Trainingstage · ${summary.entries} Einträge`}
+      action={
+        <Button onClick={handleExport} disabled={exporting || summary.entries === 0}>
+          <IconPhoto size={16} className="mr-1.5" />
+          {exporting ? 'Erstelle...' : 'Als Bild teilen'}
+        </Button>
+      }
+    >
+      <div className="flex gap-3">
+        <Select value={String(year)} onValueChange={v => setYear(parseInt(v))}>
+          <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {years.map(y => (
+              <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WHOLE_YEAR}>Ganzes Jahr</SelectItem>
+            {Array.from({ length: 12 }, (_, m) => (
+              <SelectItem key={m} value={String(m)}>{format(new Date(year, m, 1), 'MMMM', { locale: de })}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard title="Trainingstage" value={summary.sessions} icon={<IconCalendar size={18} className="text-muted-foreground" />} />
+        <StatCard title="Tonnage" value={formatTonnage(summary.tonnage, unit)} icon={<IconBarbell size={18} className="text-muted-foreground" />} />
+        <StatCard title="PRs" value={summary.prCount} icon={<IconTrophy size={18} className="text-muted-foreground" />} />
+        <StatCard
+          title="Längster Streak"
+          value={`${summary.longestStreak} ${formatStreakUnit(summary.longestStreak, summary.streakUnit)}`}
+          icon={<IconFlame size={18} className="text-muted-foreground" />}
+        />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="rounded-xl border bg-card p-6 space-y-3">
+          <h2 className="text-sm font-medium text-muted-foreground">Highlights</h2>
+          <dl className="space-y-2 text-sm">
+            <div className="flex justify-between gap-3">
+              <dt className="text-muted-foreground">Meisttrainiert</dt>
+              <dd className="font-medium text-right">
+                {summary.mostTrained ? `${summary.mostTrained.name} · ${summary.mostTrained.sessions}×` : '—'}
+              </dd>
+            </div>
+            {period.month == null && (
+              <div className="flex justify-between gap-3">
+                <dt className="text-muted-foreground">Bester Monat</dt>
+                <dd className="font-medium text-right">
+                  {summary.bestMonth
+                    ? `${summary.bestMonth.label} · ${summary.bestMonth.sessions} Tage · ${formatTonnage(summary.bestMonth.tonnage, unit)}`
+                    : '—'}
+                </dd>
+              </div>
+            )}
+          </dl>
+        </div>
+        <div className="rounded-xl border bg-card p-6 space-y-3">
+          <h2 className="text-sm font-medium text-muted-foreground">Größte Steigerungen (e1RM)</h2>
+          {summary.biggestGains.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Keine Steigerung in diesem Zeitraum.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {summary.biggestGains.map(gain => (
+                <li key={gain.exerciseId} className="flex justify-between gap-3">
+                  <span className="truncate">{gain.name}</span>
+                  <span className="font-medium shrink-0">
+                    {formatWeight(gain.from, unit)} → {formatWeight(gain.to, unit)}
+                    <span className="text-primary ml-2">+{Math.round(gain.percent)} %</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <section className="rounded-xl border bg-card p-6 space-y-3">
+        <h2 className="text-sm font-medium text-muted-foreground">Trainingstage {year}</h2>
+        <YearHeatmap period={period} dayCounts={summary.dayCounts} />
+      </section>
+    </PageShell>
+  );
+}
@@ -1,9 +1,13 @@
 import { useState, useEffect } from 'react';
 import { LivingAppsService, extractRecordId, createRecordUrl } from '@/services/livingAppsService';
-import type { Uebungen } from '@/types/app';
+import type { Uebungen } from '@/types/app-extensions';
 import { APP_IDS } from '@/types/app';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem,
+  SelectTrigger, SelectValue,
+} from '@/components/ui/select';
 import {
   Table, TableBody, TableCell, TableHead,
   TableHeader, TableRow,
@@ -13,9 +17,15 @@ import { UebungenDialog } from '@/components/dialogs/UebungenDialog';
 import { UebungenViewDialog } from '@/components/dialogs/UebungenViewDialog';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 import { PageShell } from '@/components/PageShell';
+import { useQueryRefresh } from '@/hooks/useQueryRefresh';
+import { usePendingRecordIds } from '@/hooks/useOutbox';
+import { useOptimisticList } from '@/hooks/useOptimisticList';
+import { PendingBadge } from '@/components/PendingBadge';
 import { AI_PHOTO_SCAN, AI_PHOTO_LOCATION } from '@/config/ai-features';
 import { format, parseISO } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { displayLookup, displayMultiLookup } from '@/lib/formatters';
+import { EMPTY_EXERCISE_FILTER, EQUIPMENT, MOVEMENT_PATTERNS, MUSCLE_GROUPS, isExerciseFilterActive, matchesExerciseFilter, type ExerciseFilter } from '@/lib/exercise-meta';
 
 function formatDate(d?: string) {
   if (!d) return '—';
@@ -26,6 +36,7 @@ export default function UebungenPage() {
   const [records, setRecords] = useState<Uebungen[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<ExerciseFilter>(EMPTY_EXERCISE_FILTER);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingRecord, setEditingRecord] = useState<Uebungen | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<Uebungen | null>(null);
@@ -34,6 +45,9 @@ export default function UebungenPage() {
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
 
   useEffect(() => { loadData(); }, []);
+  const pendingIds = usePendingRecordIds(APP_IDS.UEBUNGEN);
+  const optimistic = useOptimisticList(setRecords);
+  useQueryRefresh([APP_IDS.UEBUNGEN], async () => setRecords(await LivingAppsService.getUebungen()));
 
   async function loadData() {
     setLoading(true);
@@ -44,27 +58,25 @@ export default function UebungenPage() {
     }
   }
 
+  // The dialog stays open until the server answers so a refused field can be shown there
   async function handleCreate(fields: Uebungen['fields']) {
-    await LivingAppsService.createUebungenEntry(fields);
-    await loadData();
-    setDialogOpen(false);
+    const [id] = await optimistic.create([fields], f => LivingAppsService.createUebungenEntry(f));
+    return id !== null;
   }
 
   async function handleUpdate(fields: Uebungen['fields']) {
-    if (!editingRecord) return;
-    await LivingAppsService.updateUebungenEntry(editingRecord.record_id, fields);
-    await loadData();
-    setEditingRecord(null);
+    if (!editingRecord) return false;
+    return optimistic.update([editingRecord], fields, (id, f) => LivingAppsService.updateUebungenEntry(id, f));
   }
 
   async function handleDelete() {
     if (!deleteTarget) return;
-    await LivingAppsService.deleteUebungenEntry(deleteTarget.record_id);
-    setRecords(prev => prev.filter(r => r.record_id !== deleteTarget.record_id));
     setDeleteTarget(null);
+    void optimistic.remove([deleteTarget], id => LivingAppsService.deleteUebungenEntry(id));
   }
 
   const filtered = records.filter(r => {
+    if (!matchesExerciseFilter(r, filter)) return false;
     if (!search) return true;
     const s = search.toLowerCase();
     return Object.values(r.fields).some(v => {
@@ -89,6 +101,8 @@ export default function UebungenPage() {
       if (va == null && vb == null) return 0;
       if (va == null) return 1;
       if (vb == null) return -1;
+      if (Array.isArray(va)) va = displayMultiLookup(va);
+      if (Array.isArray(vb)) vb = displayMultiLookup(vb);
       if (typeof va === 'object' && 'label' in va) va = va.label;
       if (typeof vb === 'object' && 'label' in vb) vb = vb.label;
       if (typeof va === 'number' && typeof vb === 'number') return sortDir === 'asc' ? va - vb : vb - va;
@@ -123,6 +137,28 @@ export default function UebungenPage() {
           className="pl-9"
         />
       </div>
+      <div className="flex flex-wrap gap-2">
+        {([
+          { key: 'muscle', label: 'Muskelgruppe', options: MUSCLE_GROUPS },
+          { key: 'equipment', label: 'Equipment', options: EQUIPMENT },
+          { key: 'movement_pattern', label: 'Bewegungsmuster', options: MOVEMENT_PATTERNS },
+        ] as const).map(f => (
+          <Select key={f.key} value={filter[f.key] || 'all'} onValueChange={v => setFilter(prev => ({ ...prev, [f.key]: v === 'all' ? '' : v }))}>
+            <SelectTrigger className="h-9 w-48 text-sm"><SelectValue placeholder={f.label} /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{f.label}: Alle</SelectItem>
+              {f.options.map(o => (
+                <SelectItem key={o.key} value={o.key}>{o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+        {isExerciseFilterActive(filter) && (
+          <Button variant="ghost" size="sm" className="h-9" onClick={() => setFilter(EMPTY_EXERCISE_FILTER)}>
+            Filter zurücksetzen
+          </Button>
+        )}
+      </div>
       <div className="rounded-[27px] bg-card shadow-lg overflow-hidden">
         <Table className="[&_tbody_td]:px-6 [&_tbody_td]:py-2 [&_tbody_td]:text-base [&_tbody_td]:font-medium [&_tbody_tr:first-child_td]:pt-6 [&_tbody_tr:last-child_td]:pb-10">
           <TableHeader className="bg-secondary">
@@ -133,6 +169,24 @@ export default function UebungenPage() {
                   {sortKey === 'name' ? (sortDir === 'asc' ? <IconArrowUp size={14} /> : <IconArrowDown size={14} />) : <IconArrowsUpDown size={14} className="opacity-30" />}
                 </span>
               </TableHead>
+              <TableHead className="uppercase text-xs font-semibold text-secondary-foreground tracking-wider px-6 cursor-pointer select-none hover:text-foreground transition-colors" onClick={() => toggleSort('primary_muscles')}>
+                <span className="inline-flex items-center gap-1">
+                  Muskelgruppen
+                  {sortKey === 'primary_muscles' ? (sortDir === 'asc' ? <IconArrowUp size={14} /> : <IconArrowDown size={14} />) : <IconArrowsUpDown size={14} className="opacity-30" />}
+                </span>
+              </TableHead>
+              <TableHead className="uppercase text-xs font-semibold text-secondary-foreground tracking-wider px-6 cursor-pointer select-none hover:text-foreground transition-colors" onClick={() => toggleSort('equipment')}>
+                <span className="inline-flex items-center gap-1">
+                  Equipment
+                  {sortKey === 'equipment' ? (sortDir === 'asc' ? <IconArrowUp size={14} /> : <IconArrowDown size={14} />) : <IconArrowsUpDown size={14} className="opacity-30" />}
+                </span>
+              </TableHead>
+              <TableHead className="uppercase text-xs font-semibold text-secondary-foreground tracking-wider px-6 cursor-pointer select-none hover:text-foreground transition-colors" onClick={() => toggleSort('movement_pattern')}>
+                <span className="inline-flex items-center gap-1">
+                  Bewegungsmuster
+                  {sortKey === 'movement_pattern' ? (sortDir === 'asc' ? <IconArrowUp size={14} /> : <IconArrowDown size={14} />) : <IconArrowsUpDown size={14} className="opacity-30" />}
+                </span>
+              </TableHead>
               <TableHead className="uppercase text-xs font-semibold text-secondary-foreground tracking-wider px-6 cursor-pointer select-none hover:text-foreground transition-colors" onClick={() => toggleSort('created_at')}>
                 <span className="inline-flex items-center gap-1">
                   Erstellt am
@@ -145,7 +199,13 @@ export default function UebungenPage() {
           <TableBody>
             {sortRecords(filtered).map(record => (
               <TableRow key={record.record_id} className="hover:bg-muted/50 transition-colors cursor-pointer" onClick={(e) => { if ((e.target as HTMLElement).closest('button, [role="checkbox"]')) return; setViewingRecord(record); }}>
-                <TableCell className="font-medium">{record.fields.name ?? '—'}</TableCell>
+                <TableCell className="font-medium">
+                  {record.fields.name ?? '—'}
+                  {pendingIds.has(record.record_id) && <PendingBadge className="ml-2" />}
+                </TableCell>
+                <TableCell>{displayMultiLookup(record.fields.primary_muscles)}</TableCell>
+                <TableCell>{displayLookup(record.fields.equipment)}</TableCell>
+                <TableCell>{displayLookup(record.fields.movement_pattern)}</TableCell>
                 <TableCell className="text-muted-foreground">{formatDate(record.fields.created_at)}</TableCell>
                 <TableCell>
                   <div className="flex gap-1">
@@ -161,8 +221,8 @@ export default function UebungenPage() {
             ))}
             {filtered.length === 0 && (
               <TableRow>
-                <TableCell colSpan={3} className="text-center py-16 text-muted-foreground">
-                  {search ? 'Keine Ergebnisse gefunden.' : 'Noch keine Übungen. Jetzt hinzufügen!'}
+                <TableCell colSpan={6} className="text-center py-16 text-muted-foreground">
+                  {search || isExerciseFilterActive(filter) ? 'Keine Ergebnisse gefunden.' : 'Noch keine Übungen. Jetzt hinzufügen!'}
                 </TableCell>
               </TableRow>
             )}
@@ -0,0 +1,224 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { IconClipboardList, IconPlayerPlay, IconTrash } from '@tabler/icons-react';
+import { toast } from 'sonner';
+import { IntentWizardShell } from '@/components/IntentWizardShell';
+import { EntitySelectStep } from '@/components/EntitySelectStep';
+import { RoutineTemplateDialog } from '@/components/dialogs/RoutineTemplateDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDashboardData } from '@/hooks/useDashboardData';
+import { usePreference } from '@/hooks/usePreference';
+import { useE1RMFormula } from '@/hooks/useE1RMFormula';
+import { LocalRecordService } from '@/services/localRecordService';
+import type { PlannedExercise, RoutineTemplate } from '@/types/local';
+import { describeRoutineItem, planRoutine } from '@/lib/routines';
+import { ACTIVE_SESSION_PREFERENCE } from '@/lib/sessions';
+import { formatWeight, fromDisplayWeight, toDisplayWeight } from '@/lib/units';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+
+const STEPS = [
+  { label: 'Vorlage' },
+  { label: 'Gewichte' },
+  { label: 'Starten' },
+];
+
+export default function StartRoutinePage() {
+  const navigate = useNavigate();
+  const { uebungen, prEintraege, uebungenMap, loading, error, fetchAll } = useDashboardData();
+  const [formula] = useE1RMFormula();
+  const [weightUnit] = useWeightUnit();
+  const [activeSessionId, setActiveSessionId] = usePreference<string | null>(ACTIVE_SESSION_PREFERENCE, null);
+  const [templates, setTemplates] = useState<RoutineTemplate[]>([]);
+  const [step, setStep] = useState(1);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [plan, setPlan] = useState<PlannedExercise[]>([]);
+  const [sessionName, setSessionName] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    setTemplates(await LocalRecordService.getRoutineTemplates());
+  }, []);
+
+  useEffect(() => { void loadTemplates(); }, [loadTemplates]);
+
+  const template = useMemo(() => templates.find(t => t.record_id === templateId) ?? null, [templates, templateId]);
+
+  // A reload on step 2/3 loses the selected template — start over
+  useEffect(() => {
+    if (step > 1 && !template) setStep(1);
+  }, [step, template]);
+
+  function exerciseName(id: string): string {
+    return uebungenMap.get(id)?.fields.name ?? 'Unbekannte Übung';
+  }
+
+  function handleSelectTemplate(id: string) {
+    const selected = templates.find(t => t.record_id === id);
+    if (!selected) return;
+    setTemplateId(id);
+    setPlan(planRoutine(selected, prEintraege, formula, weightUnit));
+    setSessionName(selected.fields.name ?? '');
+    setStep(2);
+  }
+
+  async function handleCreateTemplate(fields: RoutineTemplate['fields']) {
+    try {
+      await LocalRecordService.createRoutineTemplateEntry(fields);
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error creating routine template:', error);
+      toast.error('Fehler beim Speichern');
+    }
+  }
+
+  async function handleDeleteTemplate() {
+    if (!template) return;
+    try {
+      await LocalRecordService.deleteRoutineTemplateEntry(template.record_id);
+      setTemplateId(null);
+      setStep(1);
+      await loadTemplates();
+    } catch (error) {
+      console.error('Error deleting routine template:', error);
+      toast.error('Fehler beim Löschen');
+    }
+  }
+
+  function updatePlannedWeight(index: number, weight: number) {
+    setPlan(prev => prev.map((p, i) => (i === index ? { ...p, sets: p.sets.map(s => ({ ...s, weight_kg: weight })) } : p)));
+  }
+
+  async function handleStart() {
+    if (!template) return;
+    setStarting(true);
+    try {
+      // Only one session runs at a time
+      if (activeSessionId) {
+        await LocalRecordService.updateWorkoutSessionEntry(activeSessionId, { ended_at: new Date().toISOString() }).catch(() => undefined);
+      }
+      const { id } = await LocalRecordService.createWorkoutSessionEntry({
+        name: sessionName.trim() || template.fields.name,
+        started_at: new Date().toISOString(),
+        entry_ids: [],
+        template_id: template.record_id,
+        plan,
+      });
+      setActiveSessionId(id);
+      navigate('/');
+    } catch (error) {
+      console.error('Error starting session:', error);
+      toast.error('Training konnte nicht gestartet werden');
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  return (
+    <IntentWizardShell
+      title="Training nach Vorlage"
+      subtitle="Wähle eine Vorlage und starte ein vorausgefülltes Training"
+      steps={STEPS}
+      currentStep={step}
+      onStepChange={setStep}
+      loading={loading}
+      error={error}
+      onRetry={fetchAll}
+    >
+      {step === 1 && (
+        <EntitySelectStep
+          items={templates.map(t => ({
+            id: t.record_id,
+            title: t.fields.name ?? 'Ohne Namen',
+            subtitle: t.fields.description || (t.fields.items ?? []).map(item => exerciseName(item.exercise_id)).join(', '),
+            stats: [{ label: 'Übungen', value: t.fields.items?.length ?? 0 }],
+            icon: <IconClipboardList size={20} className="text-primary" />,
+          }))}
+          onSelect={handleSelectTemplate}
+          searchPlaceholder="Vorlage suchen..."
+          emptyIcon={<IconClipboardList size={32} />}
+          emptyText="Noch keine Vorlagen vorhanden."
+          createLabel="Neue Vorlage"
+          onCreateNew={() => setDialogOpen(true)}
+          createDialog={
+            <RoutineTemplateDialog
+              open={dialogOpen}
+              onClose={() => setDialogOpen(false)}
+              onSubmit={handleCreateTemplate}
+              uebungenList={uebungen}
+            />
+          }
+        />
+      )}
+
+      {step === 2 && template && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {plan.map((planned, i) => {
+              const item = template.fields.items?.[i];
+              return (
+                <div key={i} className="flex items-center gap-3 p-4 rounded-xl border bg-card">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">{exerciseName(planned.exercise_id)}</p>
+                    {item && <p className="text-xs text-muted-foreground">{describeRoutineItem(item)}</p>}
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <Input
+                      type="number"
+                      step="0.5"
+                      className="w-24 text-right"
+                      value={planned.sets[0]?.weight_kg ? toDisplayWeight(planned.sets[0].weight_kg, weightUnit) : ''}
+                      placeholder="0"
+                      onChange={e => updatePlannedWeight(i, fromDisplayWeight(Number(e.target.value) || 0, weightUnit))}
+                    />
+                    <span className="text-sm text-muted-foreground">{weightUnit}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-between gap-2">
+            <Button variant="ghost" className="text-destructive gap-1.5" onClick={handleDeleteTemplate}>
+              <IconTrash size={15} />Vorlage löschen
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep(1)}>Zurück</Button>
+              <Button onClick={() => setStep(3)}>Weiter</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 3 && template && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="session-name">Name des Trainings</Label>
+            <Input id="session-name" value={sessionName} onChange={e => setSessionName(e.target.value)} />
+          </div>
+          <div className="rounded-xl border bg-card divide-y">
+            {plan.map((planned, i) => (
+              <div key={i} className="flex items-center justify-between px-4 py-3 text-sm">
+                <span className="font-medium truncate">{exerciseName(planned.exercise_id)}</span>
+                <span className="text-muted-foreground shrink-0">
+                  {planned.sets.length} × {planned.sets[0]?.reps} · {planned.sets[0]?.weight_kg ? formatWeight(planned.sets[0].weight_kg, weightUnit) : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+          {activeSessionId && (
+            <p className="text-xs text-muted-foreground">Ein laufendes Training wird dabei beendet.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setStep(2)}>Zurück</Button>
+            <Button onClick={handleStart} disabled={starting} className="gap-1.5">
+              <IconPlayerPlay size={15} />
+              {starting ? 'Startet...' : 'Training starten'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </IntentWizardShell>
+  );
+}
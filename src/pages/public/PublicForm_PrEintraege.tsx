@@ -3,12 +3,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { useWeightUnit } from '@/hooks/useWeightUnit';
+import { fromDisplayWeight, toDisplayWeight } from '@/lib/units';
+import { FieldError } from '@/components/FieldError';
+import { parseApiError, toSubmitError, type SubmitError } from '@/services/apiErrors';
 
 // Empty PROXY_BASE → relative URLs (dashboard and form-proxy share the domain).
 const PROXY_BASE = '';
 const APP_ID = '694d77f4b641f5b879e4e810';
 const SUBMIT_PATH = `/rest/apps/${APP_ID}/records`;
 const ALTCHA_SCRIPT_SRC = 'https://cdn.jsdelivr.net/npm/altcha/dist/altcha.min.js';
+const FORM_FIELDS = ['date', 'weight_kg', 'reps', 'sets', 'note'];
 
 async function submitPublicForm(fields: Record<string, unknown>, captchaToken: string) {
   const res = await fetch(`${PROXY_BASE}/api${SUBMIT_PATH}`, {
@@ -19,10 +24,7 @@ async function submitPublicForm(fields: Record<string, unknown>, captchaToken: s
     },
     body: JSON.stringify({ fields }),
   });
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(err || 'Submission failed');
-  }
+  if (!res.ok) throw await parseApiError(res);
   return res.json();
 }
 
@@ -49,7 +51,9 @@ export default function PublicFormPrEintraege() {
   const [submitted, setSubmitted] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldError, setFieldError] = useState<SubmitError | null>(null);
   const captchaRef = useRef<HTMLElement | null>(null);
+  const [weightUnit, setWeightUnit] = useWeightUnit();
 
   // Load the ALTCHA web component script once per page.
   useEffect(() => {
@@ -85,16 +89,23 @@ export default function PublicFormPrEintraege() {
     }
     setSubmitting(true);
     setError(null);
+    setFieldError(null);
     try {
       await submitPublicForm(cleanFields(fields), token);
       setSubmitted(true);
     } catch (err: any) {
-      setError(err.message || 'Etwas ist schiefgelaufen. Bitte versuche es erneut.');
+      const refused = toSubmitError(err, FORM_FIELDS);
+      if (refused?.field) setFieldError(refused);
+      else setError(refused?.message || err.message || 'Etwas ist schiefgelaufen. Bitte versuche es erneut.');
     } finally {
       setSubmitting(false);
     }
   }
 
+  function errorFor(field: string) {
+    return fieldError?.field === field ? fieldError.message : null;
+  }
+
   if (submitted) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -129,16 +140,29 @@ export default function PublicFormPrEintraege() {
               type="date"
               value={fields.date ?? ''}
               onChange={e => setFields(f => ({ ...f, date: e.target.value }))}
+              aria-invalid={!!errorFor('date')}
             />
+            <FieldError message={errorFor('date')} />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="weight_kg">Gewicht (kg)</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="weight_kg">Gewicht ({weightUnit})</Label>
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-foreground"
+                onClick={() => setWeightUnit(weightUnit === 'kg' ? 'lb' : 'kg')}
+              >
+                {weightUnit === 'kg' ? 'in lb eingeben' : 'in kg eingeben'}
+              </button>
+            </div>
             <Input
               id="weight_kg"
               type="number"
-              value={fields.weight_kg ?? ''}
-              onChange={e => setFields(f => ({ ...f, weight_kg: e.target.value ? Number(e.target.value) : undefined }))}
+              value={fields.weight_kg != null && fields.weight_kg !== '' ? toDisplayWeight(Number(fields.weight_kg), weightUnit) : ''}
+              onChange={e => setFields(f => ({ ...f, weight_kg: e.target.value ? fromDisplayWeight(Number(e.target.value), weightUnit) : undefined }))}
+              aria-invalid={!!errorFor('weight_kg')}
             />
+            <FieldError message={errorFor('weight_kg')} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="reps">Wiederholungen</Label>
@@ -147,7 +171,9 @@ export default function PublicFormPrEintraege() {
               type="number"
               value={fields.reps ?? ''}
               onChange={e => setFields(f => ({ ...f, reps: e.target.value ? Number(e.target.value) : undefined }))}
+              aria-invalid={!!errorFor('reps')}
             />
+            <FieldError message={errorFor('reps')} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="sets">Sätze</Label>
@@ -156,7 +182,9 @@ export default function PublicFormPrEintraege() {
               type="number"
               value={fields.sets ?? ''}
               onChange={e => setFields(f => ({ ...f, sets: e.target.value ? Number(e.target.value) : undefined }))}
+              aria-invalid={!!errorFor('sets')}
             />
+            <FieldError message={errorFor('sets')} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="note">Notiz</Label>
@@ -165,7 +193,9 @@ export default function PublicFormPrEintraege() {
               value={fields.note ?? ''}
               onChange={e => setFields(f => ({ ...f, note: e.target.value }))}
               rows={3}
+              aria-invalid={!!errorFor('note')}
             />
+            <FieldError message={errorFor('note')} />
           </div>
 
           <altcha-widget
@@ -2,12 +2,15 @@ import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { FieldError } from '@/components/FieldError';
+import { parseApiError, toSubmitError, type SubmitError } from '@/services/apiErrors';
 
 // Empty PROXY_BASE → relative URLs (dashboard and form-proxy share the domain).
 const PROXY_BASE = '';
 const APP_ID = '694d77f2ef696e8bff21287d';
 const SUBMIT_PATH = `/rest/apps/${APP_ID}/records`;
 const ALTCHA_SCRIPT_SRC = 'https://cdn.jsdelivr.net/npm/altcha/dist/altcha.min.js';
+const FORM_FIELDS = ['name', 'created_at'];
 
 async function submitPublicForm(fields: Record<string, unknown>, captchaToken: string) {
   const res = await fetch(`${PROXY_BASE}/api${SUBMIT_PATH}`, {
@@ -18,10 +21,7 @@ async function submitPublicForm(fields: Record<string, unknown>, captchaToken: s
     },
     body: JSON.stringify({ fields }),
   });
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(err || 'Submission failed');
-  }
+  if (!res.ok) throw await parseApiError(res);
   return res.json();
 }
 
@@ -48,6 +48,7 @@ export default function PublicFormUebungen() {
   const [submitted, setSubmitted] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldError, setFieldError] = useState<SubmitError | null>(null);
   const captchaRef = useRef<HTMLElement | null>(null);
 
   // Load the ALTCHA web component script once per page.
@@ -84,16 +85,23 @@ export default function PublicFormUebungen() {
     }
     setSubmitting(true);
     setError(null);
+    setFieldError(null);
     try {
       await submitPublicForm(cleanFields(fields), token);
       setSubmitted(true);
     } catch (err: any) {
-      setError(err.message || 'Etwas ist schiefgelaufen. Bitte versuche es erneut.');
+      const refused = toSubmitError(err, FORM_FIELDS);
+      if (refused?.field) setFieldError(refused);
+      else setError(refused?.message || err.message || 'Etwas ist schiefgelaufen. Bitte versuche es erneut.');
     } finally {
       setSubmitting(false);
     }
   }
 
+  function errorFor(field: string) {
+    return fieldError?.field === field ? fieldError.message : null;
+  }
+
   if (submitted) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -127,7 +135,9 @@ export default function PublicFormUebungen() {
               id="name"
               value={fields.name ?? ''}
               onChange={e => setFields(f => ({ ...f, name: e.target.value }))}
+              aria-invalid={!!errorFor('name')}
             />
+            <FieldError message={errorFor('name')} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="created_at">Erstellt am</Label>
@@ -136,7 +146,9 @@ export default function PublicFormUebungen() {
               type="date"
               value={fields.created_at ?? ''}
               onChange={e => setFields(f => ({ ...f, created_at: e.target.value }))}
+              aria-invalid={!!errorFor('created_at')}
             />
+            <FieldError message={errorFor('created_at')} />
           </div>
 
           <altcha-widget
@@ -0,0 +1,145 @@
+// Typed errors for LivingApps REST responses. callApi turns every failed
+// response into one of these so callers can branch on the class instead of
+// parsing message strings, and ErrorBus gets the structured fields.
+import type { ErrorPayload } from '@/components/ErrorBus';
+
+// Error types caused by what the user entered; everything else is a bug or
+// transient. ErrorBus keeps quiet about these since the form shows them.
+export const VALIDATION_ERROR_TYPES: ReadonlySet<string> = new Set([
+  'validation-error',
+  'required-field-missing',
+  'unique-constraint-violation',
+]);
+
+interface ApiErrorBody {
+  status?: number;
+  type?: string;
+  control_identifier?: string;
+  control_type?: string;
+  field_type?: string;
+  detail?: string;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly type?: string;
+  readonly controlIdentifier?: string;
+  readonly controlType?: string;
+  readonly fieldType?: string;
+  readonly detail?: string;
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(body.detail || body.type || `HTTP ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.type = body.type;
+    this.controlIdentifier = body.control_identifier;
+    this.controlType = body.control_type;
+    this.fieldType = body.field_type;
+    this.detail = body.detail;
+  }
+
+  toPayload(): ErrorPayload {
+    return {
+      source: 'api',
+      type: this.type,
+      status: this.status,
+      control_identifier: this.controlIdentifier,
+      control_type: this.controlType,
+      field_type: this.fieldType,
+      detail: this.detail,
+      message: this.message,
+    };
+  }
+}
+
+/** The server refused a field value; controlIdentifier names the field when known */
+export class ValidationError extends ApiError {
+  toPayload(): ErrorPayload {
+    // An untyped 422 is still the user's input, not a bug to repair
+    return { ...super.toPayload(), type: this.type ?? 'validation-error' };
+  }
+}
+
+/** Session expired or the user lacks access (401/403) */
+export class AuthError extends ApiError {}
+
+export class NotFoundError extends ApiError {}
+
+/** 5xx — worth retrying later */
+export class ServerError extends ApiError {}
+
+/** The request never reached the server */
+export class NetworkError extends ApiError {
+  constructor(cause: unknown) {
+    super(0, { type: 'network-error', detail: cause instanceof Error ? cause.message : String(cause) });
+  }
+
+  toPayload(): ErrorPayload {
+    return { ...super.toPayload(), source: 'network' };
+  }
+}
+
+// LivingApps answers with the error object at the top level; some proxies wrap it in "error"
+function parseBody(text: string): ApiErrorBody {
+  try {
+    const json = JSON.parse(text);
+    const body = json && typeof json.error === 'object' ? json.error : json;
+    if (body && typeof body === 'object') return body;
+  } catch { /* plain text body */ }
+  return { detail: text.trim() || undefined };
+}
+
+/** Reads a failed response into the matching ApiError subclass */
+export async function parseApiError(response: Response): Promise<ApiError> {
+  const body = parseBody(await response.text().catch(() => ''));
+  const status = response.status;
+  if (body.type && VALIDATION_ERROR_TYPES.has(body.type)) return new ValidationError(status, body);
+  if (status === 401 || status === 403) return new AuthError(status, body);
+  if (status === 404) return new NotFoundError(status, body);
+  if (status >= 500) return new ServerError(status, body);
+  // A 422 without a type, e.g. from a proxy, still points at the input
+  if (status === 422 && !body.type) return new ValidationError(status, body);
+  return new ApiError(status, body);
+}
+
+/** Hands the error to ErrorBus, which decides whether it is worth a toast */
+export function emitApiError(error: ApiError) {
+  window.dispatchEvent(new CustomEvent('errorbus:emit', { detail: error.toPayload() }));
+  if (error instanceof AuthError && error.status === 401) window.dispatchEvent(new CustomEvent('auth-error'));
+}
+
+/** ErrorBus payload for anything a submit can throw; callApi reports its own errors */
+export function toErrorPayload(error: unknown): ErrorPayload {
+  if (error instanceof ApiError) return error.toPayload();
+  return {
+    source: 'js',
+    message: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? (error.stack ?? '').split('\n').slice(0, 10).join('\n') : undefined,
+  };
+}
+
+/** German text for a validation error, suitable for showing next to the field */
+export function validationMessage(error: ValidationError): string {
+  switch (error.type) {
+    case 'required-field-missing': return 'Dieses Feld ist erforderlich.';
+    case 'unique-constraint-violation': return 'Dieser Wert ist bereits vergeben.';
+    default: return error.detail || 'Ungültiger Wert.';
+  }
+}
+
+export interface SubmitError {
+  /** Form field the server refused, null when it can't be pinned to one */
+  field: string | null;
+  message: string;
+}
+
+/**
+ * Turns an error from a form submit into something the form can show.
+ * Returns null for errors that are not about the input.
+ */
+export function toSubmitError(error: unknown, fieldNames: readonly string[]): SubmitError | null {
+  if (!(error instanceof ValidationError)) return null;
+  const field = error.controlIdentifier && fieldNames.includes(error.controlIdentifier) ? error.controlIdentifier : null;
+  return { field, message: validationMessage(error) };
+}
@@ -0,0 +1,69 @@
+// Who is signed in. Anything persisted per user (the record cache, some
+// preferences) is keyed by this id. The last id is remembered so the app can
+// still tell whose data it holds when it starts offline.
+import { getUserProfile } from '@/services/livingAppsService';
+import { NetworkError } from '@/services/apiErrors';
+import { clearRecordCache, setCacheUser } from '@/services/recordCache';
+
+const STORAGE_KEY = 'pr-tracker:user';
+
+export const USER_CHANGE_EVENT = 'user-change';
+
+function readStoredUser(): string | null {
+  try { return localStorage.getItem(STORAGE_KEY); } catch { return null; }
+}
+
+let userId: string | null = readStoredUser();
+let identified: Promise<string | null> = Promise.resolve(userId);
+
+function setUser(id: string | null) {
+  if (id === userId) return;
+  userId = id;
+  try {
+    if (id) localStorage.setItem(STORAGE_KEY, id);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch { /* storage unavailable */ }
+  window.dispatchEvent(new CustomEvent(USER_CHANGE_EVENT));
+}
+
+/** The signed-in user as last confirmed by the server, null when unknown */
+export function currentUserId(): string | null {
+  return userId;
+}
+
+/** The signed-in user once the startup lookup has answered */
+export async function confirmedUserId(): Promise<string | null> {
+  await identified;
+  return userId;
+}
+
+// Profiles carry an id on current LivingApps versions; the e-mail is unique too
+function profileId(profile: Record<string, unknown>): string | null {
+  const id = profile.id ?? profile.email;
+  return typeof id === 'string' && id ? id : null;
+}
+
+async function identifyUser(): Promise<string | null> {
+  try {
+    setUser(profileId(await getUserProfile()));
+  } catch (error) {
+    // Offline the remembered user is the best guess; otherwise nobody is signed in
+    if (!(error instanceof NetworkError) && navigator.onLine) setUser(null);
+  }
+  return userId;
+}
+
+/**
+ * Looks up the user once at startup and scopes the record cache to them.
+ * A 401 ends the session: cached records and the remembered user are dropped.
+ * Queued writes stay under that user's key and are only sent once they are
+ * signed in again.
+ */
+export function watchUserSession() {
+  identified = identifyUser();
+  setCacheUser(identified);
+  window.addEventListener('auth-error', () => {
+    setUser(null);
+    clearRecordCache();
+  });
+}
@@ -1,6 +1,16 @@
 // AUTOMATICALLY GENERATED SERVICE
 import { APP_IDS } from '@/types/app';
 import type { Uebungen, PrEintraege } from '@/types/app';
+import { emitApiError, NetworkError, parseApiError } from '@/services/apiErrors';
+import { cachedQuery } from '@/services/recordCache';
+import { applyOutbox } from '@/services/outbox';
+import {
+  flushOutbox as flushQueuedWrites,
+  resolveOutboxConflict as resolveConflict,
+  sendOrQueue,
+  type OutboxFlushResult,
+  type OutboxTransport,
+} from '@/services/outboxSync';
 
 // Base Configuration
 const API_BASE_URL = 'https://my.living-apps.de/rest';
@@ -18,59 +28,92 @@ export function createRecordUrl(appId: string, recordId: string): string {
 }
 
 async function callApi(method: string, endpoint: string, data?: any) {
-  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-    method,
-    headers: { 'Content-Type': 'application/json' },
-    credentials: 'include',  // Nutze Session Cookies für Auth
-    body: data ? JSON.stringify(data) : undefined
-  });
-  if (!response.ok) throw new Error(await response.text());
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',  // Nutze Session Cookies für Auth
+      body: data ? JSON.stringify(data) : undefined
+    });
+  } catch (error) {
+    // Not reported: reads fall back to the cache and writes go to the outbox
+    throw new NetworkError(error);
+  }
+  if (!response.ok) {
+    const error = await parseApiError(response);
+    emitApiError(error);
+    throw error;
+  }
   // DELETE returns often empty body or simple status
   if (method === 'DELETE') return true;
   return response.json();
 }
 
+async function fetchRecords<T>(appId: string): Promise<T[]> {
+  const data = await callApi('GET', `/apps/${appId}/records`);
+  return Object.entries(data).map(([id, rec]: [string, any]) => ({
+    record_id: id, ...rec
+  }));
+}
+
+// Record lists go through the shared cache with queued offline writes laid
+// over them; a copy is returned so callers may sort in place
+async function listRecords<T extends { record_id: string }>(appId: string): Promise<T[]> {
+  return applyOutbox(appId, await cachedQuery(appId, () => fetchRecords<T>(appId)));
+}
+
+// Writes and offline replay live in outboxSync; they only borrow the HTTP calls
+const transport: OutboxTransport = { callApi, fetchRecords };
+
+export function flushOutbox(): Promise<OutboxFlushResult> {
+  return flushQueuedWrites(transport);
+}
+
+export function resolveOutboxConflict(id: string, resolution: 'overwrite' | 'discard') {
+  return resolveConflict(transport, id, resolution);
+}
+
+/** Profile of the signed-in user; fails with an AuthError when nobody is */
+export async function getUserProfile(): Promise<Record<string, unknown>> {
+  return callApi('GET', '/user');
+}
+
 export class LivingAppsService {
   // --- UEBUNGEN ---
   static async getUebungen(): Promise<Uebungen[]> {
-    const data = await callApi('GET', `/apps/${APP_IDS.UEBUNGEN}/records`);
-    return Object.entries(data).map(([id, rec]: [string, any]) => ({
-      record_id: id, ...rec
-    }));
+    return listRecords(APP_IDS.UEBUNGEN);
   }
   static async getUebungenEntry(id: string): Promise<Uebungen | undefined> {
     const data = await callApi('GET', `/apps/${APP_IDS.UEBUNGEN}/records/${id}`);
     return { record_id: data.id, ...data };
   }
   static async createUebungenEntry(fields: Uebungen['fields']) {
-    return callApi('POST', `/apps/${APP_IDS.UEBUNGEN}/records`, { fields });
+    return sendOrQueue(transport, APP_IDS.UEBUNGEN, 'POST', undefined, fields);
   }
   static async updateUebungenEntry(id: string, fields: Partial<Uebungen['fields']>) {
-    return callApi('PATCH', `/apps/${APP_IDS.UEBUNGEN}/records/${id}`, { fields });
+    return sendOrQueue(transport, APP_IDS.UEBUNGEN, 'PATCH', id, fields);
   }
   static async deleteUebungenEntry(id: string) {
-    return callApi('DELETE', `/apps/${APP_IDS.UEBUNGEN}/records/${id}`);
+    return sendOrQueue<true>(transport, APP_IDS.UEBUNGEN, 'DELETE', id);
   }
 
   // --- PR_EINTRAEGE ---
   static async getPrEintraege(): Promise<PrEintraege[]> {
-    const data = await callApi('GET', `/apps/${APP_IDS.PR_EINTRAEGE}/records`);
-    return Object.entries(data).map(([id, rec]: [string, any]) => ({
-      record_id: id, ...rec
-    }));
+    return listRecords(APP_IDS.PR_EINTRAEGE);
   }
   static async getPrEintraegeEntry(id: string): Promise<PrEintraege | undefined> {
     const data = await callApi('GET', `/apps/${APP_IDS.PR_EINTRAEGE}/records/${id}`);
     return { record_id: data.id, ...data };
   }
   static async createPrEintraegeEntry(fields: PrEintraege['fields']) {
-    return callApi('POST', `/apps/${APP_IDS.PR_EINTRAEGE}/records`, { fields });
+    return sendOrQueue(transport, APP_IDS.PR_EINTRAEGE, 'POST', undefined, fields);
   }
   static async updatePrEintraegeEntry(id: string, fields: Partial<PrEintraege['fields']>) {
-    return callApi('PATCH', `/apps/${APP_IDS.PR_EINTRAEGE}/records/${id}`, { fields });
+    return sendOrQueue(transport, APP_IDS.PR_EINTRAEGE, 'PATCH', id, fields);
   }
   static async deletePrEintraegeEntry(id: string) {
-    return callApi('DELETE', `/apps/${APP_IDS.PR_EINTRAEGE}/records/${id}`);
+    return sendOrQueue<true>(transport, APP_IDS.PR_EINTRAEGE, 'DELETE', id);
   }
 
 }
\ No newline at end of file
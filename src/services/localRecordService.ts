@@ -0,0 +1,192 @@
+// Local record store mirroring the LivingAppsService API for collections
+// that have no LivingApps app yet. Data lives in localStorage, one set of
+// collections per signed-in user, so it is not synced across devices.
+// Routine templates and workout sessions are meant to live next to Uebungen
+// and PrEintraege; once those apps exist, move their methods to
+// LivingAppsService with the same signatures.
+import type { BodyweightEntry, CardioSession, Goal, LocalRecord, RoutineTemplate, StreakFreeze, WorkoutSession } from '@/types/local';
+import { confirmedUserId } from '@/services/currentUser';
+
+const STORAGE_PREFIX = 'pr-tracker:records:';
+
+const COLLECTIONS = {
+  WORKOUT_SESSIONS: 'workout-sessions',
+  ROUTINE_TEMPLATES: 'routine-templates',
+  CARDIO_SESSIONS: 'cardio-sessions',
+  BODYWEIGHT_ENTRIES: 'bodyweight-entries',
+  GOALS: 'goals',
+  STREAK_FREEZES: 'streak-freezes',
+} as const;
+
+// Collections saved before they were kept per user go to the first user who opens them
+function adoptUnscoped(name: string, key: string) {
+  const legacyKey = STORAGE_PREFIX + name;
+  if (key === legacyKey || localStorage.getItem(key) !== null) return;
+  const legacy = localStorage.getItem(legacyKey);
+  if (legacy === null) return;
+  localStorage.setItem(key, legacy);
+  localStorage.removeItem(legacyKey);
+}
+
+// Waits for the startup lookup, so a remembered user never sees the next one's
+// records. Changes resolve the key first and then read and write without an
+// await in between, so concurrent ones don't overwrite each other.
+async function collectionKey(name: string): Promise<string> {
+  const user = await confirmedUserId();
+  const key = user ? `${STORAGE_PREFIX}${user}:${name}` : STORAGE_PREFIX + name;
+  try { adoptUnscoped(name, key); } catch { /* storage unavailable */ }
+  return key;
+}
+
+function readCollection<F>(key: string): Record<string, LocalRecord<F>> {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCollection<F>(key: string, records: Record<string, LocalRecord<F>>) {
+  localStorage.setItem(key, JSON.stringify(records));
+}
+
+// 24 hex chars, same as LivingApps record ids
+function generateRecordId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function listRecords<F>(name: string): Promise<LocalRecord<F>[]> {
+  return Object.values(readCollection<F>(await collectionKey(name)));
+}
+
+async function createRecord<F>(name: string, fields: F): Promise<{ id: string }> {
+  const key = await collectionKey(name);
+  const records = readCollection<F>(key);
+  const id = generateRecordId();
+  records[id] = { record_id: id, createdat: new Date().toISOString(), updatedat: null, fields };
+  writeCollection(key, records);
+  return { id };
+}
+
+async function updateRecord<F>(name: string, id: string, fields: Partial<F>): Promise<boolean> {
+  const key = await collectionKey(name);
+  const records = readCollection<F>(key);
+  const existing = records[id];
+  if (!existing) throw new Error(`Record ${id} not found`);
+  records[id] = { ...existing, updatedat: new Date().toISOString(), fields: { ...existing.fields, ...fields } };
+  writeCollection(key, records);
+  return true;
+}
+
+async function deleteRecord(name: string, id: string): Promise<boolean> {
+  const key = await collectionKey(name);
+  const records = readCollection(key);
+  delete records[id];
+  writeCollection(key, records);
+  return true;
+}
+
+export class LocalRecordService {
+  // --- WORKOUT_SESSIONS ---
+  static async getWorkoutSessions(): Promise<WorkoutSession[]> {
+    return listRecords(COLLECTIONS.WORKOUT_SESSIONS);
+  }
+  static async createWorkoutSessionEntry(fields: WorkoutSession['fields']) {
+    return createRecord(COLLECTIONS.WORKOUT_SESSIONS, fields);
+  }
+  static async updateWorkoutSessionEntry(id: string, fields: Partial<WorkoutSession['fields']>) {
+    return updateRecord(COLLECTIONS.WORKOUT_SESSIONS, id, fields);
+  }
+  static async deleteWorkoutSessionEntry(id: string) {
+    return deleteRecord(COLLECTIONS.WORKOUT_SESSIONS, id);
+  }
+  // Read-modify-write in one go so quickly logged entries don't overwrite each other
+  static async addWorkoutEntryId(sessionId: string, entryId: string) {
+    const key = await collectionKey(COLLECTIONS.WORKOUT_SESSIONS);
+    const records = readCollection<WorkoutSession['fields']>(key);
+    const session = records[sessionId];
+    if (!session) return;
+    session.fields.entry_ids = [...(session.fields.entry_ids ?? []), entryId];
+    writeCollection(key, records);
+  }
+  // Entries logged offline get their real id once synced
+  static async replaceWorkoutEntryId(oldId: string, newId: string) {
+    const key = await collectionKey(COLLECTIONS.WORKOUT_SESSIONS);
+    const records = readCollection<WorkoutSession['fields']>(key);
+    for (const session of Object.values(records)) {
+      if (session.fields.entry_ids?.includes(oldId)) {
+        session.fields.entry_ids = session.fields.entry_ids.map(id => (id === oldId ? newId : id));
+      }
+    }
+    writeCollection(key, records);
+  }
+
+  // --- ROUTINE_TEMPLATES ---
+  static async getRoutineTemplates(): Promise<RoutineTemplate[]> {
+    return listRecords(COLLECTIONS.ROUTINE_TEMPLATES);
+  }
+  static async createRoutineTemplateEntry(fields: RoutineTemplate['fields']) {
+    return createRecord(COLLECTIONS.ROUTINE_TEMPLATES, fields);
+  }
+  static async updateRoutineTemplateEntry(id: string, fields: Partial<RoutineTemplate['fields']>) {
+    return updateRecord(COLLECTIONS.ROUTINE_TEMPLATES, id, fields);
+  }
+  static async deleteRoutineTemplateEntry(id: string) {
+    return deleteRecord(COLLECTIONS.ROUTINE_TEMPLATES, id);
+  }
+
+  // --- CARDIO_SESSIONS ---
+  static async getCardioSessions(): Promise<CardioSession[]> {
+    return listRecords(COLLECTIONS.CARDIO_SESSIONS);
+  }
+  static async createCardioSessionEntry(fields: CardioSession['fields']) {
+    return createRecord(COLLECTIONS.CARDIO_SESSIONS, fields);
+  }
+  static async updateCardioSessionEntry(id: string, fields: Partial<CardioSession['fields']>) {
+    return updateRecord(COLLECTIONS.CARDIO_SESSIONS, id, fields);
+  }
+  static async deleteCardioSessionEntry(id: string) {
+    return deleteRecord(COLLECTIONS.CARDIO_SESSIONS, id);
+  }
+
+  // --- BODYWEIGHT_ENTRIES ---
+  static async getBodyweightEntries(): Promise<BodyweightEntry[]> {
+    return listRecords(COLLECTIONS.BODYWEIGHT_ENTRIES);
+  }
+  static async createBodyweightEntry(fields: BodyweightEntry['fields']) {
+    return createRecord(COLLECTIONS.BODYWEIGHT_ENTRIES, fields);
+  }
+  static async updateBodyweightEntry(id: string, fields: Partial<BodyweightEntry['fields']>) {
+    return updateRecord(COLLECTIONS.BODYWEIGHT_ENTRIES, id, fields);
+  }
+  static async deleteBodyweightEntry(id: string) {
+    return deleteRecord(COLLECTIONS.BODYWEIGHT_ENTRIES, id);
+  }
+
+  // --- GOALS ---
+  static async getGoals(): Promise<Goal[]> {
+    return listRecords(COLLECTIONS.GOALS);
+  }
+  static async createGoalEntry(fields: Goal['fields']) {
+    return createRecord(COLLECTIONS.GOALS, fields);
+  }
+  static async updateGoalEntry(id: string, fields: Partial<Goal['fields']>) {
+    return updateRecord(COLLECTIONS.GOALS, id, fields);
+  }
+  static async deleteGoalEntry(id: string) {
+    return deleteRecord(COLLECTIONS.GOALS, id);
+  }
+
+  // --- STREAK_FREEZES ---
+  static async getStreakFreezes(): Promise<StreakFreeze[]> {
+    return listRecords(COLLECTIONS.STREAK_FREEZES);
+  }
+  static async createStreakFreeze(fields: StreakFreeze['fields']) {
+    return createRecord(COLLECTIONS.STREAK_FREEZES, fields);
+  }
+  static async deleteStreakFreeze(id: string) {
+    return deleteRecord(COLLECTIONS.STREAK_FREEZES, id);
+  }
+}
@@ -0,0 +1,139 @@
+// Offline write queue. Creates, updates and deletes that cannot reach
+// LivingApps are kept in localStorage and replayed in order later
+// (see outboxSync). Until then record lists show
+// them as if they had been saved. Each user has a queue of their own, so
+// writes are never sent with somebody else's session.
+import { LocalRecordService } from '@/services/localRecordService';
+import { currentUserId } from '@/services/currentUser';
+
+const STORAGE_KEY = 'pr-tracker:outbox';
+
+function storageKey(): string {
+  const user = currentUserId();
+  return user ? `${STORAGE_KEY}:${user}` : STORAGE_KEY;
+}
+
+export const OUTBOX_EVENT = 'outbox-change';
+
+export type OutboxMethod = 'POST' | 'PATCH' | 'DELETE';
+
+/** deleted/changed: the record moved on server-side; rejected: the server refused the write */
+export type OutboxConflict = 'deleted' | 'changed' | 'rejected';
+
+export interface OutboxOperation {
+  id: string;
+  appId: string;
+  method: OutboxMethod;
+  /** Target record; a temporary id for records created offline */
+  recordId: string;
+  fields?: Record<string, unknown>;
+  queuedAt: string;
+  /** `updatedat` of the record when the change was made, to detect server-side edits */
+  baseUpdatedAt?: string | null;
+  conflict?: OutboxConflict;
+  message?: string;
+}
+
+interface QueuedRecord {
+  record_id: string;
+  createdat: string;
+  updatedat: string | null;
+  fields: Record<string, unknown>;
+}
+
+// Temporary ids look like LivingApps ids (24 hex chars) so record URLs built
+// from them parse, but start with a zero timestamp no real ObjectId has
+const TEMP_ID_PREFIX = '00000000';
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function listOutbox(): OutboxOperation[] {
+  try {
+    const raw = localStorage.getItem(storageKey());
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(operations: OutboxOperation[]) {
+  localStorage.setItem(storageKey(), JSON.stringify(operations));
+  window.dispatchEvent(new CustomEvent(OUTBOX_EVENT));
+}
+
+/** Operations still waiting to be sent; conflicts wait for the user instead */
+export function pendingOperations(): OutboxOperation[] {
+  return listOutbox().filter(op => !op.conflict);
+}
+
+export function enqueueOperation(op: Omit<OutboxOperation, 'id' | 'queuedAt' | 'recordId'> & { recordId?: string }): OutboxOperation {
+  const operation: OutboxOperation = {
+    ...op,
+    id: randomHex(8),
+    recordId: op.recordId ?? TEMP_ID_PREFIX + randomHex(8),
+    queuedAt: new Date().toISOString(),
+  };
+  writeOutbox([...listOutbox(), operation]);
+  return operation;
+}
+
+export function removeOperation(id: string) {
+  writeOutbox(listOutbox().filter(op => op.id !== id));
+}
+
+/** Drops every queued write of a record, e.g. one created and deleted while offline */
+export function discardRecordOperations(recordId: string) {
+  writeOutbox(listOutbox().filter(op => op.recordId !== recordId));
+}
+
+export function updateOperation(id: string, changes: Partial<OutboxOperation>) {
+  writeOutbox(listOutbox().map(op => (op.id === id ? { ...op, ...changes } : op)));
+}
+
+/**
+ * Swaps a temporary id for the one the server assigned, in later operations
+ * (targets and record URLs in their fields) and in local workout sessions.
+ */
+export async function resolveTempId(tempId: string, recordId: string) {
+  const replace = (value: unknown): unknown =>
+    typeof value === 'string' ? value.split(tempId).join(recordId) : value;
+  writeOutbox(listOutbox().map(op => ({
+    ...op,
+    recordId: op.recordId === tempId ? recordId : op.recordId,
+    fields: op.fields && Object.fromEntries(Object.entries(op.fields).map(([k, v]) => [k, replace(v)])),
+  })));
+  await LocalRecordService.replaceWorkoutEntryId(tempId, recordId);
+}
+
+/** Records of `appId` with a write still on its way, among `operations` (the whole outbox by default) */
+export function pendingRecordIds(appId: string, operations: OutboxOperation[] = listOutbox()): Set<string> {
+  return new Set(operations.filter(op => !op.conflict && op.appId === appId).map(op => op.recordId));
+}
+
+/**
+ * `records` as they will look once the pending operations of `appId` have been
+ * sent. Always a new array, so callers can't reorder the cached one.
+ */
+export function applyOutbox<T extends { record_id: string }>(appId: string, records: T[]): T[] {
+  let result = [...records];
+  for (const op of pendingOperations()) {
+    if (op.appId !== appId) continue;
+    if (op.method === 'POST') {
+      const queued: QueuedRecord = { record_id: op.recordId, createdat: op.queuedAt, updatedat: null, fields: op.fields ?? {} };
+      result = [...result, queued as unknown as T];
+    } else if (op.method === 'PATCH') {
+      result = result.map(r => (r.record_id === op.recordId
+        ? { ...r, fields: { ...(r as unknown as QueuedRecord).fields, ...op.fields } }
+        : r));
+    } else {
+      result = result.filter(r => r.record_id !== op.recordId);
+    }
+  }
+  return result;
+}
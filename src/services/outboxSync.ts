@@ -0,0 +1,187 @@
+// Sending side of the offline outbox: writes go out directly when possible and
+// into the queue otherwise, and flushes replay the queue against the server.
+// The HTTP calls come from the generated LivingAppsService as a transport so
+// this file survives its regeneration.
+import { invalidateQuery, notifyQuery, peekQuery } from '@/services/recordCache';
+import { NetworkError } from '@/services/apiErrors';
+import { confirmedUserId } from '@/services/currentUser';
+import {
+  discardRecordOperations,
+  enqueueOperation,
+  isTempId,
+  listOutbox,
+  pendingOperations,
+  removeOperation,
+  resolveTempId,
+  updateOperation,
+  type OutboxMethod,
+} from '@/services/outbox';
+
+export interface OutboxTransport {
+  callApi: (method: string, endpoint: string, data?: unknown) => Promise<unknown>;
+  fetchRecords: <T>(appId: string) => Promise<T[]>;
+}
+
+export interface OutboxFlushResult {
+  synced: number;
+  conflicts: number;
+}
+
+function isNetworkError(error: unknown): boolean {
+  return error instanceof NetworkError;
+}
+
+function refresh(api: OutboxTransport, appId: string) {
+  invalidateQuery(appId, () => api.fetchRecords(appId));
+}
+
+/**
+ * Sends a write, or puts it in the outbox when offline. Once something is
+ * queued, later writes queue behind it so the server sees them in order.
+ * `R` is what the server answers: the new id for creates, true for deletes.
+ */
+export async function sendOrQueue<R = { id?: string }>(
+  api: OutboxTransport,
+  appId: string,
+  method: OutboxMethod,
+  recordId?: string,
+  fields?: Record<string, unknown>,
+): Promise<R> {
+  const endpoint = recordId ? `/apps/${appId}/records/${recordId}` : `/apps/${appId}/records`;
+  const mustQueue = !navigator.onLine
+    || pendingOperations().length > 0
+    || (recordId != null && (isTempId(recordId) || listOutbox().some(op => op.recordId === recordId)));
+  if (!mustQueue) {
+    try {
+      const result = await api.callApi(method, endpoint, fields && { fields });
+      refresh(api, appId);
+      return result as R;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  return queueWrite(appId, method, recordId, fields) as R;
+}
+
+function queueWrite(appId: string, method: OutboxMethod, recordId?: string, fields?: Record<string, unknown>) {
+  // A record that never reached the server can simply be forgotten
+  if (method === 'DELETE' && recordId && isTempId(recordId)) {
+    discardRecordOperations(recordId);
+    notifyQuery(appId);
+    return true;
+  }
+  // Only the first queued change of a record is checked against the server;
+  // later ones build on it
+  const cached = recordId && !listOutbox().some(op => op.recordId === recordId)
+    ? peekQuery<{ record_id: string; updatedat: string | null }[]>(appId)?.find(r => r.record_id === recordId)
+    : undefined;
+  const op = enqueueOperation({ appId, method, recordId, fields, baseUpdatedAt: cached && (cached.updatedat ?? null) });
+  notifyQuery(appId);
+  return method === 'DELETE' ? true : { id: op.recordId, queued: true };
+}
+
+let flushing: Promise<OutboxFlushResult> | null = null;
+
+/** Replays queued writes in order; concurrent calls share one run */
+export function flushOutbox(api: OutboxTransport): Promise<OutboxFlushResult> {
+  if (!flushing) flushing = replayOutbox(api).finally(() => { flushing = null; });
+  return flushing;
+}
+
+async function replayOutbox(api: OutboxTransport): Promise<OutboxFlushResult> {
+  const result: OutboxFlushResult = { synced: 0, conflicts: 0 };
+  // The remembered user may have been replaced by whoever signed in since
+  if (!(await confirmedUserId())) return result;
+  const touchedApps = new Set<string>();
+  // Records written in this run; their server state is ours, not a conflict
+  const touchedRecords = new Set<string>();
+  const serverState = new Map<string, Map<string, string | null>>();
+  // Records with a conflicted write; what was queued after it waits for the user
+  const held = new Set<string>();
+
+  async function serverUpdatedAt(appId: string) {
+    if (!serverState.has(appId)) {
+      const records = await api.fetchRecords<{ record_id: string; updatedat: string | null }>(appId);
+      serverState.set(appId, new Map(records.map(r => [r.record_id, r.updatedat ?? null])));
+    }
+    return serverState.get(appId)!;
+  }
+
+  try {
+    for (const { id } of listOutbox()) {
+      // Re-read: earlier creates may have rewritten temporary ids
+      const op = listOutbox().find(o => o.id === id);
+      if (!op) continue;
+      if (op.conflict) {
+        held.add(op.recordId);
+        continue;
+      }
+      // Held behind a conflicted write of the same record, or behind its create
+      if (held.has(op.recordId) || (op.method !== 'POST' && isTempId(op.recordId))) continue;
+
+      if (op.method !== 'POST' && !touchedRecords.has(op.recordId)) {
+        const state = await serverUpdatedAt(op.appId);
+        if (!state.has(op.recordId)) {
+          if (op.method === 'DELETE') {
+            removeOperation(op.id);
+          } else {
+            updateOperation(op.id, { conflict: 'deleted' });
+            held.add(op.recordId);
+            result.conflicts++;
+          }
+          continue;
+        }
+        if (op.baseUpdatedAt !== undefined && state.get(op.recordId) !== op.baseUpdatedAt) {
+          updateOperation(op.id, { conflict: 'changed' });
+          held.add(op.recordId);
+          result.conflicts++;
+          continue;
+        }
+      }
+
+      const endpoint = op.method === 'POST' ? `/apps/${op.appId}/records` : `/apps/${op.appId}/records/${op.recordId}`;
+      try {
+        const response = await api.callApi(op.method, endpoint, op.fields && { fields: op.fields });
+        removeOperation(op.id);
+        const recordId = op.method === 'POST' ? (response as { id: string }).id : op.recordId;
+        if (op.method === 'POST') await resolveTempId(op.recordId, recordId);
+        touchedRecords.add(recordId);
+        touchedApps.add(op.appId);
+        result.synced++;
+      } catch (error) {
+        if (isNetworkError(error)) throw error;
+        updateOperation(op.id, { conflict: 'rejected', message: (error as Error).message });
+        held.add(op.recordId);
+        result.conflicts++;
+      }
+    }
+  } catch (error) {
+    // Connection dropped again; the rest stays queued for the next attempt
+    if (!isNetworkError(error)) throw error;
+  } finally {
+    touchedApps.forEach(appId => refresh(api, appId));
+  }
+  return result;
+}
+
+/**
+ * Settles a conflicted write: send it anyway, or drop it and keep the server's
+ * version. Writes to the record that were held behind it follow in order.
+ */
+export async function resolveOutboxConflict(api: OutboxTransport, id: string, resolution: 'overwrite' | 'discard') {
+  const operations = listOutbox();
+  const op = operations.find(o => o.id === id);
+  if (!op) return;
+  if (resolution === 'overwrite') {
+    updateOperation(op.id, { conflict: undefined, message: undefined, baseUpdatedAt: undefined });
+  } else if (op.method === 'POST') {
+    discardRecordOperations(op.recordId);
+  } else {
+    removeOperation(op.id);
+    // The next change now goes first, so it is the one checked against the server
+    const next = operations.slice(operations.indexOf(op) + 1).find(o => o.recordId === op.recordId);
+    if (next && next.baseUpdatedAt === undefined) updateOperation(next.id, { baseUpdatedAt: op.baseUpdatedAt });
+  }
+  notifyQuery(op.appId);
+  await flushOutbox(api);
+}
@@ -0,0 +1,201 @@
+// Shared stale-while-revalidate cache for record lists, keyed per app.
+// Entries live in memory and are mirrored to IndexedDB so a reload starts
+// from the last known data instead of an empty screen. Persisted entries
+// belong to the signed-in user (see setCacheUser); nothing is persisted
+// while nobody is.
+
+/** Cached data younger than this is served without asking the server */
+export const STALE_AFTER_MS = 30_000;
+
+const DB_NAME = 'pr-tracker-cache';
+const DB_STORE = 'queries';
+
+interface CacheEntry<T = unknown> {
+  data: T;
+  updatedAt: number;
+}
+
+type Listener = () => void;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, { request: Promise<unknown>; generation: number }>();
+const listeners = new Map<string, Set<Listener>>();
+/** Invalidated keys are refetched on next read regardless of age */
+const invalidated = new Set<string>();
+/** Bumped on every invalidation so responses that predate a write are not cached */
+const generations = new Map<string, number>();
+
+// --- IndexedDB persistence (best effort; failures fall back to memory only) ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let cacheUser: Promise<string | null> = Promise.resolve(null);
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+function userKey(user: string, key: string): string {
+  return `${user}:${key}`;
+}
+
+async function readPersisted<T>(key: string): Promise<CacheEntry<T> | undefined> {
+  const [db, user] = await Promise.all([openDb(), cacheUser]);
+  if (!db || !user) return undefined;
+  return new Promise(resolve => {
+    const request = db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(userKey(user, key));
+    request.onsuccess = () => resolve(request.result as CacheEntry<T> | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+async function writePersisted(key: string, entry: CacheEntry) {
+  const [db, user] = await Promise.all([openDb(), cacheUser]);
+  if (!db || !user) return;
+  db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).put(entry, userKey(user, key));
+}
+
+/** Deletes persisted entries that do not belong to `user` (all of them for null) */
+async function deletePersisted(user: string | null) {
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>(resolve => {
+    const transaction = db.transaction(DB_STORE, 'readwrite');
+    const request = transaction.objectStore(DB_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!user || !String(cursor.key).startsWith(userKey(user, ''))) cursor.delete();
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+}
+
+/**
+ * Ties persisted entries to the user `user` resolves to. Entries of anyone
+ * else are deleted first, so the next account on this browser never sees
+ * them; reads and writes wait until that is done.
+ */
+export function setCacheUser(user: Promise<string | null>) {
+  cacheUser = user
+    .catch(() => null)
+    .then(async id => {
+      await deletePersisted(id);
+      return id;
+    });
+  // Pages that loaded before the user was known can now use the persisted data
+  void cacheUser.then(() => listeners.forEach((_, key) => notify(key)));
+}
+
+/** Forgets all cached data, in memory and on disk, e.g. when the session has ended */
+export function clearRecordCache() {
+  entries.forEach((_, key) => invalidateQuery(key));
+  entries.clear();
+  cacheUser = deletePersisted(null).then(() => null);
+}
+
+// --- Cache ---
+
+function notify(key: string) {
+  listeners.get(key)?.forEach(listener => listener());
+}
+
+function store<T>(key: string, data: T) {
+  const entry = { data, updatedAt: Date.now() };
+  entries.set(key, entry);
+  invalidated.delete(key);
+  void writePersisted(key, entry);
+  notify(key);
+}
+
+function isFresh(entry: CacheEntry): boolean {
+  return Date.now() - entry.updatedAt < STALE_AFTER_MS;
+}
+
+/** One request per key at a time; concurrent callers share it */
+function revalidate<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const generation = generations.get(key) ?? 0;
+  const pending = inFlight.get(key);
+  if (pending?.generation === generation) return pending.request as Promise<T>;
+  const request = fetcher()
+    .then(data => {
+      if ((generations.get(key) ?? 0) === generation) store(key, data);
+      return data;
+    })
+    .finally(() => {
+      if (inFlight.get(key)?.request === request) inFlight.delete(key);
+    });
+  inFlight.set(key, { request, generation });
+  return request;
+}
+
+function revalidateInBackground<T>(key: string, fetcher: () => Promise<T>) {
+  revalidate(key, fetcher).catch(err => console.warn(`Cache refresh for ${key} failed:`, err));
+}
+
+/**
+ * Cached data if there is any (refreshed in the background once stale),
+ * otherwise the result of `fetcher`. Subscribers hear about every refresh.
+ */
+export async function cachedQuery<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  let entry = entries.get(key) as CacheEntry<T> | undefined;
+  if (!entry && !inFlight.has(key)) {
+    entry = await readPersisted<T>(key);
+    if (entry && !entries.has(key)) entries.set(key, entry);
+  }
+  // After a write the caller expects to see it, so wait for the server;
+  // offline the last known data is still better than nothing
+  if (!entry) return revalidate(key, fetcher);
+  if (invalidated.has(key)) {
+    const cached = entry;
+    return revalidate(key, fetcher).catch(err => {
+      console.warn(`Cache refresh for ${key} failed, serving cached data:`, err);
+      return cached.data;
+    });
+  }
+  if (!isFresh(entry)) revalidateInBackground(key, fetcher);
+  return entry.data;
+}
+
+/**
+ * Marks `key` outdated after a write so the next read goes to the server.
+ * Keys that are on screen (have subscribers) are refetched right away.
+ */
+export function invalidateQuery<T>(key: string, fetcher?: () => Promise<T>) {
+  invalidated.add(key);
+  generations.set(key, (generations.get(key) ?? 0) + 1);
+  if (fetcher && listeners.get(key)?.size) revalidateInBackground(key, fetcher);
+}
+
+/** Marks every key outdated, e.g. after the assistant changed records server-side */
+export function invalidateAllQueries() {
+  entries.forEach((_, key) => invalidateQuery(key));
+}
+
+/** Cached data without fetching, if any */
+export function peekQuery<T>(key: string): T | undefined {
+  return entries.get(key)?.data as T | undefined;
+}
+
+/** Tells subscribers of `key` to re-read it, e.g. when local changes overlay the cached data */
+export function notifyQuery(key: string) {
+  notify(key);
+}
+
+export function subscribeQuery(key: string, listener: Listener): () => void {
+  if (!listeners.has(key)) listeners.set(key, new Set());
+  listeners.get(key)!.add(listener);
+  return () => {
+    listeners.get(key)?.delete(listener);
+  };
+}
@@ -0,0 +1,36 @@
+// Field cleaning before records are sent. cleanFieldsForApi from the
+// generated service only knows the generated field types, so the fields
+// added in app-extensions are cleaned here by their EXTENDED_FIELD_TYPES type.
+import { FIELD_TYPES } from '@/types/app';
+import { EXTENDED_FIELD_TYPES } from '@/types/app-extensions';
+import { cleanFieldsForApi } from '@/services/livingAppsService';
+
+function lookupKey(value: unknown): unknown {
+  return typeof value === 'object' && value !== null && 'key' in value ? (value as { key: unknown }).key : value;
+}
+
+function cleanAddedValue(value: unknown, type: string): unknown {
+  if (value === null || value === '') return null;
+  if (type.startsWith('multiplelookup')) return Array.isArray(value) ? value.map(lookupKey) : [];
+  if (type.startsWith('lookup')) return lookupKey(value);
+  if (type === 'number') {
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  return value;
+}
+
+/** cleanFieldsForApi for every field of `entity`, including the added ones */
+export function cleanRecordFields(fields: Record<string, unknown>, entity: string): Record<string, unknown> {
+  const generated = FIELD_TYPES[entity] ?? {};
+  const types = EXTENDED_FIELD_TYPES[entity] ?? {};
+  const added = Object.keys(types).filter(field => !(field in generated));
+  const clean = cleanFieldsForApi(
+    Object.fromEntries(Object.entries(fields).filter(([field]) => !added.includes(field))),
+    entity,
+  );
+  for (const field of added) {
+    if (fields[field] !== undefined) clean[field] = cleanAddedValue(fields[field], types[field]);
+  }
+  return clean;
+}
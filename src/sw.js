@@ -0,0 +1,62 @@
+// Service worker template. The build (precacheServiceWorker in vite.config.ts)
+// fills in PRECACHE with the emitted files and a build hash, so every deploy
+// yields a new sw.js and with it an update prompt.
+const PRECACHE = self.__PRECACHE_MANIFEST__;
+const PRECACHE_NAME = `pr-tracker-precache-${PRECACHE.version}`;
+
+const scopeUrl = new URL(self.registration.scope);
+const precacheUrls = new Set(PRECACHE.files.map(file => new URL(file, scopeUrl).href));
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(PRECACHE_NAME).then(cache => cache.addAll([...precacheUrls])),
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          // pr-tracker-api held record responses in earlier builds
+          .filter(key => (key.startsWith('pr-tracker-precache-') && key !== PRECACHE_NAME) || key === 'pr-tracker-api')
+          .map(key => caches.delete(key)),
+      ))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// The page decides when to switch over (see applyServiceWorkerUpdate)
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  return cached ?? fetch(request);
+}
+
+// The app shell is one HTML file; routes live in the hash
+async function navigation(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match(new URL('index.html', scopeUrl).href);
+    if (shell) return shell;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.href.startsWith(scopeUrl.href)) {
+    event.respondWith(navigation(request));
+  } else if (precacheUrls.has(url.origin + url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+  // Everything else goes straight to the network. Record data is user data:
+  // the app's own cache keeps it per user (recordCache), so it is not stored here
+});
@@ -0,0 +1,99 @@
+// Fields added to the LivingApps apps after app.ts was generated. They live
+// here so regenerating app.ts does not drop them; once the generator emits a
+// field, delete its entry below. Import the record types from this module.
+import type { LookupValue, PrEintraege as GeneratedPrEintraege, Uebungen as GeneratedUebungen } from './app';
+import { FIELD_TYPES, LOOKUP_OPTIONS as GENERATED_LOOKUP_OPTIONS } from './app';
+
+export type Uebungen = GeneratedUebungen & {
+  fields: {
+    primary_muscles?: LookupValue[];
+    secondary_muscles?: LookupValue[];
+    equipment?: LookupValue;
+    movement_pattern?: LookupValue;
+    tracking_type?: LookupValue;
+  };
+};
+
+export type PrEintraege = GeneratedPrEintraege & {
+  fields: {
+    set_details?: string; // JSON: [{ index, weight_kg, reps, type, duration_s?, distance_m?, rpe? }]
+    duration_seconds?: number;
+    distance_m?: number;
+    rpe?: number; // 6–10 in halben Schritten, RPE des Top-Satzes
+  };
+};
+
+const MUSCLE_OPTIONS = [
+  { key: 'brust', label: 'Brust' },
+  { key: 'ruecken', label: 'Rücken' },
+  { key: 'schultern', label: 'Schultern' },
+  { key: 'bizeps', label: 'Bizeps' },
+  { key: 'trizeps', label: 'Trizeps' },
+  { key: 'unterarme', label: 'Unterarme' },
+  { key: 'bauch', label: 'Bauch' },
+  { key: 'unterer_ruecken', label: 'Unterer Rücken' },
+  { key: 'quadrizeps', label: 'Quadrizeps' },
+  { key: 'beinbeuger', label: 'Beinbeuger' },
+  { key: 'gesaess', label: 'Gesäß' },
+  { key: 'waden', label: 'Waden' },
+];
+
+export const LOOKUP_OPTIONS: Record<string, Record<string, {key: string, label: string}[]>> = {
+  ...GENERATED_LOOKUP_OPTIONS,
+  'uebungen': {
+    ...GENERATED_LOOKUP_OPTIONS['uebungen'],
+    primary_muscles: MUSCLE_OPTIONS,
+    secondary_muscles: MUSCLE_OPTIONS,
+    equipment: [
+      { key: 'langhantel', label: 'Langhantel' },
+      { key: 'kurzhantel', label: 'Kurzhantel' },
+      { key: 'maschine', label: 'Maschine' },
+      { key: 'kabelzug', label: 'Kabelzug' },
+      { key: 'koerpergewicht', label: 'Körpergewicht' },
+    ],
+    movement_pattern: [
+      { key: 'horizontal_druecken', label: 'Horizontales Drücken' },
+      { key: 'vertikal_druecken', label: 'Vertikales Drücken' },
+      { key: 'horizontal_ziehen', label: 'Horizontales Ziehen' },
+      { key: 'vertikal_ziehen', label: 'Vertikales Ziehen' },
+      { key: 'kniebeuge', label: 'Kniebeuge' },
+      { key: 'hueftstreckung', label: 'Hüftstreckung' },
+      { key: 'ausfallschritt', label: 'Ausfallschritt' },
+      { key: 'isolation', label: 'Isolation' },
+      { key: 'rumpf', label: 'Rumpf' },
+    ],
+    tracking_type: [
+      { key: 'gewicht', label: 'Gewicht × Wiederholungen' },
+      { key: 'koerpergewicht', label: 'Körpergewicht (nur Wiederholungen)' },
+      { key: 'zusatzgewicht', label: 'Körpergewicht + Zusatzgewicht' },
+      { key: 'unterstuetzt', label: 'Unterstützt (Gegengewicht)' },
+      { key: 'zeit', label: 'Zeit' },
+      { key: 'distanz', label: 'Distanz' },
+      { key: 'zeit_distanz', label: 'Zeit + Distanz' },
+    ],
+  },
+};
+
+const ADDED_FIELD_TYPES: Record<string, Record<string, string>> = {
+  'uebungen': {
+    'primary_muscles': 'multiplelookup/checkbox',
+    'secondary_muscles': 'multiplelookup/checkbox',
+    'equipment': 'lookup/select',
+    'movement_pattern': 'lookup/select',
+    'tracking_type': 'lookup/select',
+  },
+  'pr_eintraege': {
+    'set_details': 'string/textarea',
+    'duration_seconds': 'number',
+    'distance_m': 'number',
+    'rpe': 'number',
+  },
+};
+
+/** Generated field types plus the ones added above; the generated table is left as it is */
+export const EXTENDED_FIELD_TYPES: Record<string, Record<string, string>> = Object.fromEntries(
+  Object.keys({ ...FIELD_TYPES, ...ADDED_FIELD_TYPES }).map(entity => [
+    entity,
+    { ...FIELD_TYPES[entity], ...ADDED_FIELD_TYPES[entity] },
+  ])
+);
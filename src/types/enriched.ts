@@ -1,4 +1,4 @@
-import type { PrEintraege } from './app';
+import type { PrEintraege } from './app-extensions';
 
 export type EnrichedPrEintraege = PrEintraege & {
   exercise_idName: string;
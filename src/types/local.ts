@@ -0,0 +1,70 @@
+// Records kept on this device until the matching LivingApps apps exist.
+// Same shape as the generated types in app.ts so views can treat them alike.
+import type { SetType } from '@/lib/sets';
+import type { CardioActivity } from '@/lib/cardio';
+import type { GoalMetric } from '@/lib/goals';
+import type { FreezeReason } from '@/lib/streaks';
+
+export interface LocalRecord<F> {
+  record_id: string;
+  createdat: string;
+  updatedat: string | null;
+  fields: F;
+}
+
+export interface PlannedExercise {
+  exercise_id: string; // Uebungen record_id
+  sets: { weight_kg: number; reps: number; type: SetType }[];
+}
+
+export type WorkoutSession = LocalRecord<{
+  name?: string;
+  started_at?: string; // ISO String
+  ended_at?: string; // ISO String, fehlt solange das Training läuft
+  notes?: string;
+  entry_ids?: string[]; // PrEintraege record_ids in Reihenfolge
+  template_id?: string; // RoutineTemplate record_id
+  plan?: PlannedExercise[]; // Vorgaben aus der Vorlage
+}>;
+
+export interface RoutineItem {
+  exercise_id: string; // Uebungen record_id
+  sets: number;
+  reps: number;
+  percent_1rm?: number; // Prozent vom e1RM, sonst letztes Arbeitsgewicht
+}
+
+export type RoutineTemplate = LocalRecord<{
+  name?: string;
+  description?: string;
+  items?: RoutineItem[];
+}>;
+
+export type CardioSession = LocalRecord<{
+  activity?: CardioActivity;
+  date?: string; // Format: YYYY-MM-DD
+  duration_seconds?: number;
+  distance_m?: number;
+  avg_heart_rate?: number; // Schläge pro Minute
+  note?: string;
+}>;
+
+export type BodyweightEntry = LocalRecord<{
+  date?: string; // Format: YYYY-MM-DD
+  weight_kg?: number;
+  body_fat_percent?: number;
+}>;
+
+export type Goal = LocalRecord<{
+  exercise_id?: string; // Uebungen record_id
+  metric?: GoalMetric;
+  target_value?: number; // kg, bei 'reps' Wiederholungen
+  deadline?: string; // Format: YYYY-MM-DD
+  achieved_at?: string; // Format: YYYY-MM-DD, gesetzt sobald ein Eintrag das Ziel erreicht
+}>;
+
+export type StreakFreeze = LocalRecord<{
+  start_date?: string; // Format: YYYY-MM-DD
+  end_date?: string; // Format: YYYY-MM-DD, inklusive
+  reason?: FreezeReason;
+}>;
@@ -1,12 +1,46 @@
 import path from "path"
+import { createHash } from "crypto"
+import { readFileSync } from "fs"
 import tailwindcss from "@tailwindcss/vite"
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Files from public/ that the app shell needs offline
+const PUBLIC_PRECACHE = ['manifest.webmanifest', 'favicon.svg']
+
+// Emits sw.js from src/sw.js with the list of built files to precache. The
+// list carries a hash of the build, so each deploy changes sw.js and the
+// browser picks up the new worker.
+function precacheServiceWorker(): Plugin {
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    // After Vite has added index.html to the bundle
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const files = [...PUBLIC_PRECACHE]
+      for (const [fileName, output] of Object.entries(bundle)) {
+        if (fileName.endsWith('.map')) continue
+        files.push(fileName)
+        hash.update(fileName)
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      }
+      const manifest = { version: hash.digest('hex').slice(0, 12), files }
+      const template = readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf-8')
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template.replace('self.__PRECACHE_MANIFEST__', () => JSON.stringify(manifest)),
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({ 
   base: '/github/694d77fcc1d4d50e79b93d47/',
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), precacheServiceWorker()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),